@@ -49,10 +49,16 @@ export class ApiCodeLensProvider implements vscode.CodeLensProvider {
                         endpoint.character + endpoint.methodName.length
                     );
 
-                    // Main test button
+                    // Main test button; versions not visible in the route are shown next to it
+                    const versionLabel = endpoint.apiVersion && !endpoint.apiVersionInRoute ? ` (v${endpoint.apiVersion})` : '';
+                    const lockBadge = endpoint.authorization ? ' 🔒' : '';
                     const testCommand: vscode.Command = {
-                        title: `🚀 Test ${endpoint.method} ${endpoint.route}`,
+                        title: `🚀 Test ${endpoint.method} ${endpoint.route}${endpoint.pageHandler ? `?handler=${endpoint.pageHandler}` : ''}${versionLabel}${lockBadge}`,
                         command: 'csharpApiTester.testApi',
+                        tooltip: [
+                            endpoint.summary,
+                            endpoint.authorization ? `Requires authorization: ${ApiEndpointDetector.describeAuthorization(endpoint.authorization)}` : undefined
+                        ].filter(Boolean).join('\n\n') || undefined,
                         arguments: [endpoint]
                     };
                     codeLenses.push(new vscode.CodeLens(range, testCommand));
@@ -68,7 +74,7 @@ export class ApiCodeLensProvider implements vscode.CodeLensProvider {
                     const infoCommand: vscode.Command = {
                         title: `📋 ${endpoint.method} | ${endpoint.parameters.length} params | Returns: ${endpoint.returnType}`,
                         command: '',
-                        tooltip: `HTTP Method: ${endpoint.method}\nRoute: ${endpoint.route}\nParameters: ${endpoint.parameters.length}\nReturn Type: ${endpoint.returnType}`
+                        tooltip: this.getInfoTooltip(endpoint)
                     };
                     codeLenses.push(new vscode.CodeLens(range, infoCommand));
 
@@ -123,12 +129,59 @@ export class ApiCodeLensProvider implements vscode.CodeLensProvider {
         return parts.join(' • ');
     }
 
+    private getInfoTooltip(endpoint: ApiEndpointInfo): string {
+        const lines: string[] = [];
+
+        if (endpoint.summary) {
+            lines.push(endpoint.summary, '');
+        }
+        lines.push(`HTTP Method: ${endpoint.method}`, `Route: ${endpoint.route}`);
+        if (endpoint.routeName) {
+            lines.push(`Route Name: ${endpoint.routeName}`);
+        }
+        if (endpoint.inheritedFrom) {
+            lines.push(`Inherited From: ${endpoint.inheritedFrom}`);
+        }
+        if (endpoint.functionName) {
+            lines.push(`Azure Function: ${endpoint.functionName} (${endpoint.functionAuthLevel} level)`);
+        }
+        if (endpoint.apiVersion) {
+            lines.push(`API Version: ${endpoint.apiVersion}`);
+        }
+        if (endpoint.authorization) {
+            lines.push(`Authorization: ${ApiEndpointDetector.describeAuthorization(endpoint.authorization)}`);
+        }
+        if (endpoint.consumes) {
+            lines.push(`Consumes: ${endpoint.consumes.join(', ')}`);
+        }
+        if (endpoint.produces) {
+            lines.push(`Produces: ${endpoint.produces.join(', ')}`);
+        }
+        lines.push(`Parameters: ${endpoint.parameters.length}`);
+        lines.push(`Return Type: ${endpoint.returnType}${endpoint.returnsDescription ? ` - ${endpoint.returnsDescription}` : ''}`);
+        if (endpoint.responses) {
+            lines.push('Responses:');
+            for (const response of endpoint.responses) {
+                const type = response.type ? ` ${response.type}` : '';
+                const description = response.description ? ` - ${response.description}` : '';
+                lines.push(`  ${response.statusCode}${type}${description}`);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
     private getParameterTooltip(parameters: any[]): string {
         const lines: string[] = ['Parameters:'];
 
         for (const param of parameters) {
             const required = param.required ? 'Required' : 'Optional';
-            lines.push(`  ${param.name} (${param.type}) - ${param.source} - ${required}`);
+            const constraint = param.constraint ? ` [${param.constraint}]` : '';
+            const example = param.example !== undefined && !param.example.includes('\n') ? ` (e.g. ${param.example})` : '';
+            lines.push(`  ${param.name} (${param.type})${constraint} - ${param.source} - ${required}${example}`);
+            if (param.description) {
+                lines.push(`      ${param.description.replace(/\n/g, '\n      ')}`);
+            }
         }
 
         return lines.join('\n');
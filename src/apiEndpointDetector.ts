@@ -1,5 +1,10 @@
 import * as vscode from 'vscode';
 import { CSharpClassParser, ClassProperty } from './csharpClassParser';
+import { CSharpAttribute, CSharpAttributeArgument, CSharpMemberDeclaration, CSharpParameter, CSharpSyntaxParser, CSharpSyntaxTree, CSharpToken, CSharpTypeDeclaration } from './csharpSyntax';
+import { RouteTemplate, RouteTemplatePart } from './routeTemplate';
+import { ConventionalRoute, StartupConfig, StartupConfigDetector } from './startupConfigDetector';
+import { FluentValidationParser } from './fluentValidationParser';
+import { XmlDocComment } from './xmlDocComment';
 
 export interface ApiEndpointInfo {
     method: string;
@@ -10,6 +15,90 @@ export interface ApiEndpointInfo {
     character: number;
     methodName: string;
     controllerName?: string;
+    kind?: 'controller' | 'minimalApi' | 'razorPage' | 'azureFunction';
+    apiVersion?: string;           // Asp.Versioning version this endpoint was expanded for, e.g. "2.0"
+    apiVersionInRoute?: boolean;   // The version was substituted into a {version:apiVersion} route segment
+    routeName?: string;            // Name = "..." of the route attribute
+    inheritedFrom?: string;        // Base controller declaring an inherited action
+    authorization?: EndpointAuthorization; // Set when [Authorize] / RequireAuthorization() applies and [AllowAnonymous] does not
+    consumes?: string[];           // Request media types from [Consumes] / .Accepts(), or form content types for [FromForm] actions
+    produces?: string[];           // Response media types from [Produces] / .Produces()
+    responses?: EndpointResponse[]; // Declared status codes, from [ProducesResponseType] / .Produces() and the return type
+    pageHandler?: string;           // Named Razor Pages handler selected with ?handler=, e.g. "Delete" for OnPostDeleteAsync
+    antiforgery?: boolean;          // Posts must carry an antiforgery token (Razor Pages without [IgnoreAntiforgeryToken])
+    functionName?: string;          // Azure Functions [Function("...")] / [FunctionName("...")] name
+    functionAuthLevel?: string;     // HttpTrigger AuthorizationLevel, lower case: anonymous, function, admin, ...
+    summary?: string;               // <summary> of the action's XML doc comment, or .WithSummary() of a Minimal API
+    returnsDescription?: string;    // <returns> of the action's XML doc comment
+}
+
+/**
+ * Response an endpoint declares for one status code
+ */
+export interface EndpointResponse {
+    statusCode: number;
+    type?: string;                  // Body type, e.g. OrderDto or List<OrderDto>; absent for bodiless or problem responses
+    description?: string;           // <response code="..."> of the action's XML doc comment
+    inferred?: boolean;             // Assumed from an ActionResult<T> / Task<T> return type instead of being declared
+}
+
+/**
+ * Requirements of [Authorize] attributes or RequireAuthorization() calls; all of them apply to the endpoint
+ */
+export interface EndpointAuthorization {
+    policies: string[];
+    roles: string[];                // Roles = "Admin,Manager" lists alternatives
+    authenticationSchemes: string[];
+}
+
+/**
+ * Action method of a controller, possibly inherited from a base controller
+ */
+interface ControllerAction {
+    member: CSharpMemberDeclaration;
+    attributes: CSharpAttribute[];   // Includes attributes inherited by an override without its own routes
+    signature: string;               // Base controller type parameters substituted, e.g. TEntity -> Product
+    returnType: string;
+    line: number;                    // Inherited actions are shown on the derived controller
+    inheritedFrom?: string;
+}
+
+/**
+ * Base class of a controller resolved in the workspace, with the type arguments the derived class passes in
+ */
+interface BaseControllerInfo {
+    type: CSharpTypeDeclaration;
+    document: vscode.TextDocument;
+    typeArguments: Map<string, string>;   // TEntity -> Product for CrudController<Product>
+}
+
+/**
+ * One attribute route of a controller action and the HTTP methods it accepts
+ */
+interface ActionRouteSelector {
+    methods: string[];
+    template: string;
+    line: number;
+    name?: string;
+    silent?: boolean;       // Only template-less [HttpXxx]/[AcceptVerbs]: conventionally routed when the controller has no [Route]
+}
+
+/**
+ * Route group declared with MapGroup, e.g. `var orders = app.MapGroup("/orders").WithTags("Orders");`
+ */
+interface MinimalApiGroup {
+    prefix: string;
+    tag?: string;
+    authorization?: EndpointAuthorization;
+    allowAnonymous?: boolean;
+}
+
+/**
+ * Parameter text of a method signature, or of a member expanded from an [AsParameters] / complex [FromQuery] / [FromRoute] type
+ */
+interface BoundParameterText {
+    text: string;
+    required?: boolean;     // Expanded members: nullable context, `required` modifier, [Required] and initializer of the declaration
 }
 
 export interface ApiParameter {
@@ -18,8 +107,12 @@ export interface ApiParameter {
     source: 'path' | 'query' | 'body' | 'header' | 'form';
     required: boolean;
     constraint?: string;
+    defaultValue?: string;         // Fixed value to send, e.g. the Razor Pages handler name
+    description?: string;          // <param name="..."> of the action's XML doc comment
+    example?: string;              // <param example="...">, or the action's <example> for a body parameter
     properties?: ClassProperty[];  // For complex types, store class properties
     classDefinition?: string;      // Full class definition with comments
+    unresolvedMembers?: boolean;   // Complex [FromRoute] / [AsParameters] type whose members could not be found to expand
 }
 
 export class ApiEndpointDetector {
@@ -27,10 +120,78 @@ export class ApiEndpointDetector {
         'HttpGet', 'HttpPost', 'HttpPut', 'HttpDelete',
         'HttpPatch', 'HttpHead', 'HttpOptions'
     ];
+    private readonly controllerBaseTypes = ['ControllerBase', 'Controller', 'ODataController'];
+    private readonly pageModelBaseTypes = ['PageModel'];
+    private readonly minimalApiMapMethods: Record<string, string> = {
+        MapGet: 'GET',
+        MapPost: 'POST',
+        MapPut: 'PUT',
+        MapDelete: 'DELETE',
+        MapPatch: 'PATCH'
+    };
+    // Verbs listed for an HttpTrigger without methods, which accepts any of them
+    private readonly anyMethodVerbs = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+    // TypedResults return types (Microsoft.AspNetCore.Http.HttpResults)
+    private readonly typedResultStatusCodes: Record<string, number> = {
+        Ok: 200,
+        Created: 201,
+        CreatedAtRoute: 201,
+        Accepted: 202,
+        AcceptedAtRoute: 202,
+        NoContent: 204,
+        BadRequest: 400,
+        ValidationProblem: 400,
+        UnauthorizedHttpResult: 401,
+        ForbidHttpResult: 403,
+        NotFound: 404,
+        Conflict: 409,
+        UnprocessableEntity: 422
+    };
+    private readonly httpStatusCodeNames: Record<string, number> = {
+        OK: 200,
+        Created: 201,
+        Accepted: 202,
+        NoContent: 204,
+        BadRequest: 400,
+        Unauthorized: 401,
+        Forbidden: 403,
+        NotFound: 404,
+        MethodNotAllowed: 405,
+        Conflict: 409,
+        UnprocessableEntity: 422,
+        TooManyRequests: 429,
+        InternalServerError: 500,
+        ServiceUnavailable: 503
+    };
     private classParser: CSharpClassParser;
+    private syntaxParser: CSharpSyntaxParser;
+    private startupConfigDetector: StartupConfigDetector;
+    private fluentValidationParser: FluentValidationParser;
 
     constructor() {
         this.classParser = new CSharpClassParser();
+        this.syntaxParser = CSharpSyntaxParser.getInstance();
+        this.startupConfigDetector = new StartupConfigDetector();
+        this.fluentValidationParser = new FluentValidationParser();
+        this.classParser.setNullableContextProvider(async document =>
+            (await this.startupConfigDetector.getConfigForDocument(document)).nullableReferenceTypes);
+    }
+
+    /**
+     * Human-readable authorization requirements, e.g. "Roles: Admin, Manager · Policy: CanEdit"
+     */
+    static describeAuthorization(authorization: EndpointAuthorization): string {
+        const parts: string[] = [];
+        if (authorization.roles.length > 0) {
+            parts.push(`Roles: ${authorization.roles.join(', ')}`);
+        }
+        if (authorization.policies.length > 0) {
+            parts.push(`Policy: ${authorization.policies.join(', ')}`);
+        }
+        if (authorization.authenticationSchemes.length > 0) {
+            parts.push(`Schemes: ${authorization.authenticationSchemes.join(', ')}`);
+        }
+        return parts.length > 0 ? parts.join(' · ') : 'Authenticated user';
     }
 
     async detectApiEndpoints(document: vscode.TextDocument): Promise<ApiEndpointInfo[]> {
@@ -40,759 +201,2394 @@ export class ApiEndpointDetector {
 
         console.log(`[C# API Detector] Analyzing controller file: ${document.fileName}`);
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
+        const tree = this.syntaxParser.parse(text);
+        let startupConfig: StartupConfig | undefined;
 
-            // Look for controller class
-            if (this.isControllerClass(line)) {
-                const controllerInfo = this.parseController(line);
-                const controllerRoute = this.extractControllerRoute(lines, i);
-                console.log(`[C# API Detector] Found controller '${controllerInfo.name}' with route '${controllerRoute}'`);
-
-                // Find API methods in this controller
-                let braceCount = 0;
-                let j = i + 1;
-                let foundClassStart = false;
-
-                while (j < lines.length) {
-                    const methodLine = lines[j];
-
-                    // Count braces to track class scope
-                    for (let char of methodLine) {
-                        if (char === '{') braceCount++;
-                        if (char === '}') braceCount--;
-                    }
+        for (const type of this.syntaxParser.getAllTypes(tree)) {
+            if (type.kind !== 'class') {
+                continue;
+            }
 
-                    // Wait until we enter the class body
-                    if (!foundClassStart && braceCount > 0) {
-                        foundClassStart = true;
-                    }
+            // Look for controller class
+            const baseChain = await this.getBaseControllerChain(document, type);
+            if (baseChain.frameworkBase && this.pageModelBaseTypes.includes(baseChain.frameworkBase)) {
+                endpoints.push(...await this.detectRazorPageHandlers(document, type, baseChain.bases));
+                continue;
+            }
+            if (!this.isControllerClass(type, baseChain)) {
+                continue;
+            }
 
-                    // If we've left the class body, stop
-                    if (foundClassStart && braceCount === 0) {
-                        break;
-                    }
+            const declaringTypes = [type, ...baseChain.bases.map(base => base.type)];
+            const controllerInfo = {
+                ...this.parseController(type),
+                consumes: this.extractInheritedMediaTypes(declaringTypes, 'Consumes'),
+                produces: this.extractInheritedMediaTypes(declaringTypes, 'Produces'),
+                // [Authorize] and [AllowAnonymous] are inherited from base controllers
+                authorizationAttributes: declaringTypes.flatMap(declaring => declaring.attributes),
+                // [ProducesResponseType] on a controller applies to all of its actions
+                responses: this.extractResponseTypes(declaringTypes.flatMap(declaring => declaring.attributes))
+            };
+            const controllerRoutes = this.extractControllerRoutes(type, baseChain.bases);
+            const controllerArea = this.getAreaName(declaringTypes);
+            const controllerVersions = this.extractApiVersions(type.attributes, 'ApiVersion');
+
+            // Global route prefix conventions and conventional routes come from Program.cs / Startup.cs
+            startupConfig = startupConfig || await this.startupConfigDetector.getConfigForDocument(document);
+            const conventionalRoutes = declaringTypes.some(t => this.hasAttribute(t.attributes, 'Route') || this.hasAttribute(t.attributes, 'ApiController'))
+                ? []
+                : startupConfig.conventionalRoutes;
+            const routing = { routePrefix: startupConfig.routePrefix, conventionalRoutes };
+
+            console.log(`[C# API Detector] Found controller '${controllerInfo.name}' with route '${controllerRoutes.join("', '")}'` +
+                (controllerVersions.length > 0 ? `, versions: ${controllerVersions.join(', ')}` : ''));
+
+            // Find API methods in this controller and its base controllers
+            for (const action of this.collectControllerActions(type, baseChain.bases)) {
+                // Without conventional routes only actions with HTTP method attributes are reachable
+                const isConventionalAction = conventionalRoutes.length > 0 && action.member.modifiers.includes('public') &&
+                    !action.member.modifiers.includes('static');
+                if (!(this.hasHttpMethodAttribute(action.attributes) || isConventionalAction) || this.hasAttribute(action.attributes, 'NonAction')) {
+                    continue;
+                }
 
-                    const trimmedLine = methodLine.trim();
+                const area = this.getAttributeTemplate(action.attributes.find(attribute => attribute.name === 'Area')) || controllerArea;
 
-                    if (this.hasHttpMethodAttribute(trimmedLine)) {
-                        const methodInfo = await this.parseApiMethod(document, lines, j, controllerInfo, controllerRoute);
-                        if (methodInfo) {
-                            endpoints.push(methodInfo);
-                        }
-                    }
-                    j++;
+                // One endpoint per API version the action is available in
+                const versions = this.getActionApiVersions(type, action.member, controllerVersions);
+                for (const version of versions.length > 0 ? versions : [undefined]) {
+                    const methodEndpoints = await this.parseApiMethod(document, action, controllerInfo, controllerRoutes, area, version, routing);
+                    endpoints.push(...methodEndpoints);
                 }
             }
         }
 
+        // Minimal API endpoints (app.MapGet, group.MapPost, ...) can live anywhere, e.g. Program.cs
+        const minimalApiEndpoints = await this.detectMinimalApiEndpoints(document, tree, lines);
+        endpoints.push(...minimalApiEndpoints);
+
+        // Azure Functions HTTP triggers, prefixed with the host.json route prefix
+        if (/\bHttpTrigger\b/.test(text)) {
+            startupConfig = startupConfig || await this.startupConfigDetector.getConfigForDocument(document);
+            endpoints.push(...await this.detectAzureFunctions(document, tree, startupConfig.functionsRoutePrefix ?? 'api'));
+        }
+
         console.log(`[C# API Detector] ✅ Found ${endpoints.length} endpoints`);
         return endpoints;
     }
 
-    private isControllerClass(line: string): boolean {
-        const hasClassKeyword = line.includes('class');
-        const hasControllerPattern = /Controller/.test(line);
-        return hasClassKeyword && hasControllerPattern;
-    }
+    /**
+     * Apply ASP.NET Core controller discovery: a public, non-abstract, non-generic class that is not [NonController]
+     * and either ends with "Controller", has [ApiController]/[Controller] (also inherited), or derives from a controller base
+     */
+    private isControllerClass(type: CSharpTypeDeclaration, baseChain: { bases: BaseControllerInfo[]; frameworkBase?: string }): boolean {
+        if (type.kind !== 'class' || !type.modifiers.includes('public') ||
+            type.modifiers.includes('abstract') || type.modifiers.includes('static') || type.typeParameters.length > 0) {
+            return false;
+        }
 
-    private parseController(line: string): { name: string; routePrefix?: string } {
-        const classMatch = line.match(/class\s+(\w+)/);
-        const name = classMatch ? classMatch[1] : '';
+        if (this.hasAttribute(type.attributes, 'NonController')) {
+            return false;
+        }
 
-        // Remove "Controller" suffix if present
-        const cleanName = name.replace(/Controller$/, '');
+        if (this.hasAttribute(type.attributes, 'ApiController') || this.hasAttribute(type.attributes, 'Controller') ||
+            type.name.endsWith('Controller')) {
+            return true;
+        }
 
-        return {
-            name: cleanName,
-            routePrefix: cleanName.toLowerCase()
-        };
-    }
+        // [NonController] on a base is inherited and wins over a marker further up
+        for (const base of baseChain.bases) {
+            if (this.hasAttribute(base.type.attributes, 'NonController')) {
+                return false;
+            }
+            if (this.hasAttribute(base.type.attributes, 'ApiController') || this.hasAttribute(base.type.attributes, 'Controller')) {
+                return true;
+            }
+        }
 
-    private extractControllerRoute(lines: string[], classLineIndex: number): string {
-        // Look backwards from class line to find [Route] attribute
-        let controllerRoute = '';
+        return !!baseChain.frameworkBase && this.controllerBaseTypes.includes(baseChain.frameworkBase);
+    }
 
-        for (let i = classLineIndex - 1; i >= 0; i--) {
-            const line = lines[i].trim();
+    /**
+     * Walk the base class chain up to a framework controller base (ControllerBase, Controller, ...) or PageModel.
+     * Custom bases are resolved through CSharpClassParser, generic arguments are carried along.
+     */
+    private async getBaseControllerChain(document: vscode.TextDocument, type: CSharpTypeDeclaration): Promise<{ bases: BaseControllerInfo[]; frameworkBase?: string }> {
+        const bases: BaseControllerInfo[] = [];
+        const visited = new Set([type.name]);
+        let current: BaseControllerInfo = { type, document, typeArguments: new Map() };
+
+        while (true) {
+            // The base class comes first in the base list; interfaces can't make a controller
+            const baseType = current.type.baseTypes[0];
+            if (!baseType) {
+                return { bases };
+            }
 
-            if (line.includes('[ApiController]')) {
-                break; // Stop when we hit the ApiController attribute
+            const baseName = baseType.replace(/<.*>$/s, '').replace(/^global::/, '').split('.').pop()!.trim();
+            if (this.controllerBaseTypes.includes(baseName) || this.pageModelBaseTypes.includes(baseName)) {
+                return { bases, frameworkBase: baseName };
+            }
+            if (visited.has(baseName) || /^I[A-Z]/.test(baseName)) {
+                return { bases };
             }
+            visited.add(baseName);
 
-            const routeMatch = line.match(/\[Route\("([^"]+)"\)\]/);
-            if (routeMatch) {
-                controllerRoute = routeMatch[1];
-                break;
+            const resolved = await this.classParser.findClassDeclarationInWorkspace(baseName, current.document);
+            if (!resolved) {
+                console.log(`[C# API Detector] ⚠️ Base class '${baseName}' of '${current.type.name}' not found`);
+                return { bases };
             }
-        }
 
-        return controllerRoute;
-    }
+            // CrudController<Product> binds TEntity to Product (arguments may refer to the derived class's own parameters)
+            const genericStart = baseType.indexOf('<');
+            const typeArgumentList = genericStart === -1 ? [] : this.splitParameters(baseType.substring(genericStart + 1, baseType.lastIndexOf('>')));
+            const typeArguments = new Map<string, string>();
+            resolved.type.typeParameters.forEach((typeParameter, index) => {
+                if (typeArgumentList[index]) {
+                    typeArguments.set(typeParameter, this.substituteTypeParameters(typeArgumentList[index], current.typeArguments));
+                }
+            });
 
-    private hasHttpMethodAttribute(line: string): boolean {
-        return this.httpMethodAttributes.some(attr => line.includes(`[${attr}`));
+            current = { type: resolved.type, document: resolved.document, typeArguments };
+            bases.push(current);
+        }
     }
 
-    private async parseApiMethod(document: vscode.TextDocument, lines: string[], startLine: number, controllerInfo: any, controllerRoute: string): Promise<ApiEndpointInfo | null> {
-        let currentLine = startLine;
-        let httpMethod = '';
-        let routeTemplate = '';
-        let methodSignature = '';
-        let methodName = '';
-        let returnType = '';
-
-        // Parse attributes
-        while (currentLine < lines.length) {
-            const line = lines[currentLine].trim();
-
-            if (line.startsWith('[')) {
-                // Check for HTTP method attribute
-                for (const attr of this.httpMethodAttributes) {
-                    if (line.includes(`[${attr}`)) {
-                        httpMethod = attr.replace('Http', '').toUpperCase();
+    /**
+     * Azure Functions with an [HttpTrigger] parameter, isolated worker ([Function]) or in-process ([FunctionName]).
+     * The body type comes from a typed trigger or [FromBody] parameter, or from ReadFromJsonAsync<T>() style reads.
+     */
+    private async detectAzureFunctions(document: vscode.TextDocument, tree: CSharpSyntaxTree, routePrefix: string): Promise<ApiEndpointInfo[]> {
+        const endpoints: ApiEndpointInfo[] = [];
 
-                        // Extract route from attribute
-                        const routeMatch = line.match(/\[\w+\("([^"]+)"\)\]/);
-                        if (routeMatch) {
-                            routeTemplate = routeMatch[1];
-                        }
-                        break;
-                    }
+        for (const type of this.syntaxParser.getAllTypes(tree)) {
+            for (const member of type.members) {
+                const functionAttribute = member.attributes.find(attribute => attribute.name === 'Function' || attribute.name === 'FunctionName');
+                const triggerParameter = member.parameters?.find(param => this.hasAttribute(param.attributes, 'HttpTrigger'));
+                if (member.kind !== 'method' || !functionAttribute || !triggerParameter) {
+                    continue;
                 }
 
-                // Check for Route attribute
-                if (line.includes('[Route(')) {
-                    const routeMatch = line.match(/\[Route\("([^"]+)"\)\]/);
-                    if (routeMatch) {
-                        routeTemplate = routeMatch[1];
+                const functionName = functionAttribute.arguments.find(argument => !argument.name)?.stringValue || member.name;
+                const trigger = triggerParameter.attributes.find(attribute => attribute.name === 'HttpTrigger')!;
+                const methods: string[] = [];
+                let authLevel = 'function';
+                let template: string | undefined;
+
+                for (const argument of trigger.arguments) {
+                    const levelMatch = argument.text.match(/AuthorizationLevel\.(\w+)$/);
+                    if (argument.name === 'Route') {
+                        template = argument.stringValue;
+                    } else if (levelMatch) {
+                        authLevel = levelMatch[1].toLowerCase();
+                    } else if (!argument.name && argument.stringValue) {
+                        methods.push(argument.stringValue.toUpperCase());
                     }
                 }
-            } else if (line.includes('public') && line.includes('(') && line.includes(')')) {
-                // Found method signature
-                methodSignature = line;
 
-                // Extract method name and return type
-                const methodDetails = this.extractMethodDetails(methodSignature);
-                if (methodDetails) {
-                    returnType = methodDetails.returnType;
-                    methodName = methodDetails.methodName;
+                const route = this.combineRouteSegments(routePrefix, template ?? functionName);
+                const bodyText = tree.text.substring(member.start, member.end);
+                console.log(`[C# API Detector] Found Azure Function '${functionName}' (${methods.join(', ') || 'any method'}) '${route}'`);
+
+                for (const httpMethod of methods.length > 0 ? methods : this.anyMethodVerbs) {
+                    const parameters = await this.parseFunctionParameters(document, member, triggerParameter, bodyText, route);
+                    endpoints.push(this.applyDocumentation({
+                        method: httpMethod,
+                        route: this.processRouteParameters(route, parameters),
+                        parameters,
+                        returnType: member.type || 'void',
+                        line: member.line,
+                        character: member.character,
+                        methodName: functionName,
+                        controllerName: type.name,
+                        kind: 'azureFunction',
+                        consumes: this.getFormMediaTypes(parameters),
+                        functionName,
+                        functionAuthLevel: authLevel
+                    }, member.docComment));
                 }
-                break;
-            } else if (line.includes('public') && !line.includes('class')) {
-                // Method signature might span multiple lines
-                methodSignature = line;
-                currentLine++;
+            }
+        }
 
-                // Continue reading until we find the closing parenthesis
-                while (currentLine < lines.length && !lines[currentLine].includes(')')) {
-                    methodSignature += ' ' + lines[currentLine].trim();
-                    currentLine++;
-                }
-                if (currentLine < lines.length) {
-                    methodSignature += ' ' + lines[currentLine].trim();
-                }
+        return endpoints;
+    }
 
-                const methodDetails = this.extractMethodDetails(methodSignature);
-                if (methodDetails) {
-                    returnType = methodDetails.returnType;
-                    methodName = methodDetails.methodName;
-                }
-                break;
+    /**
+     * Route values and the request body of a function; bindings, loggers and the function context are left out
+     */
+    private async parseFunctionParameters(
+        document: vscode.TextDocument,
+        member: CSharpMemberDeclaration,
+        triggerParameter: CSharpParameter,
+        bodyText: string,
+        route: string
+    ): Promise<ApiParameter[]> {
+        const injectedTypes = ['FunctionContext', 'ILogger', 'ExecutionContext', 'HttpRequestData', 'HttpRequest', 'HttpRequestMessage'];
+        const bindingParameters = (member.parameters || []).filter(param =>
+            param === triggerParameter
+                ? !injectedTypes.includes(this.getSimpleTypeName(param.type))   // In-process triggers can bind the body directly
+                : !injectedTypes.includes(this.getSimpleTypeName(param.type)) &&
+                    param.attributes.every(attribute => /^From\w+$/.test(attribute.name)));
+
+        const signature = `${member.name}(${bindingParameters.map(param => param === triggerParameter
+            ? `[FromBody] ${param.type} ${param.name}`
+            : `${param.attributes.map(attribute => `[${attribute.text}]`).join(' ')} ${param.type} ${param.name}`.trim()).join(', ')})`;
+        const parameters = await this.parseParameters(document, signature, member.name, route);
+
+        // Only route values bind to plain parameters; other simple values are read from the query by the function
+        const routeParameterNames = RouteTemplate.parse(route).parameters.map(parameter => parameter.name.toLowerCase());
+        for (const param of parameters) {
+            if (param.source === 'path' && !routeParameterNames.includes(param.name.toLowerCase())) {
+                param.source = 'query';
             }
+        }
 
-            currentLine++;
+        // await req.ReadFromJsonAsync<Order>(), JsonSerializer.Deserialize<Order>(...), JsonConvert.DeserializeObject<Order>(...)
+        const readMatch = bodyText.match(/\b(?:ReadFromJsonAsync|ReadAsAsync|DeserializeAsync|Deserialize|DeserializeObject)\s*<\s*([\w.]+(?:\s*<[^<>]*>)?(?:\[\])?\??)\s*>/);
+        if (readMatch && !parameters.some(param => param.source === 'body' || param.source === 'form')) {
+            parameters.push({ name: 'body', type: readMatch[1].replace(/\s+/g, ''), source: 'body', required: true });
         }
 
-        if (!httpMethod || !methodName) {
-            return null;
+        // req.Query["name"] reads
+        const queryPattern = /\.Query\s*\[\s*"([^"]+)"\s*\]/g;
+        for (let match = queryPattern.exec(bodyText); match; match = queryPattern.exec(bodyText)) {
+            if (!parameters.some(param => param.name.toLowerCase() === match![1].toLowerCase())) {
+                parameters.push({ name: match[1], type: 'string', source: 'query', required: false });
+            }
         }
 
-        // Build complete route first (needed for debugging context)
-        let route = '';
+        return parameters;
+    }
 
-        // Start with controller route if available
-        if (controllerRoute) {
-            // Replace [controller] placeholder with actual controller name
-            const controllerName = controllerInfo.name.toLowerCase();
-            const processedControllerRoute = controllerRoute.replace('[controller]', controllerName);
-            route = processedControllerRoute.startsWith('/') ? processedControllerRoute : `/${processedControllerRoute}`;
-        } else if (controllerInfo.routePrefix) {
-            // Fallback to old behavior if no controller route found
-            route = `/${controllerInfo.routePrefix}`;
+    /**
+     * Handlers of a Razor Pages PageModel: OnGet, OnPostAsync, OnPostDeleteAsync (?handler=Delete), ...
+     * The route comes from the page's location under Pages/ (or Areas/{area}/Pages/) and its @page directive.
+     */
+    private async detectRazorPageHandlers(document: vscode.TextDocument, type: CSharpTypeDeclaration, bases: BaseControllerInfo[]): Promise<ApiEndpointInfo[]> {
+        const endpoints: ApiEndpointInfo[] = [];
+        if (!type.modifiers.includes('public') || type.modifiers.includes('abstract')) {
+            return endpoints;
         }
 
-        // Add method-specific route
-        if (routeTemplate) {
-            route += routeTemplate.startsWith('/') ? routeTemplate : `/${routeTemplate}`;
-        } else if (!controllerRoute) {
-            // Only use method name as route if no controller route exists
-            route += `/${methodName}`;
+        const pageRoute = await this.getRazorPageRoute(document, type.name);
+        if (pageRoute === null) {
+            console.log(`[C# API Detector] ⚠️ No routable .cshtml page found for '${type.name}'`);
+            return endpoints;
         }
+        console.log(`[C# API Detector] Found Razor page '${type.name}' with route '${pageRoute}'`);
+
+        const declaringTypes = [type, ...bases.map(base => base.type)];
+        const classAttributes = declaringTypes.flatMap(declaring => declaring.attributes);
+        const authorization = this.extractAuthorization(classAttributes);
+        const ignoresAntiforgery = this.hasAttribute(classAttributes, 'IgnoreAntiforgeryToken');
+        const seenHandlers = new Set<string>();
+
+        for (const declaring of declaringTypes) {
+            for (const member of declaring.members) {
+                const handlerMatch = member.kind === 'method' ? member.name.match(/^On(Get|Post|Put|Delete|Patch)(\w*?)(Async)?$/) : null;
+                if (!handlerMatch || !member.modifiers.includes('public') || member.modifiers.includes('static') ||
+                    this.hasAttribute(member.attributes, 'NonHandler') || seenHandlers.has(member.name)) {
+                    continue;
+                }
+                seenHandlers.add(member.name);
+
+                const httpMethod = handlerMatch[1].toUpperCase();
+                const handlerName = handlerMatch[2] || undefined;
+                const parameters = await this.parseParameters(document, member.signature, member.name, pageRoute);
+                const route = this.processRouteParameters(pageRoute, parameters);
+                const routeParameterNames = RouteTemplate.parse(route).parameters.map(parameter => parameter.name.toLowerCase());
+                const hasFromBody = /\[FromBody\b/.test(member.signature);
+
+                for (const param of parameters) {
+                    // Page handlers bind simple values from the query string and complex types from the form
+                    if (param.source === 'path' && !routeParameterNames.includes(param.name.toLowerCase())) {
+                        param.source = 'query';
+                    } else if (param.source === 'body' && !hasFromBody) {
+                        param.source = 'form';
+                    }
+                }
 
-        // Parse parameters with context
-        const parameters = await this.parseParameters(document, methodSignature, methodName, route);
+                parameters.push(...await this.collectPageBoundProperties(document, declaringTypes, httpMethod));
+                if (handlerName) {
+                    parameters.push({ name: 'handler', type: 'string', source: 'query', required: true, defaultValue: handlerName });
+                }
 
-        // Handle route parameter placeholders
-        route = this.processRouteParameters(route, parameters);
+                endpoints.push(this.applyDocumentation({
+                    method: httpMethod,
+                    route,
+                    parameters,
+                    returnType: member.type || 'void',
+                    line: declaring === type ? member.line : type.line,
+                    character: 0,
+                    methodName: member.name,
+                    controllerName: type.name,
+                    kind: 'razorPage',
+                    inheritedFrom: declaring === type ? undefined : declaring.name,
+                    authorization: this.hasAttribute(classAttributes, 'AllowAnonymous') ? undefined : authorization,
+                    consumes: this.getFormMediaTypes(parameters),
+                    pageHandler: handlerName,
+                    antiforgery: httpMethod !== 'GET' && !ignoresAntiforgery
+                }, member.docComment));
+            }
+        }
 
-        return {
-            method: httpMethod,
-            route: route,
-            parameters: parameters,
-            returnType: returnType,
-            line: startLine,
-            character: 0,
-            methodName: methodName,
-            controllerName: controllerInfo.name
-        };
+        return endpoints;
     }
 
-    private extractMethodDetails(methodSignature: string): { returnType: string; methodName: string } | null {
-        if (!methodSignature) {
-            return null;
+    /**
+     * Route of the page a PageModel belongs to: Pages/Admin/Users/Edit.cshtml with `@page "{id:int}"` is
+     * /Admin/Users/Edit/{id:int}; Index pages map to their folder and a template starting with "/" replaces the path.
+     * Returns null when no .cshtml with an @page directive is found.
+     */
+    private async getRazorPageRoute(document: vscode.TextDocument, className: string): Promise<string | null> {
+        let pageDocument: vscode.TextDocument | undefined;
+        if (/\.cshtml\.cs$/i.test(document.fileName)) {
+            pageDocument = await this.openTextDocument(vscode.Uri.file(document.fileName.slice(0, -3)));
         }
 
-        const signatureBeforeParen = methodSignature.split('(')[0];
-        const trimmedSignature = signatureBeforeParen.trim();
-
-        if (!trimmedSignature) {
-            return null;
+        if (!pageDocument) {
+            // PageModel declared outside its code-behind file: find the page whose @model is the class
+            const modelPattern = new RegExp(`^\\s*@model\\s+(?:[\\w.]+\\.)?${className}\\s*$`, 'm');
+            const pages = await vscode.workspace.findFiles('**/Pages/**/*.cshtml', '**/{node_modules,bin,obj,.git,packages}/**');
+            for (const uri of pages) {
+                const candidate = await this.openTextDocument(uri);
+                if (candidate && modelPattern.test(candidate.getText())) {
+                    pageDocument = candidate;
+                    break;
+                }
+            }
         }
 
-        const methodNameMatch = trimmedSignature.match(/(\w+)(?:<[^<>]*>)?\s*$/);
-        if (!methodNameMatch) {
+        const directive = pageDocument?.getText().match(/^\s*@page\b[ \t]*(?:"([^"]*)")?/m);
+        if (!pageDocument || !directive) {
             return null;
         }
 
-        const methodNameWithGenerics = methodNameMatch[0].trim();
-        const methodName = methodNameMatch[1];
-
-        let returnType = trimmedSignature.substring(0, trimmedSignature.length - methodNameWithGenerics.length).trim();
-
-        const modifierPattern = /^(?:public|private|protected|internal|static|virtual|override|abstract|partial|async|sealed|unsafe|extern|new)\s+/i;
-        while (modifierPattern.test(returnType)) {
-            returnType = returnType.replace(modifierPattern, '').trimStart();
+        const pagePath = pageDocument.fileName.replace(/\\/g, '/');
+        const areaMatch = pagePath.match(/(?:^|\/)Areas\/([^/]+)\/Pages\/(.+)\.cshtml$/i);
+        const pagesMatch = areaMatch ? null : pagePath.match(/^.*\/Pages\/(.+)\.cshtml$/i);
+        const segments = (areaMatch ? [areaMatch[1], ...areaMatch[2].split('/')] : (pagesMatch ? pagesMatch[1].split('/') : []));
+        if (segments.length > 0 && segments[segments.length - 1] === 'Index') {
+            segments.pop();
         }
 
-        if (!returnType) {
-            returnType = 'unknown';
+        const template = directive[1]?.trim() || '';
+        if (template.startsWith('/') || template.startsWith('~/')) {
+            return `/${template.replace(/^~?\/+/, '')}`;
         }
-
-        return {
-            returnType,
-            methodName
-        };
+        return this.combineRouteSegments(segments.join('/'), template);
     }
 
-    private async parseParameters(document: vscode.TextDocument, methodSignature: string, methodName?: string, route?: string): Promise<ApiParameter[]> {
+    /**
+     * [BindProperty] properties (or all settable ones with [BindProperties]) as form fields; on GET only those with
+     * SupportsGet = true, bound from the query. Complex properties are expanded into "Input.Email" style fields.
+     */
+    private async collectPageBoundProperties(document: vscode.TextDocument, declaringTypes: CSharpTypeDeclaration[], httpMethod: string): Promise<ApiParameter[]> {
         const parameters: ApiParameter[] = [];
 
-        console.log(`[C# API Detector] 🎯 Parsing parameters for method: ${methodName || 'unknown'}, route: ${route || 'unknown'}`);
-        console.log(`[C# API Detector] 📝 Method signature: ${methodSignature}`);
+        for (const declaring of declaringTypes) {
+            const bindAll = this.hasAttribute(declaring.attributes, 'BindProperties');
 
-        // Extract parameter list with balanced parentheses awareness
-        const paramString = this.extractParameterList(methodSignature);
-        if (paramString === null) {
-            console.log(`[C# API Detector] ⚠️ No parameters found in method signature`);
-            return parameters;
-        }
+            for (const member of declaring.members) {
+                const bindProperty = member.attributes.find(attribute => attribute.name === 'BindProperty');
+                const isSettable = member.accessors?.some(accessor => accessor === 'set' || accessor === 'init');
+                if (member.kind !== 'property' || !member.modifiers.includes('public') || member.modifiers.includes('static') || !isSettable ||
+                    !(bindProperty || bindAll) || this.hasAttribute(member.attributes, 'BindNever') ||
+                    parameters.some(param => param.name === member.name || param.name.startsWith(`${member.name}.`))) {
+                    continue;
+                }
 
-        const paramList = this.splitParameters(paramString);
+                const supportsGet = bindProperty?.arguments.some(argument => argument.name === 'SupportsGet' && argument.text === 'true') ?? false;
+                if (httpMethod === 'GET' && !supportsGet) {
+                    continue;
+                }
 
-        console.log(`[C# API Detector] 📋 Found ${paramList.length} parameters: [${paramList.join(', ')}]`);
+                const source = httpMethod === 'GET' ? 'query' : 'form';
+                const name = bindProperty?.arguments.find(argument => argument.name === 'Name')?.stringValue || member.name;
+                const members = this.isComplexQueryType(member.type) ? await this.getBoundMembers(document, member.type) : null;
 
-        for (let i = 0; i < paramList.length; i++) {
-            const param = paramList[i];
-            console.log(`[C# API Detector] 🔄 Processing parameter ${i + 1}/${paramList.length}: "${param.trim()}"`);
-            const paramInfo = await this.parseSingleParameter(document, param.trim(), methodName, route);
-            if (paramInfo) {
-                parameters.push(paramInfo);
-                console.log(`[C# API Detector]   ✅ Added parameter: ${paramInfo.name} (${paramInfo.type})`);
-            } else {
-                console.log(`[C# API Detector]   ❌ Failed to parse parameter: "${param.trim()}"`);
+                if (members) {
+                    for (const boundMember of members) {
+                        parameters.push({ name: `${name}.${boundMember.name}`, type: boundMember.type, source, required: boundMember.required });
+                    }
+                } else {
+                    parameters.push({ name, type: member.type, source, required: await this.classParser.isBoundMemberRequired(document, member) });
+                }
             }
         }
 
-        console.log(`[C# API Detector] ✅ Completed parsing ${parameters.length} parameters for ${methodName}`);
         return parameters;
     }
 
-    private extractParameterList(methodSignature: string): string | null {
-        const startIndex = methodSignature.indexOf('(');
-        if (startIndex === -1) {
-            return null;
+    private async openTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+        try {
+            return await vscode.workspace.openTextDocument(uri);
+        } catch {
+            return undefined;
         }
+    }
 
-        let depth = 0;
-        let quoteChar: '"' | '\'' | undefined;
-        let verbatimString = false;
-
-        for (let i = startIndex; i < methodSignature.length; i++) {
-            const char = methodSignature[i];
-            const prevChar = i > 0 ? methodSignature[i - 1] : '';
-
-            if (quoteChar) {
-                if (quoteChar === '"' && verbatimString) {
-                    if (char === '"' && methodSignature[i + 1] === '"') {
-                        i++; // Skip escaped quote in verbatim string
-                        continue;
-                    }
-                    if (char === '"') {
-                        quoteChar = undefined;
-                        verbatimString = false;
-                    }
-                    continue;
+    /**
+     * Action methods of a controller followed by those inherited from its base controllers.
+     * Methods redeclared in a derived class hide the base ones; an override without routes keeps the base attributes.
+     */
+    private collectControllerActions(type: CSharpTypeDeclaration, bases: BaseControllerInfo[]): ControllerAction[] {
+        const actions: ControllerAction[] = [];
+        const declaredNames = new Set<string>();
+
+        const findBaseRoutes = (name: string, fromIndex: number) => {
+            for (let i = fromIndex; i < bases.length; i++) {
+                const baseMember = bases[i].type.members.find(m => m.kind === 'method' && m.name === name && this.hasHttpMethodAttribute(m.attributes));
+                if (baseMember) {
+                    return baseMember.attributes;
                 }
+            }
+            return undefined;
+        };
 
-                if (char === quoteChar && prevChar !== '\\') {
-                    quoteChar = undefined;
+        const declaringTypes = [{ type, typeArguments: new Map<string, string>() }, ...bases];
+        declaringTypes.forEach((declaring, index) => {
+            const isBase = index > 0;
+            for (const member of declaring.type.members) {
+                if (member.kind !== 'method' || declaredNames.has(member.name)) {
                     continue;
                 }
-                continue;
-            } else {
-                if (char === '"' || char === '\'') {
-                    quoteChar = char;
-                    if (char === '"') {
-                        verbatimString = false;
-                        for (let j = i - 1; j >= 0 && (methodSignature[j] === '@' || methodSignature[j] === '$'); j--) {
-                            if (methodSignature[j] === '@') {
-                                verbatimString = true;
-                                break;
-                            }
-                        }
-                    }
-                    continue;
+
+                let attributes = member.attributes;
+                if (member.modifiers.includes('override') && !this.hasHttpMethodAttribute(attributes)) {
+                    attributes = [...attributes, ...(findBaseRoutes(member.name, index) || [])];
                 }
+
+                actions.push({
+                    member,
+                    attributes,
+                    signature: this.substituteTypeParameters(member.signature, declaring.typeArguments),
+                    returnType: this.substituteTypeParameters(member.type || 'unknown', declaring.typeArguments),
+                    line: isBase ? type.line : member.line,
+                    inheritedFrom: isBase ? declaring.type.name : undefined
+                });
             }
 
-            if (char === '(') {
-                depth++;
-            } else if (char === ')') {
-                depth--;
-                if (depth === 0) {
-                    return methodSignature.substring(startIndex + 1, i);
+            // Names are collected after the whole class so overloads within one class are all kept
+            for (const member of declaring.type.members) {
+                if (member.kind === 'method') {
+                    declaredNames.add(member.name);
                 }
             }
-        }
+        });
 
-        return null;
+        return actions;
     }
 
-    private splitParameters(paramString: string): string[] {
-        // Enhanced parameter splitting that handles nested generics, brackets, and parentheses
-        const parameters: string[] = [];
-        let current = '';
-        let angleDepth = 0;    // For <>
-        let squareDepth = 0;   // For []
-        let parenDepth = 0;    // For ()
-
-        for (let i = 0; i < paramString.length; i++) {
-            const char = paramString[i];
-            const nextChar = i + 1 < paramString.length ? paramString[i + 1] : '';
+    private substituteTypeParameters(text: string, typeArguments: Map<string, string>): string {
+        let result = text;
+        typeArguments.forEach((argument, parameter) => {
+            result = result.replace(new RegExp(`\\b${parameter}\\b`, 'g'), argument);
+        });
+        return result;
+    }
 
-            // Track nested structures
-            if (char === '<') {
-                angleDepth++;
-            } else if (char === '>') {
-                angleDepth--;
-            } else if (char === '[') {
-                squareDepth++;
-            } else if (char === ']') {
-                squareDepth--;
-            } else if (char === '(') {
-                parenDepth++;
-            } else if (char === ')') {
-                parenDepth--;
+    /**
+     * Area from [Area("...")] on the controller or the nearest base controller
+     */
+    private getAreaName(types: CSharpTypeDeclaration[]): string | undefined {
+        for (const type of types) {
+            const area = this.getAttributeTemplate(type.attributes.find(attribute => attribute.name === 'Area'));
+            if (area) {
+                return area;
             }
+        }
+        return undefined;
+    }
 
-            // Split only at top level (no nested structures)
-            if (char === ',' && angleDepth === 0 && squareDepth === 0 && parenDepth === 0) {
-                const trimmed = current.trim();
-                if (trimmed) {
-                    parameters.push(trimmed);
-                }
-                current = '';
-                continue;
-            }
+    private hasAttribute(attributes: CSharpAttribute[], name: string): boolean {
+        return attributes.some(attribute => attribute.name === name);
+    }
 
-            current += char;
+    private parseController(type: CSharpTypeDeclaration): { name: string } {
+        // Remove "Controller" suffix if present
+        return { name: type.name.replace(/Controller$/, '') };
+    }
+
+    /**
+     * Route templates of the controller's [Route] attributes, or those of the nearest base controller
+     * declaring any; an empty template when there are none
+     */
+    private extractControllerRoutes(type: CSharpTypeDeclaration, bases: BaseControllerInfo[] = []): string[] {
+        for (const declaring of [type, ...bases.map(base => base.type)]) {
+            const routes = declaring.attributes
+                .filter(attribute => attribute.name === 'Route')
+                .map(attribute => this.getAttributeTemplate(attribute) || '');
+            if (routes.length > 0) {
+                return Array.from(new Set(routes));
+            }
         }
+        return [''];
+    }
 
-        // Add the last parameter if exists
-        const lastParam = current.trim();
-        if (lastParam) {
-            parameters.push(lastParam);
+    /**
+     * Versions declared with Asp.Versioning attributes, e.g. [ApiVersion("1.0")], [ApiVersion(2.0)], [ApiVersion(1, 0)]
+     * @param attributes Attributes of the controller or action
+     * @param attributeName ApiVersion or MapToApiVersion
+     */
+    private extractApiVersions(attributes: CSharpAttribute[], attributeName: string): string[] {
+        const versions: string[] = [];
+
+        for (const attribute of attributes) {
+            if (attribute.name !== attributeName) {
+                continue;
+            }
+
+            const positional = attribute.arguments.filter(argument => !argument.name);
+            if (positional.length === 0) {
+                continue;
+            }
+
+            // A string is parsed as a whole ("1.0", "2023-01-01", "1.0-beta"); numbers are major[, minor]
+            const version = positional[0].stringValue !== undefined
+                ? positional[0].stringValue
+                : positional.map(argument => argument.text.trim()).filter(text => /^\d+(\.\d+)?$/.test(text)).join('.');
+
+            if (version && !versions.includes(version)) {
+                versions.push(version);
+            }
         }
 
-        return parameters;
+        return versions;
     }
 
-    private async parseSingleParameter(document: vscode.TextDocument, param: string, methodName?: string, route?: string): Promise<ApiParameter | null> {
-        console.log(`[C# API Detector] 🔍 Parsing parameter: "${param}" (method: ${methodName || 'unknown'}, route: ${route || 'unknown'})`);
+    /**
+     * Versions an action is available in: [MapToApiVersion] narrows the controller versions,
+     * [ApiVersion] on the action replaces them and [ApiVersionNeutral] opts out of versioning
+     */
+    private getActionApiVersions(type: CSharpTypeDeclaration, member: CSharpMemberDeclaration, controllerVersions: string[]): string[] {
+        if (this.hasAttribute(type.attributes, 'ApiVersionNeutral') || this.hasAttribute(member.attributes, 'ApiVersionNeutral')) {
+            return [];
+        }
 
-        // Parse parameter with potential attributes
-        let type = '';
-        let name = '';
-        let source: 'path' | 'query' | 'body' | 'header' | 'form' = 'query';
-        let required = false;
+        const mappedVersions = this.extractApiVersions(member.attributes, 'MapToApiVersion');
+        if (mappedVersions.length > 0) {
+            return mappedVersions;
+        }
 
-        // Step 1: Detect parameter source from explicit From* attributes with enhanced pattern matching
-        // Support various formats: [FromBody], [FromBody()], [FromBody(...)], etc.
-        if (/\[FromRoute[\(\)\s\w="]*\]/i.test(param)) {
-            source = 'path';
-            required = true;
-            console.log(`[C# API Detector]   ✓ Detected FromRoute attribute`);
-        } else if (/\[FromBody[\(\)\s\w="]*\]/i.test(param)) {
-            source = 'body';
-            required = true;
-            console.log(`[C# API Detector]   ✓ Detected FromBody attribute`);
-        } else if (/\[FromQuery[\(\)\s\w="]*\]/i.test(param)) {
-            source = 'query';
-            console.log(`[C# API Detector]   ✓ Detected FromQuery attribute`);
-        } else if (/\[FromHeader[\(\)\s\w="]*\]/i.test(param)) {
-            source = 'header';
-            console.log(`[C# API Detector]   ✓ Detected FromHeader attribute`);
-        } else if (/\[FromForm[\(\)\s\w="]*\]/i.test(param)) {
-            source = 'form';
-            console.log(`[C# API Detector]   ✓ Detected FromForm attribute`);
-        } else if (/\[FromServices?[\(\)\s\w="]*\]/i.test(param)) {
-            // FromServices typically shouldn't be part of API calls
-            console.warn(`[C# API Detector]   ⚠️ FromServices detected - typically not part of API calls`);
-            return null;
+        const actionVersions = this.extractApiVersions(member.attributes, 'ApiVersion');
+        return actionVersions.length > 0 ? actionVersions : controllerVersions;
+    }
+
+    /**
+     * Replace route parameters constrained with apiVersion, e.g. v{version:apiVersion}, with the given version
+     * @returns The route and whether a version segment was found
+     */
+    private applyApiVersion(route: string, version: string): { route: string; substituted: boolean } {
+        const template = RouteTemplate.parse(route);
+        let substituted = false;
+
+        for (const segment of template.segments) {
+            segment.parts = segment.parts.map(part => {
+                if (part.kind === 'parameter' && part.parameter.constraints.some(constraint => constraint.name.toLowerCase() === 'apiversion')) {
+                    substituted = true;
+                    return { kind: 'literal', text: version };
+                }
+                return part;
+            });
         }
 
-        // Step 2: Extract parameter name from Name attribute if present
-        // Support patterns: [FromQuery(Name = "id")], [FromQuery("id")], [FromQuery], [BindNever]
-        const nameAttributeMatch = param.match(/Name\s*=\s*"([^"]+)"/i) || param.match(/Name\s*=\s*'([^']+)'/i);
-        if (nameAttributeMatch) {
-            name = nameAttributeMatch[1];
-            console.log(`[C# API Detector]   ✓ Found Name attribute: "${name}"`);
+        return { route: substituted ? template.toString() : route, substituted };
+    }
+
+    /**
+     * Combine [Authorize] attributes of the controller and action; [AllowAnonymous] on either bypasses them all
+     * @returns undefined for public endpoints
+     */
+    private extractAuthorization(attributes: CSharpAttribute[]): EndpointAuthorization | undefined {
+        if (this.hasAttribute(attributes, 'AllowAnonymous')) {
+            return undefined;
         }
 
-        // Step 3: Remove all C# attributes to simplify parsing
-        // Remove patterns like [FromQuery(...)], [FromBody], [Required], [BindNever], etc.
-        let cleanParam = param.replace(/\[[^\[\]]+\]/g, '').trim();
-        console.log(`[C# API Detector]   📝 Cleaned parameter: "${cleanParam}"`);
+        const authorizeAttributes = attributes.filter(attribute => attribute.name === 'Authorize');
+        if (authorizeAttributes.length === 0) {
+            return undefined;
+        }
 
-        // Step 4: Enhanced type and variable name extraction
-        // Supports: "Type name", "Type? name", "List<Type> name", "Type[] name"
-        // Also supports: "ref Type name", "out Type name", "params Type[] name"
-        // Remove modifiers first
-        cleanParam = cleanParam.replace(/\b(ref|out|in)\b\s+/i, '').trim();
-        const isParams = /\bparams\b/i.test(param);
+        const authorization: EndpointAuthorization = { policies: [], roles: [], authenticationSchemes: [] };
+        for (const attribute of authorizeAttributes) {
+            const policy = this.getNamedAttributeArgument(attribute, 'Policy')?.stringValue ?? this.getAttributeTemplate(attribute);
+            this.addAuthorizationValues(authorization.policies, policy ? [policy] : []);
+            this.addAuthorizationValues(authorization.roles, this.splitAuthorizationList(this.getNamedAttributeArgument(attribute, 'Roles')?.stringValue));
+            this.addAuthorizationValues(authorization.authenticationSchemes,
+                this.splitAuthorizationList(this.getNamedAttributeArgument(attribute, 'AuthenticationSchemes')?.stringValue));
+        }
+        return authorization;
+    }
 
-        if (isParams) {
-            console.log(`[C# API Detector]   ✓ Detected params parameter`);
+    private splitAuthorizationList(value: string | undefined): string[] {
+        return (value || '').split(',').map(item => item.trim()).filter(item => item.length > 0);
+    }
+
+    private addAuthorizationValues(target: string[], values: string[]): void {
+        target.push(...values.filter(value => !target.includes(value)));
+    }
+
+    /**
+     * Media types of [Consumes("application/xml")] or [Produces("text/csv", "application/json")]; type arguments are ignored
+     */
+    private extractMediaTypes(attributes: CSharpAttribute[], attributeName: 'Consumes' | 'Produces'): string[] {
+        const mediaTypes: string[] = [];
+        for (const attribute of attributes.filter(a => a.name === attributeName)) {
+            for (const argument of attribute.arguments) {
+                if (!argument.name && argument.stringValue && !/^typeof\s*\(|^nameof\s*\(/.test(argument.text) && !mediaTypes.includes(argument.stringValue)) {
+                    mediaTypes.push(argument.stringValue);
+                }
+            }
         }
+        return mediaTypes;
+    }
 
-        // Match type and variable name with improved regex
-        // Handles: TypeName, Type.Name, List<Type>, Type[], Dictionary<K,V>
-        const typeAndNameMatch = cleanParam.match(/^([\w<>?,\.\[\]\s]+?)\s+(\w+)(?:\s*=|\s*$)/);
+    /**
+     * Media types declared on the controller, or on the nearest base controller declaring any
+     */
+    private extractInheritedMediaTypes(declaringTypes: CSharpTypeDeclaration[], attributeName: 'Consumes' | 'Produces'): string[] {
+        for (const declaring of declaringTypes) {
+            const mediaTypes = this.extractMediaTypes(declaring.attributes, attributeName);
+            if (mediaTypes.length > 0) {
+                return mediaTypes;
+            }
+        }
+        return [];
+    }
 
-        if (typeAndNameMatch) {
-            type = typeAndNameMatch[1].trim();
-            const variableName = typeAndNameMatch[2].trim();
+    /**
+     * Actions binding [FromForm] parameters accept form posts: multipart when a file is uploaded
+     */
+    private getFormMediaTypes(parameters: ApiParameter[]): string[] | undefined {
+        const formParameters = parameters.filter(param => param.source === 'form');
+        if (formParameters.length === 0) {
+            return undefined;
+        }
+        return formParameters.some(param => this.isFileType(param.type))
+            ? ['multipart/form-data']
+            : ['multipart/form-data', 'application/x-www-form-urlencoded'];
+    }
 
-            // If name wasn't extracted from Name attribute, use variable name
-            if (!name) {
-                name = variableName;
+    /**
+     * [ProducesResponseType(typeof(OrderDto), 200)], [ProducesResponseType<OrderDto>(StatusCodes.Status200OK)],
+     * [ProducesResponseType(404)] or [ProducesResponseType(Type = typeof(OrderDto), StatusCode = 200)]
+     */
+    private extractResponseTypes(attributes: CSharpAttribute[]): EndpointResponse[] {
+        const responses: EndpointResponse[] = [];
+
+        for (const attribute of attributes.filter(a => a.name === 'ProducesResponseType')) {
+            const genericMatch = attribute.text.match(/^[\w.]*ProducesResponseType(?:Attribute)?\s*<(.+)>\s*(?:\(|$)/);
+            let type = genericMatch ? genericMatch[1].trim() : undefined;
+            let statusCode: number | undefined;
+
+            for (const argument of attribute.arguments) {
+                const typeOf = this.parseTypeOf(argument.text);
+                if (argument.name === 'Type' || !argument.name && typeOf) {
+                    type = typeOf || type;
+                } else if (argument.name === 'StatusCode' || argument.name === 'statusCode' || !argument.name) {
+                    statusCode = this.parseStatusCode(argument.text) ?? statusCode;
+                }
             }
 
-            console.log(`[C# API Detector]   ✓ Extracted Type: "${type}", Variable: "${variableName}"`);
+            this.addResponse(responses, { statusCode: statusCode ?? 200, type: type && type !== 'void' ? type : undefined });
+        }
+
+        return responses;
+    }
+
+    /**
+     * .Produces<OrderDto>(200), .Produces(404), .ProducesProblem(500) and .ProducesValidationProblem() on a Minimal API endpoint
+     */
+    private collectChainResponses(tokens: CSharpToken[], start: number, end: number): EndpointResponse[] {
+        const responses: EndpointResponse[] = [];
+
+        for (let j = start; j < end; j++) {
+            const name = tokens[j].text;
+            if (tokens[j - 1]?.text !== '.' || !['Produces', 'ProducesProblem', 'ProducesValidationProblem'].includes(name)) {
+                continue;
+            }
+
+            let type: string | undefined;
+            let openParen = j + 1;
+            if (tokens[openParen]?.text === '<') {
+                let depth = 0;
+                const typeStart = openParen + 1;
+                for (; openParen < end; openParen++) {
+                    depth += tokens[openParen].text === '<' ? 1 : tokens[openParen].text === '>' ? -1 : 0;
+                    if (depth === 0) {
+                        break;
+                    }
+                }
+                type = tokens.slice(typeStart, openParen).map(token => token.text).join('').replace(/,/g, ', ');
+                openParen++;
+            }
+            if (tokens[openParen]?.text !== '(') {
+                continue;
+            }
+
+            const closeParen = this.syntaxParser.findMatchingToken(tokens, openParen);
+            let statusCode: number | undefined;
+            for (const [first, last] of this.syntaxParser.splitTokenList(tokens, openParen + 1, closeParen)) {
+                const isNamed = tokens[first].kind === 'identifier' && tokens[first + 1]?.text === ':' && first + 1 < last;
+                const argumentName = isNamed ? tokens[first].text : undefined;
+                const text = tokens.slice(isNamed ? first + 2 : first, last + 1).map(token => token.text).join('');
+                const typeOf = this.parseTypeOf(text);
+
+                if (typeOf && (!argumentName || argumentName === 'responseType')) {
+                    type = typeOf;
+                } else if (statusCode === undefined && (!argumentName || argumentName === 'statusCode')) {
+                    statusCode = this.parseStatusCode(text);
+                }
+            }
+
+            if (name === 'Produces') {
+                this.addResponse(responses, { statusCode: statusCode ?? 200, type });
+            } else {
+                // Problem details bodies are framework types, not DTOs of the workspace
+                this.addResponse(responses, { statusCode: statusCode ?? (name === 'ProducesProblem' ? 500 : 400) });
+            }
+            j = closeParen;
+        }
+
+        return responses;
+    }
+
+    /**
+     * Complete the declared responses with the return type: untyped 2xx responses take the body type of
+     * ActionResult<T> / Task<T>, a typed result adds its own status, and without any 2xx a typed body means 200
+     */
+    private buildResponses(declared: EndpointResponse[], returnType: string): EndpointResponse[] | undefined {
+        const responses = this.mergeResponses(declared, this.getTypedResultResponses(returnType));
+        const bodyType = this.getResponseBodyType(returnType);
+
+        if (bodyType) {
+            for (const response of responses) {
+                if (!response.type && response.statusCode >= 200 && response.statusCode < 300 && response.statusCode !== 204) {
+                    response.type = bodyType;
+                }
+            }
+            if (!responses.some(response => response.statusCode >= 200 && response.statusCode < 300)) {
+                responses.push({ statusCode: 200, type: bodyType, inferred: true });
+            }
+        }
+
+        return responses.length > 0 ? responses.sort((a, b) => a.statusCode - b.statusCode) : undefined;
+    }
+
+    /**
+     * Responses of the first list win over those of the second for the same status code
+     */
+    private mergeResponses(primary: EndpointResponse[], secondary: EndpointResponse[]): EndpointResponse[] {
+        const merged = primary.map(response => ({ ...response }));
+        for (const response of secondary) {
+            this.addResponse(merged, { ...response });
+        }
+        return merged;
+    }
+
+    private addResponse(responses: EndpointResponse[], response: EndpointResponse): void {
+        if (!responses.some(existing => existing.statusCode === response.statusCode)) {
+            responses.push(response);
+        }
+    }
+
+    /**
+     * Body type of a successful response: T of ActionResult<T>, Task<T> or ValueTask<T>;
+     * undefined for IActionResult, IResult, typed results and void
+     */
+    private getResponseBodyType(returnType: string): string | undefined {
+        let type = returnType.trim();
+        const taskMatch = type.match(/^(?:System\.Threading\.Tasks\.)?(?:Task|ValueTask)\s*<(.+)>$/);
+        if (taskMatch) {
+            type = taskMatch[1].trim();
+        }
+
+        const actionResultMatch = type.match(/^(?:[\w.]+\.)?ActionResult\s*<(.+)>$/);
+        if (actionResultMatch) {
+            return actionResultMatch[1].trim();
+        }
+
+        const simpleName = this.getSimpleTypeName(type);
+        const untypedResults = [
+            'void', 'unknown', 'object', 'Task', 'ValueTask', 'IActionResult', 'ActionResult', 'IResult', 'Results',
+            'ObjectResult', 'OkObjectResult', 'JsonResult', 'ContentResult', 'FileResult', 'FileContentResult', 'FileStreamResult',
+            'StatusCodeResult', 'EmptyResult', 'RedirectResult'
+        ];
+        if (!type || untypedResults.includes(simpleName) || Object.prototype.hasOwnProperty.call(this.typedResultStatusCodes, simpleName)) {
+            return undefined;
+        }
+        return type;
+    }
+
+    /**
+     * Status codes of TypedResults return types: Results<Ok<OrderDto>, NotFound> or Created<OrderDto>
+     */
+    private getTypedResultResponses(returnType: string): EndpointResponse[] {
+        const type = returnType.trim().replace(/^(?:System\.Threading\.Tasks\.)?(?:Task|ValueTask)\s*<(.+)>$/, '$1').trim();
+        const resultsMatch = type.match(/^(?:[\w.]+\.)?Results\s*<(.+)>$/);
+        const resultTypes = resultsMatch ? this.splitParameters(resultsMatch[1]) : [type];
+        const responses: EndpointResponse[] = [];
+
+        for (const resultType of resultTypes) {
+            const statusCode = this.typedResultStatusCodes[this.getSimpleTypeName(resultType)];
+            if (statusCode !== undefined) {
+                const genericMatch = resultType.match(/<(.+)>$/);
+                this.addResponse(responses, { statusCode, type: genericMatch ? genericMatch[1].trim() : undefined });
+            }
+        }
+        return responses;
+    }
+
+    /**
+     * Attach the action's XML doc comment: summary, parameter descriptions and examples, and response descriptions.
+     * Codes only documented with <response code="..."> are added to the declared responses, as Swashbuckle does.
+     */
+    private applyDocumentation(endpoint: ApiEndpointInfo, docComment: string | undefined): ApiEndpointInfo {
+        if (!docComment) {
+            return endpoint;
+        }
+
+        const documentation = XmlDocComment.parse(docComment);
+        endpoint.summary = endpoint.summary || documentation.summary;
+        endpoint.returnsDescription = documentation.returns;
+
+        const findByName = (values: Record<string, string>, name: string) =>
+            values[name] ?? Object.entries(values).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+        for (const param of endpoint.parameters) {
+            param.description = param.description || findByName(documentation.params, param.name);
+            param.example = param.example ?? findByName(documentation.paramExamples, param.name);
+        }
+
+        // An <example> on the action is a sample request body
+        const bodyParam = endpoint.parameters.find(param => param.source === 'body');
+        if (bodyParam && bodyParam.example === undefined && documentation.example) {
+            bodyParam.example = documentation.example;
+        }
+
+        const documentedCodes = Object.keys(documentation.responses).map(code => parseInt(code, 10));
+        if (documentedCodes.length > 0) {
+            const responses = (endpoint.responses || []).map(response => ({
+                ...response,
+                description: documentation.responses[response.statusCode] || response.description
+            }));
+            for (const statusCode of documentedCodes.filter(code => !responses.some(response => response.statusCode === code))) {
+                responses.push({ statusCode, description: documentation.responses[statusCode] || undefined });
+            }
+            endpoint.responses = responses.sort((a, b) => a.statusCode - b.statusCode);
+        }
+
+        return endpoint;
+    }
+
+    private parseTypeOf(text: string): string | undefined {
+        const match = text.trim().match(/^typeof\s*\((.+)\)$/);
+        return match ? match[1].trim() : undefined;
+    }
+
+    /**
+     * 404, StatusCodes.Status404NotFound or (int)HttpStatusCode.NotFound
+     */
+    private parseStatusCode(text: string): number | undefined {
+        const trimmed = text.trim();
+        if (/^\d{3}$/.test(trimmed)) {
+            return parseInt(trimmed, 10);
+        }
+
+        const statusCodesMatch = trimmed.match(/\bStatus(\d{3})[A-Za-z]*$/);
+        if (statusCodesMatch) {
+            return parseInt(statusCodesMatch[1], 10);
+        }
+
+        const httpStatusCodeMatch = trimmed.match(/HttpStatusCode\.(\w+)$/);
+        if (httpStatusCodeMatch) {
+            return this.httpStatusCodeNames[httpStatusCodeMatch[1]];
+        }
+        return undefined;
+    }
+
+    private hasHttpMethodAttribute(attributes: CSharpAttribute[]): boolean {
+        return attributes.some(attribute => this.httpMethodAttributes.includes(attribute.name) || attribute.name === 'AcceptVerbs');
+    }
+
+    /**
+     * Route template passed as the first positional argument, e.g. [HttpGet("{id}")] or [Route("api/orders")]
+     */
+    private getAttributeTemplate(attribute: CSharpAttribute | undefined): string | undefined {
+        return attribute?.arguments.find(argument => !argument.name)?.stringValue;
+    }
+
+    private getNamedAttributeArgument(attribute: CSharpAttribute, name: string): CSharpAttributeArgument | undefined {
+        return attribute.arguments.find(argument => argument.name === name);
+    }
+
+    private async parseApiMethod(
+        document: vscode.TextDocument,
+        action: ControllerAction,
+        controllerInfo: any,
+        controllerRoutes: string[],
+        area?: string,
+        apiVersion?: string,
+        routing: { routePrefix?: string; conventionalRoutes: ConventionalRoute[] } = { conventionalRoutes: [] }
+    ): Promise<ApiEndpointInfo[]> {
+        const endpoints: ApiEndpointInfo[] = [];
+        const methodSignature = action.signature;
+        const methodName = action.member.name;
+        const returnType = action.returnType;
+
+        if (!methodName) {
+            return endpoints;
+        }
+
+        // [action] is the [ActionName] or the method name without the Async suffix
+        const actionName = this.getAttributeTemplate(action.attributes.find(attribute => attribute.name === 'ActionName')) ||
+            methodName.replace(/Async$/, '');
+        const routeValues: Record<string, string> = {
+            controller: controllerInfo.name,
+            action: actionName,
+            area: area || ''
+        };
+
+        // Every controller route × action route × verb is its own endpoint
+        let selectors = this.extractActionSelectors(action);
+        if (selectors.length === 0 && routing.conventionalRoutes.length > 0) {
+            // A conventionally routed action without verb attributes accepts any method; test it with GET
+            selectors = [{ methods: ['GET'], template: '', line: action.line, silent: true }];
+        }
+        const parameterNames = (action.member.parameters || []).map(param => param.name);
+
+        // [Consumes]/[Produces] on the action replace those of the controller
+        const actionConsumes = this.extractMediaTypes(action.attributes, 'Consumes');
+        const actionProduces = this.extractMediaTypes(action.attributes, 'Produces');
+        const consumes: string[] = actionConsumes.length > 0 ? actionConsumes : controllerInfo.consumes || [];
+        const produces: string[] = actionProduces.length > 0 ? actionProduces : controllerInfo.produces || [];
+        const authorization = this.extractAuthorization([...(controllerInfo.authorizationAttributes || []), ...action.attributes]);
+        const responses = this.buildResponses(
+            this.mergeResponses(this.extractResponseTypes(action.attributes), controllerInfo.responses || []), returnType);
+        const seen = new Set<string>();
+
+        for (const controllerRoute of controllerRoutes) {
+            for (const selector of selectors) {
+                let routes: string[];
+                if (selector.silent && routing.conventionalRoutes.length > 0) {
+                    routes = this.buildConventionalRoutes(routing.conventionalRoutes, routeValues, parameterNames);
+                } else {
+                    // A global prefix convention applies to attribute routes only, and not to absolute ones
+                    const route = this.buildActionRoute(controllerRoute, selector, routeValues);
+                    const absolute = this.isOverrideRouteTemplate(selector.template) || this.isOverrideRouteTemplate(controllerRoute);
+                    routes = [routing.routePrefix && !absolute ? this.combineRouteSegments(routing.routePrefix, route) : route];
+                }
+
+                for (const httpMethod of selector.methods) {
+                    for (const builtRoute of routes) {
+                        let route = builtRoute;
+
+                        // Substitute the API version into api/v{version:apiVersion}/... routes
+                        let apiVersionInRoute = false;
+                        if (apiVersion) {
+                            const versioned = this.applyApiVersion(route, apiVersion);
+                            route = versioned.route;
+                            apiVersionInRoute = versioned.substituted;
+                        }
+
+                        const key = `${httpMethod} ${route.toLowerCase()}`;
+                        if (seen.has(key)) {
+                            continue;
+                        }
+                        seen.add(key);
+
+                        // Parse parameters with context (per endpoint, route binding updates them)
+                        const parameters = await this.parseParameters(document, methodSignature, methodName, route);
+
+                        // Handle route parameter placeholders
+                        route = this.processRouteParameters(route, parameters);
+
+                        endpoints.push(this.applyDocumentation({
+                            method: httpMethod,
+                            route: route,
+                            parameters: parameters,
+                            returnType: returnType,
+                            line: action.inheritedFrom ? action.line : selector.line,
+                            character: 0,
+                            methodName: methodName,
+                            controllerName: controllerInfo.name,
+                            kind: 'controller',
+                            apiVersion,
+                            apiVersionInRoute,
+                            routeName: selector.name,
+                            inheritedFrom: action.inheritedFrom,
+                            authorization,
+                            consumes: consumes.length > 0 ? consumes : this.getFormMediaTypes(parameters),
+                            produces: produces.length > 0 ? produces : undefined,
+                            responses
+                        }, action.member.docComment));
+                    }
+                }
+            }
+        }
+
+        return endpoints;
+    }
+
+    /**
+     * Collect the attribute routes of an action the way ASP.NET Core builds selectors:
+     * each [HttpXxx("...")], [AcceptVerbs(..., Route = "...")] or [Route("...")] with a template (or a Name/Order)
+     * is a route of its own, while template-less [HttpXxx]/[AcceptVerbs] only add verbs to every route.
+     */
+    private extractActionSelectors(action: ControllerAction): ActionRouteSelector[] {
+        const routed: ActionRouteSelector[] = [];
+        const silentMethods: string[] = [];
+        let silentLine = action.line;
+
+        for (const attribute of action.attributes) {
+            // Attributes borrowed from an overridden base method live in another declaration
+            const line = action.member.attributes.includes(attribute) ? attribute.line : action.line;
+            let methods: string[];
+            let template: string | undefined;
+
+            if (this.httpMethodAttributes.includes(attribute.name)) {
+                methods = [attribute.name.replace('Http', '').toUpperCase()];
+                template = this.getAttributeTemplate(attribute);
+            } else if (attribute.name === 'AcceptVerbs') {
+                methods = attribute.arguments
+                    .filter(argument => !argument.name && argument.stringValue)
+                    .map(argument => argument.stringValue!.toUpperCase());
+                template = this.getNamedAttributeArgument(attribute, 'Route')?.stringValue;
+            } else if (attribute.name === 'Route') {
+                methods = [];
+                template = this.getAttributeTemplate(attribute);
+            } else {
+                continue;
+            }
+
+            const name = this.getNamedAttributeArgument(attribute, 'Name')?.stringValue;
+            const hasOrder = !!this.getNamedAttributeArgument(attribute, 'Order');
+
+            // A Name or Order makes the attribute a route of its own even without a template
+            if (template === undefined && (name !== undefined || hasOrder)) {
+                template = '';
+            }
+
+            if (template === undefined) {
+                if (silentMethods.length === 0) {
+                    silentLine = line;
+                }
+                silentMethods.push(...methods.filter(method => !silentMethods.includes(method)));
+                continue;
+            }
+
+            routed.push({ methods, template, line, name });
+        }
+
+        if (routed.length === 0) {
+            return silentMethods.length > 0 ? [{ methods: silentMethods, template: '', line: silentLine, silent: true }] : [];
+        }
+
+        // A [Route] without verbs accepts any method; fall back to the verbs declared on the action
+        const allMethods = Array.from(new Set([...routed.flatMap(selector => selector.methods), ...silentMethods]));
+        return routed
+            .map(selector => {
+                const methods = Array.from(new Set([...selector.methods, ...silentMethods]));
+                return { ...selector, methods: methods.length > 0 ? methods : allMethods };
+            })
+            .filter(selector => selector.methods.length > 0);
+    }
+
+    /**
+     * Attribute route of an action: a relative action template is appended to the controller template,
+     * one starting with "/" or "~/" replaces it. An action without attribute routes on a controller without [Route]
+     * is not attribute routed and falls back to {controller}/{action}
+     */
+    private buildActionRoute(controllerRoute: string, selector: ActionRouteSelector, routeValues: Record<string, string>): string {
+        let route: string;
+        if (this.isOverrideRouteTemplate(selector.template)) {
+            route = selector.template.replace(/^~/, '');
+        } else if (controllerRoute || !selector.silent) {
+            route = this.combineRouteSegments(controllerRoute.replace(/^~/, ''), selector.template);
         } else {
-            // Fallback: try space-based splitting (less reliable but better than nothing)
-            console.warn(`[C# API Detector]   ⚠️ Primary regex failed, attempting fallback parsing`);
-            const parts = cleanParam.trim().split(/\s+/);
-            if (parts.length >= 2) {
-                // Last part is name, everything else is type
-                const lastPart = parts[parts.length - 1];
-                const nameFromParts = lastPart.split('=')[0].trim();
+            route = '/[controller]/[action]';
+        }
+
+        // Replace [controller], [action] and [area] tokens (case-insensitive), then unescape
+        // literal brackets written as [[ and ]], e.g. regex([[a-z]])
+        route = route.replace(/(?<!\[)\[(controller|action|area)\](?!\])/gi, (_, token: string) => routeValues[token.toLowerCase()].toLowerCase());
+        return route.replace(/\[\[/g, '[').replace(/\]\]/g, ']').replace(/\/{2,}/g, '/');
+    }
+
+    /**
+     * Templates starting with "/" or "~/" are absolute: they ignore the controller route and global route prefixes
+     */
+    private isOverrideRouteTemplate(template: string): boolean {
+        return template.startsWith('/') || template.startsWith('~/');
+    }
+
+    /**
+     * Routes of a conventionally routed action: each MapControllerRoute pattern the controller, action and area
+     * values satisfy, with those values filled in and optional parameters the action does not bind dropped
+     * @param parameterNames Names of the action method's parameters
+     */
+    private buildConventionalRoutes(conventionalRoutes: ConventionalRoute[], routeValues: Record<string, string>, parameterNames: string[]): string[] {
+        const routes: string[] = [];
+        const lowerParameterNames = parameterNames.map(name => name.toLowerCase());
+
+        for (const conventionalRoute of conventionalRoutes) {
+            const template = RouteTemplate.parse(conventionalRoute.pattern);
+            const values: Record<string, string> = { ...routeValues };
+            if (conventionalRoute.areaName !== undefined && values.area.toLowerCase() !== conventionalRoute.areaName.toLowerCase()) {
+                continue;
+            }
+
+            // Route values missing from the pattern must match its defaults; a non-area route cannot reach an area controller
+            const matches = ['controller', 'action', 'area'].every(key => {
+                if (template.getParameter(key)) {
+                    return key !== 'area' || !!values.area;
+                }
+                const fixedValue = key === 'area' ? conventionalRoute.areaName : conventionalRoute.defaults[key];
+                return (fixedValue || '').toLowerCase() === (values[key] || '').toLowerCase();
+            });
+            if (!matches) {
+                continue;
+            }
+
+            for (const segment of template.segments) {
+                segment.parts = segment.parts.flatMap<RouteTemplatePart>(part => {
+                    if (part.kind !== 'parameter') {
+                        return [part];
+                    }
+                    const name = part.parameter.name.toLowerCase();
+                    if (name in values) {
+                        return [{ kind: 'literal', text: values[name].toLowerCase() }];
+                    }
+                    if ((part.parameter.optional || part.parameter.defaultValue !== undefined) && !lowerParameterNames.includes(name)) {
+                        return [];
+                    }
+                    return [part];
+                });
+            }
+
+            template.segments.splice(0, template.segments.length, ...template.segments.filter(segment => segment.parts.length > 0));
+            const route = `/${template.toString()}`;
+            if (!routes.includes(route)) {
+                routes.push(route);
+            }
+        }
+
+        return routes;
+    }
+
+    private extractMethodDetails(methodSignature: string): { returnType: string; methodName: string } | null {
+        if (!methodSignature) {
+            return null;
+        }
+
+        const signatureBeforeParen = methodSignature.split('(')[0];
+        const trimmedSignature = signatureBeforeParen.trim();
+
+        if (!trimmedSignature) {
+            return null;
+        }
+
+        const methodNameMatch = trimmedSignature.match(/(\w+)(?:<[^<>]*>)?\s*$/);
+        if (!methodNameMatch) {
+            return null;
+        }
+
+        const methodNameWithGenerics = methodNameMatch[0].trim();
+        const methodName = methodNameMatch[1];
+
+        let returnType = trimmedSignature.substring(0, trimmedSignature.length - methodNameWithGenerics.length).trim();
+
+        const modifierPattern = /^(?:public|private|protected|internal|static|virtual|override|abstract|partial|async|sealed|unsafe|extern|new)\s+/i;
+        while (modifierPattern.test(returnType)) {
+            returnType = returnType.replace(modifierPattern, '').trimStart();
+        }
+
+        if (!returnType) {
+            returnType = 'unknown';
+        }
+
+        return {
+            returnType,
+            methodName
+        };
+    }
+
+    private async parseParameters(document: vscode.TextDocument, methodSignature: string, methodName?: string, route?: string): Promise<ApiParameter[]> {
+        const parameters: ApiParameter[] = [];
+
+        console.log(`[C# API Detector] 🎯 Parsing parameters for method: ${methodName || 'unknown'}, route: ${route || 'unknown'}`);
+        console.log(`[C# API Detector] 📝 Method signature: ${methodSignature}`);
+
+        // Extract parameter list with balanced parentheses awareness
+        const paramString = this.extractParameterList(methodSignature);
+        if (paramString === null) {
+            console.log(`[C# API Detector] ⚠️ No parameters found in method signature`);
+            return parameters;
+        }
+
+        const paramList = await this.expandBoundParameters(document, this.splitParameters(paramString));
+
+        console.log(`[C# API Detector] 📋 Found ${paramList.length} parameters: [${paramList.map(p => p.text).join(', ')}]`);
+
+        for (let i = 0; i < paramList.length; i++) {
+            const param = paramList[i].text;
+            console.log(`[C# API Detector] 🔄 Processing parameter ${i + 1}/${paramList.length}: "${param.trim()}"`);
+            const paramInfo = await this.parseSingleParameter(document, param.trim(), methodName, route);
+            if (paramInfo) {
+                this.applyBoundMemberRequired(paramInfo, paramList[i]);
+                parameters.push(paramInfo);
+                console.log(`[C# API Detector]   ✅ Added parameter: ${paramInfo.name} (${paramInfo.type})`);
+            } else {
+                console.log(`[C# API Detector]   ❌ Failed to parse parameter: "${param.trim()}"`);
+            }
+        }
+
+        console.log(`[C# API Detector] ✅ Completed parsing ${parameters.length} parameters for ${methodName}`);
+        return parameters;
+    }
+
+    private extractParameterList(methodSignature: string): string | null {
+        const startIndex = methodSignature.indexOf('(');
+        if (startIndex === -1) {
+            return null;
+        }
+
+        let depth = 0;
+        let quoteChar: '"' | '\'' | undefined;
+        let verbatimString = false;
+
+        for (let i = startIndex; i < methodSignature.length; i++) {
+            const char = methodSignature[i];
+            const prevChar = i > 0 ? methodSignature[i - 1] : '';
+
+            if (quoteChar) {
+                if (quoteChar === '"' && verbatimString) {
+                    if (char === '"' && methodSignature[i + 1] === '"') {
+                        i++; // Skip escaped quote in verbatim string
+                        continue;
+                    }
+                    if (char === '"') {
+                        quoteChar = undefined;
+                        verbatimString = false;
+                    }
+                    continue;
+                }
+
+                if (char === quoteChar && prevChar !== '\\') {
+                    quoteChar = undefined;
+                    continue;
+                }
+                continue;
+            } else {
+                if (char === '"' || char === '\'') {
+                    quoteChar = char;
+                    if (char === '"') {
+                        verbatimString = false;
+                        for (let j = i - 1; j >= 0 && (methodSignature[j] === '@' || methodSignature[j] === '$'); j--) {
+                            if (methodSignature[j] === '@') {
+                                verbatimString = true;
+                                break;
+                            }
+                        }
+                    }
+                    continue;
+                }
+            }
+
+            if (char === '(') {
+                depth++;
+            } else if (char === ')') {
+                depth--;
+                if (depth === 0) {
+                    return methodSignature.substring(startIndex + 1, i);
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private splitParameters(paramString: string): string[] {
+        // Enhanced parameter splitting that handles nested generics, brackets, and parentheses
+        const parameters: string[] = [];
+        let current = '';
+        let angleDepth = 0;    // For <>
+        let squareDepth = 0;   // For []
+        let parenDepth = 0;    // For ()
+
+        for (let i = 0; i < paramString.length; i++) {
+            const char = paramString[i];
+            const nextChar = i + 1 < paramString.length ? paramString[i + 1] : '';
+
+            // Track nested structures
+            if (char === '<') {
+                angleDepth++;
+            } else if (char === '>') {
+                angleDepth--;
+            } else if (char === '[') {
+                squareDepth++;
+            } else if (char === ']') {
+                squareDepth--;
+            } else if (char === '(') {
+                parenDepth++;
+            } else if (char === ')') {
+                parenDepth--;
+            }
+
+            // Split only at top level (no nested structures)
+            if (char === ',' && angleDepth === 0 && squareDepth === 0 && parenDepth === 0) {
+                const trimmed = current.trim();
+                if (trimmed) {
+                    parameters.push(trimmed);
+                }
+                current = '';
+                continue;
+            }
+
+            current += char;
+        }
+
+        // Add the last parameter if exists
+        const lastParam = current.trim();
+        if (lastParam) {
+            parameters.push(lastParam);
+        }
+
+        return parameters;
+    }
+
+    private async parseSingleParameter(document: vscode.TextDocument, param: string, methodName?: string, route?: string): Promise<ApiParameter | null> {
+        console.log(`[C# API Detector] 🔍 Parsing parameter: "${param}" (method: ${methodName || 'unknown'}, route: ${route || 'unknown'})`);
+
+        // Parse parameter with potential attributes
+        let type = '';
+        let name = '';
+        let source: 'path' | 'query' | 'body' | 'header' | 'form' = 'query';
+        let required = false;
+
+        // Step 1: Detect parameter source from explicit From* attributes with enhanced pattern matching
+        // Support various formats: [FromBody], [FromBody()], [FromBody(...)], etc.
+        if (/\[FromRoute\b[^\]]*\]/i.test(param)) {
+            source = 'path';
+            required = true;
+            console.log(`[C# API Detector]   ✓ Detected FromRoute attribute`);
+        } else if (/\[FromBody\b[^\]]*\]/i.test(param)) {
+            source = 'body';
+            required = true;
+            console.log(`[C# API Detector]   ✓ Detected FromBody attribute`);
+        } else if (/\[FromQuery\b[^\]]*\]/i.test(param)) {
+            source = 'query';
+            console.log(`[C# API Detector]   ✓ Detected FromQuery attribute`);
+        } else if (/\[FromHeader\b[^\]]*\]/i.test(param)) {
+            source = 'header';
+            console.log(`[C# API Detector]   ✓ Detected FromHeader attribute`);
+        } else if (/\[FromForm\b[^\]]*\]/i.test(param)) {
+            source = 'form';
+            console.log(`[C# API Detector]   ✓ Detected FromForm attribute`);
+        } else if (/\[From(Keyed)?Services\b[^\]]*\]/i.test(param)) {
+            // Services are resolved from DI and are not part of API calls
+            console.log(`[C# API Detector]   ⏭️ FromServices/FromKeyedServices detected - skipping`);
+            return null;
+        }
+
+        // Step 2: Extract parameter name from Name attribute if present
+        // Support patterns: [FromQuery(Name = "id")], [FromQuery("id")], [FromQuery], [BindNever]
+        const nameAttributeMatch = param.match(/Name\s*=\s*"([^"]+)"/i) || param.match(/Name\s*=\s*'([^']+)'/i);
+        if (nameAttributeMatch) {
+            name = nameAttributeMatch[1];
+            console.log(`[C# API Detector]   ✓ Found Name attribute: "${name}"`);
+        }
+
+        // Step 3: Remove all C# attributes to simplify parsing
+        // Remove patterns like [FromQuery(...)], [FromBody], [Required], [BindNever], etc.
+        let cleanParam = param.replace(/\[[^\[\]]+\]/g, '').trim();
+        console.log(`[C# API Detector]   📝 Cleaned parameter: "${cleanParam}"`);
+
+        // Step 4: Enhanced type and variable name extraction
+        // Supports: "Type name", "Type? name", "List<Type> name", "Type[] name"
+        // Also supports: "ref Type name", "out Type name", "params Type[] name"
+        // Remove modifiers first
+        cleanParam = cleanParam.replace(/\b(ref|out|in)\b\s+/i, '').trim();
+        const isParams = /\bparams\b/i.test(param);
+
+        if (isParams) {
+            console.log(`[C# API Detector]   ✓ Detected params parameter`);
+        }
+
+        // Match type and variable name with improved regex
+        // Handles: TypeName, Type.Name, List<Type>, Type[], Dictionary<K,V>
+        const typeAndNameMatch = cleanParam.match(/^([\w<>?,\.\[\]\s]+?)\s+(\w+)(?:\s*=|\s*$)/);
+
+        if (typeAndNameMatch) {
+            type = typeAndNameMatch[1].trim();
+            const variableName = typeAndNameMatch[2].trim();
+
+            // If name wasn't extracted from Name attribute, use variable name
+            if (!name) {
+                name = variableName;
+            }
+
+            console.log(`[C# API Detector]   ✓ Extracted Type: "${type}", Variable: "${variableName}"`);
+        } else {
+            // Fallback: try space-based splitting (less reliable but better than nothing)
+            console.warn(`[C# API Detector]   ⚠️ Primary regex failed, attempting fallback parsing`);
+            const parts = cleanParam.trim().split(/\s+/);
+            if (parts.length >= 2) {
+                // Last part is name, everything else is type
+                const lastPart = parts[parts.length - 1];
+                const nameFromParts = lastPart.split('=')[0].trim();
+
+                if (!name) {
+                    name = nameFromParts;
+                }
+
+                type = parts.slice(0, parts.length - 1).join(' ').trim();
+                console.log(`[C# API Detector]   ⚠️ Fallback - Type: "${type}", Name: "${name}"`);
+            } else {
+                console.error(`[C# API Detector]   ❌ Failed to parse parameter: "${param}"`);
+                return null;
+            }
+        }
+
+        if (this.isFrameworkInjectedType(type)) {
+            console.log(`[C# API Detector]   ⏭️ Skipping framework-injected parameter: ${name} (${type})`);
+            return null;
+        }
+
+        // Step 5: Check if type is nullable (for determining required field)
+        const isNullable = type.includes('?');
+
+        // Step 6: Smart source inference if not explicitly specified
+        if (!/\[From\w+/i.test(param)) {
+            const inferredSource = this.inferParameterSource(type, name, param);
+            source = inferredSource.source;
+            required = inferredSource.required;
+            console.log(`[C# API Detector]   🔄 Inferred source: ${source} (reason: ${inferredSource.reason})`);
+        } else if (source === 'query') {
+            // For query parameters, nullability and default values (including expanded member initializers) determine required;
+            // attribute arguments such as [FromQuery(Name = "q")] are not default values
+            const hasDefaultValue = /=\s*[^=]+/.test(param.replace(/\[[^\[\]]+\]/g, ''));
+            const hasRequiredAttribute = /[\[,]\s*(Required|BindRequired)\b/.test(param);
+            required = hasRequiredAttribute || (!isNullable && !hasDefaultValue);
+        } else if (source === 'body' || source === 'path') {
+            // Body and path parameters are typically required
+            required = true;
+        }
+
+        const apiParam: ApiParameter = {
+            name: name,
+            type: type,
+            source: source,
+            required: required
+        };
+
+        // Resolved complex route and [AsParameters] types were already replaced by their members
+        if ((source === 'path' || /\[AsParameters[\(\)\s]*\]/i.test(param)) && this.isComplexQueryType(type)) {
+            apiParam.unresolvedMembers = true;
+        }
+
+        console.log(`[C# API Detector]   ✅ Final Result: name="${name}", type="${type}", source="${source}", required=${required}`);
+
+        // ⚡ OPTIMIZATION: Do NOT parse class definitions here!
+        // Parsing will be done lazily in ApiTestPanel when user clicks "Test API"
+        // This dramatically improves CodeLens performance
+
+        return apiParam;
+    }
+
+    /**
+     * Intelligently infer parameter source based on type and parameter name
+     * when explicit [From*] attributes are not present
+     */
+    private inferParameterSource(type: string, paramName: string, fullParamText: string): { source: 'path' | 'query' | 'body' | 'header' | 'form', required: boolean, reason: string } {
+        const cleanType = type.replace(/\?/g, '').replace(/\[\]/g, '').trim();
+        const lowerName = paramName.toLowerCase();
+        const lowerType = cleanType.toLowerCase();
+
+        // Check for file upload types
+        if (this.isFileType(cleanType)) {
+            return {
+                source: 'form',
+                required: true,
+                reason: 'File type detected (IFormFile)'
+            };
+        }
+
+        // Path parameter detection based on parameter name
+        if (lowerName === 'id' ||
+            lowerName.endsWith('id') ||
+            lowerName.includes('identifier') ||
+            lowerName.includes('key') ||
+            lowerName.includes('code') ||
+            lowerName === 'slug') {
+            return {
+                source: 'path',
+                required: true,
+                reason: `Parameter name suggests path parameter (${paramName})`
+            };
+        }
+
+        // Form parameter detection
+        if (lowerType.includes('iformdata') || lowerType.includes('form')) {
+            return {
+                source: 'form',
+                required: true,
+                reason: 'Form data type detected'
+            };
+        }
+
+        // Header parameter detection
+        if (lowerName.includes('header') ||
+            lowerName.includes('authorization') ||
+            lowerName.includes('token')) {
+            return {
+                source: 'header',
+                required: false,
+                reason: 'Parameter name suggests header parameter'
+            };
+        }
+
+        // Query parameter detection for simple types
+        const isSimple = this.isSimpleType(cleanType);
+        const isNullable = type.includes('?');
+        const hasDefaultValue = /=\s*[^=]+/.test(fullParamText);
+
+        if (isSimple) {
+            // Simple types without ID-like names are typically query parameters
+            const reason = isNullable || hasDefaultValue
+                ? 'Simple nullable type with default value → query parameter'
+                : 'Simple type → query parameter';
+
+            return {
+                source: 'query',
+                required: !isNullable && !hasDefaultValue,
+                reason: reason
+            };
+        }
+
+        // Check if this might be an enum type - enums should be treated as simple types
+        // We'll use a heuristic based on common enum naming patterns
+        const isLikelyEnum = this.isLikelyEnumType(cleanType, paramName);
+
+        if (isLikelyEnum) {
+            console.log(`[ApiEndpointDetector] Detected likely enum type: ${cleanType}`);
+            return {
+                source: 'query',
+                required: !isNullable && !hasDefaultValue,
+                reason: 'Enum type → query parameter (treated as string)'
+            };
+        }
+
+        // Complex types (DTOs, models) are typically body parameters
+        return {
+            source: 'body',
+            required: true,
+            reason: 'Complex type → body parameter'
+        };
+    }
+
+    /**
+     * Check if a type represents file upload
+     */
+    private isFileType(type: string): boolean {
+        const fileTypes = [
+            'iformfile',
+            'iformfilecollection',
+            'stream',
+            'byte[]'
+        ];
+
+        const cleanType = type.toLowerCase().replace(/\?/g, '').replace(/\[\]/g, '');
+        return fileTypes.some(ft => cleanType.includes(ft));
+    }
+
+    private isSimpleType(type: string): boolean {
+        // Remove nullable suffix, array notation, and trim whitespace
+        const cleanType = type.replace(/\?/g, '').replace(/\[\]/g, '').trim().toLowerCase();
+
+        // More comprehensive list of C# simple types
+        const simpleTypes = [
+            // Numeric types
+            'byte', 'sbyte',
+            'short', 'ushort',
+            'int', 'int32', 'uint', 'uint32',
+            'long', 'ulong',
+            'float', 'double', 'decimal',
+            // Other built-in types
+            'bool', 'boolean',
+            'char',
+            'string',
+            'object',
+            'DateTime', 'DateTimeOffset', 'DateOnly', 'TimeOnly', 'TimeSpan',
+            'Guid',
+            'enum'
+        ];
+
+        // Check exact match
+        if (simpleTypes.includes(cleanType)) {
+            return true;
+        }
+
+        // Check if it's a nullable value type (e.g., int?, bool?, decimal?)
+        if (cleanType.includes('?')) {
+            const underlyingType = cleanType.replace('?', '');
+            return simpleTypes.includes(underlyingType);
+        }
+
+        // Check for numeric types with precision (SQL types)
+        if (/^(int|bigint|smallint|tinyint|money|smallmoney|numeric|real)\b/i.test(cleanType)) {
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Normalize route parameter placeholders against the method parameters.
+     * Constraints ({id:int:min(1)}) move to ApiParameter.constraint; optional/default/catch-all markers stay in the route.
+     */
+    private processRouteParameters(route: string, parameters: ApiParameter[]): string {
+        const template = RouteTemplate.parse(route);
+
+        for (const routeParameter of template.parameters) {
+            const param = parameters.find(p => p.name.toLowerCase() === routeParameter.name.toLowerCase() &&
+                (p.source === 'path' || p.source === 'query'));
+            if (!param) {
+                continue;
+            }
+
+            // Simple values named in the template are bound from the route, whatever the name looks like
+            if (param.source === 'query') {
+                param.source = 'path';
+                param.required = true;
+            }
+
+            // Use the actual parameter name so placeholders can be filled later
+            routeParameter.name = param.name;
+
+            if (routeParameter.constraints.length > 0) {
+                param.constraint = routeParameter.constraints.map(constraint => constraint.text).join(':');
+                routeParameter.constraints = [];
+            }
+
+            if (routeParameter.optional) {
+                param.required = false;
+            }
+        }
+
+        return template.toString();
+    }
+
+    /**
+     * Check if a type is likely an enum based on naming patterns
+     * @param type The type name to check
+     * @param paramName The parameter name (for additional context)
+     * @returns true if the type is likely an enum
+     */
+    private isLikelyEnumType(type: string, paramName: string): boolean {
+        const lowerType = type.toLowerCase();
+        const lowerParam = paramName.toLowerCase();
+
+        // Common enum suffixes
+        const enumSuffixes = [
+            'enum',
+            'type',
+            'status',
+            'state',
+            'mode',
+            'level',
+            'category',
+            'style',
+            'kind',
+            'sort',
+            'order',
+            'direction',
+            'priority',
+            'severity'
+        ];
+
+        // Check if type name ends with common enum suffixes
+        for (const suffix of enumSuffixes) {
+            if (lowerType.endsWith(suffix)) {
+                console.log(`[ApiEndpointDetector] Type ${type} ends with ${suffix} - likely enum`);
+                return true;
+            }
+        }
+
+        // Check for common enum parameter names
+        const enumParamNames = [
+            'status',
+            'type',
+            'state',
+            'mode',
+            'sort',
+            'order',
+            'direction',
+            'level',
+            'priority',
+            'category',
+            'style'
+        ];
+
+        for (const enumParam of enumParamNames) {
+            if (lowerParam.includes(enumParam)) {
+                console.log(`[ApiEndpointDetector] Parameter name ${paramName} suggests enum type`);
+                return true;
+            }
+        }
+
+        // Check for PascalCase enum patterns (e.g., UserStatus, OrderType, PaymentMode)
+        if (/^[A-Z][a-zA-Z0-9]*(Status|Type|State|Mode|Level|Category|Style|Kind|Sort|Order|Direction|Priority|Severity)$/.test(type)) {
+            console.log(`[ApiEndpointDetector] Type ${type} matches PascalCase enum pattern`);
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Detect ASP.NET Core Minimal API endpoints (MapGet/MapPost/MapPut/MapDelete/MapPatch/MapMethods).
+     * Prefixes from MapGroup chains - inline or stored in a variable - are applied to the route.
+     */
+    private async detectMinimalApiEndpoints(document: vscode.TextDocument, tree: CSharpSyntaxTree, lines: string[]): Promise<ApiEndpointInfo[]> {
+        const endpoints: ApiEndpointInfo[] = [];
+        const tokens = tree.tokens;
+
+        if (!tokens.some(token => token.kind === 'identifier' && this.isMinimalApiMapMethod(token.text))) {
+            return endpoints;
+        }
+
+        const groups = this.collectMinimalApiGroups(tokens);
+
+        for (let i = 1; i < tokens.length - 1; i++) {
+            const mapMethod = tokens[i].text;
+            if (tokens[i].kind !== 'identifier' || !this.isMinimalApiMapMethod(mapMethod) ||
+                tokens[i - 1].text !== '.' || tokens[i + 1].text !== '(') {
+                continue;
+            }
+
+            const closeParenIndex = this.syntaxParser.findMatchingToken(tokens, i + 1);
+            const args = this.syntaxParser.splitTokenList(tokens, i + 2, closeParenIndex);
+            const routeToken = args.length > 0 && args[0][0] === args[0][1] ? tokens[args[0][0]] : undefined;
+            if (!routeToken || routeToken.kind !== 'string') {
+                console.log(`[C# API Detector] ⚠️ Skipping ${mapMethod} at line ${tokens[i].line + 1}: route is not a string literal`);
+                continue;
+            }
+
+            const httpMethods = mapMethod === 'MapMethods'
+                ? this.parseHttpMethodList(tokens, args[1])
+                : [this.minimalApiMapMethods[mapMethod]];
+            const handlerRange = mapMethod === 'MapMethods' ? args[2] : args[1];
+            if (httpMethods.length === 0 || !handlerRange) {
+                continue;
+            }
+
+            const group = this.evaluateGroupChain(tokens, this.findReceiverChainStart(tokens, i - 1), i - 2, groups);
+            const trailingChainEnd = this.findTrailingChainEnd(tokens, closeParenIndex + 1);
+            const endpointName = this.findChainCallArgument(tokens, closeParenIndex + 1, trailingChainEnd, 'WithName');
+            const summary = this.findChainCallArgument(tokens, closeParenIndex + 1, trailingChainEnd, 'WithSummary');
+            const tag = this.findChainCallArgument(tokens, closeParenIndex + 1, trailingChainEnd, 'WithTags') || group.tag;
+            const consumes = this.findChainCallStrings(tokens, closeParenIndex + 1, trailingChainEnd, 'Accepts');
+            const produces = this.findChainCallStrings(tokens, closeParenIndex + 1, trailingChainEnd, 'Produces');
+            const endpointAuthorization = this.collectChainAuthorization(tokens, closeParenIndex + 1, trailingChainEnd);
+            const authorization = group.allowAnonymous || endpointAuthorization.allowAnonymous
+                ? undefined
+                : this.mergeAuthorization(group.authorization, endpointAuthorization.authorization);
+
+            const route = this.combineRouteSegments(group.prefix, routeToken.value || '');
+            const handlerInfo = this.resolveMinimalApiHandler(tree, handlerRange[0], handlerRange[1], lines);
+            const responses = this.buildResponses(
+                this.collectChainResponses(tokens, closeParenIndex + 1, trailingChainEnd), handlerInfo.returnType);
+            console.log(`[C# API Detector] Found minimal API ${mapMethod} '${route}' (handler: ${handlerInfo.methodName || 'lambda'})`);
+
+            for (const httpMethod of httpMethods) {
+                const parameters = await this.parseMinimalApiParameters(document, handlerInfo.signature, handlerInfo.methodName, route, httpMethod);
+
+                endpoints.push(this.applyDocumentation({
+                    method: httpMethod,
+                    route: this.processRouteParameters(route, parameters),
+                    parameters: parameters,
+                    returnType: handlerInfo.returnType,
+                    line: tokens[i].line,
+                    character: tokens[i].character,
+                    methodName: endpointName || handlerInfo.methodName || mapMethod,
+                    controllerName: tag,
+                    kind: 'minimalApi',
+                    authorization,
+                    consumes: consumes.length > 0 ? consumes : this.getFormMediaTypes(parameters),
+                    produces: produces.length > 0 ? produces : undefined,
+                    responses,
+                    summary
+                }, handlerInfo.docComment));
+            }
+        }
+
+        return endpoints;
+    }
+
+    private isMinimalApiMapMethod(name: string): boolean {
+        return name === 'MapMethods' || Object.prototype.hasOwnProperty.call(this.minimalApiMapMethods, name);
+    }
+
+    /**
+     * Collect route groups stored in variables, e.g. `var orders = api.MapGroup("/orders");`
+     */
+    private collectMinimalApiGroups(tokens: CSharpToken[]): Map<string, MinimalApiGroup> {
+        const groups = new Map<string, MinimalApiGroup>();
+
+        for (let i = 1; i < tokens.length - 1; i++) {
+            if (tokens[i].kind !== 'punctuation' || tokens[i].text !== '=' || tokens[i - 1].kind !== 'identifier') {
+                continue;
+            }
+
+            // Find the end of the assigned expression
+            let end = i + 1;
+            while (end < tokens.length && tokens[end].text !== ';') {
+                if (tokens[end].kind === 'punctuation' && ['(', '[', '{'].includes(tokens[end].text)) {
+                    end = this.syntaxParser.findMatchingToken(tokens, end);
+                }
+                end++;
+            }
+
+            // Only a plain member-access chain counts: api.MapGroup("/orders").WithTags("Orders")
+            const chainStart = this.findReceiverChainStart(tokens, end);
+            if (chainStart !== i + 1 || !tokens.slice(chainStart, end).some(token => token.text === 'MapGroup')) {
+                continue;
+            }
+
+            const group = this.evaluateGroupChain(tokens, chainStart, end - 1, groups);
+            groups.set(tokens[i - 1].text, group);
+            console.log(`[C# API Detector] Found route group '${tokens[i - 1].text}' with prefix '${group.prefix}'`);
+        }
+
+        return groups;
+    }
+
+    /**
+     * Evaluate a receiver chain such as `api.MapGroup("/orders").WithTags("Orders")` into a group prefix and tag
+     */
+    private evaluateGroupChain(tokens: CSharpToken[], start: number, end: number, groups: Map<string, MinimalApiGroup>): MinimalApiGroup {
+        const result: MinimalApiGroup = { prefix: '' };
+        if (start > end) {
+            return result;
+        }
+
+        const rootGroup = groups.get(tokens[start].text);
+        if (rootGroup) {
+            result.prefix = rootGroup.prefix;
+            result.tag = rootGroup.tag;
+            result.authorization = rootGroup.authorization;
+            result.allowAnonymous = rootGroup.allowAnonymous;
+        }
+
+        // group.RequireAuthorization() / group.AllowAnonymous() apply to every endpoint of the group
+        const chainAuthorization = this.collectChainAuthorization(tokens, start + 1, end + 1);
+        result.allowAnonymous = result.allowAnonymous || chainAuthorization.allowAnonymous;
+        result.authorization = this.mergeAuthorization(result.authorization, chainAuthorization.authorization);
+
+        for (let j = start + 1; j <= end; j++) {
+            const name = tokens[j].text;
+            if ((name !== 'MapGroup' && name !== 'WithTags') || tokens[j - 1].text !== '.' ||
+                tokens[j + 1]?.text !== '(' || tokens[j + 2]?.kind !== 'string') {
+                continue;
+            }
+
+            const value = tokens[j + 2].value || '';
+            if (name === 'MapGroup') {
+                result.prefix = this.combineRouteSegments(result.prefix, value);
+            } else {
+                result.tag = value;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Walk backwards from the token before index over a member-access chain (`app.MapGroup("/api").`)
+     * @returns Index of the first token of the chain, or index itself when there is no receiver
+     */
+    private findReceiverChainStart(tokens: CSharpToken[], index: number): number {
+        let start = index;
+        let i = index - 1;
+
+        while (i >= 0) {
+            // Skip a call's argument list: MapGroup("/orders")
+            if (tokens[i].text === ')') {
+                i = this.syntaxParser.findMatchingOpenToken(tokens, i) - 1;
+            }
+            if (i < 0 || tokens[i].kind !== 'identifier') {
+                break;
+            }
+
+            start = i;
+            if (i > 0 && tokens[i - 1].text === '.') {
+                i -= 2;
+                continue;
+            }
+            break;
+        }
+
+        return start;
+    }
+
+    /**
+     * Find the end (exclusive) of fluent calls following an endpoint mapping, e.g. `.WithName("GetOrder").WithTags("Orders")`
+     */
+    private findTrailingChainEnd(tokens: CSharpToken[], index: number): number {
+        let end = index;
+
+        while (tokens[end]?.text === '.' && tokens[end + 1]?.kind === 'identifier') {
+            let i = end + 2;
+            if (tokens[i]?.text === '<') {
+                while (i < tokens.length && tokens[i].text !== '>') i++;
+                i++;
+            }
+            if (tokens[i]?.text !== '(') {
+                break;
+            }
+            end = this.syntaxParser.findMatchingToken(tokens, i) + 1;
+        }
+
+        return end;
+    }
+
+    private findChainCallArgument(tokens: CSharpToken[], start: number, end: number, methodName: string): string | undefined {
+        for (let j = start; j < end; j++) {
+            if (tokens[j].text === methodName && tokens[j - 1]?.text === '.' &&
+                tokens[j + 1]?.text === '(' && tokens[j + 2]?.kind === 'string') {
+                return tokens[j + 2].value;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Authorization from `.RequireAuthorization()`, `.RequireAuthorization("Policy")`,
+     * `.RequireAuthorization(new AuthorizeAttribute { Roles = "Admin" })`, `.RequireAuthorization(p => p.RequireRole("Admin"))`
+     * and `.AllowAnonymous()` calls in [start, end)
+     */
+    private collectChainAuthorization(tokens: CSharpToken[], start: number, end: number): { authorization?: EndpointAuthorization; allowAnonymous: boolean } {
+        let authorization: EndpointAuthorization | undefined;
+        let allowAnonymous = false;
+
+        for (let j = start; j < end; j++) {
+            if (tokens[j - 1]?.text !== '.' || tokens[j + 1]?.text !== '(') {
+                continue;
+            }
+
+            if (tokens[j].text === 'AllowAnonymous') {
+                allowAnonymous = true;
+            } else if (tokens[j].text === 'RequireAuthorization') {
+                authorization = authorization || { policies: [], roles: [], authenticationSchemes: [] };
+                const closeParen = this.syntaxParser.findMatchingToken(tokens, j + 1);
+
+                for (let k = j + 2; k < closeParen; k++) {
+                    if (tokens[k].kind !== 'string' || !tokens[k].value) {
+                        continue;
+                    }
+                    // Roles = "A,B" / Policy = "X" initializers, RequireRole("A") builders, otherwise a policy name
+                    const property = tokens[k - 1].text === '=' ? tokens[k - 2]?.text : this.findEnclosingCallName(tokens, k, j + 1);
+                    if (property === 'Roles' || property === 'RequireRole') {
+                        this.addAuthorizationValues(authorization.roles, this.splitAuthorizationList(tokens[k].value));
+                    } else if (property === 'AuthenticationSchemes' || property === 'AddAuthenticationSchemes') {
+                        this.addAuthorizationValues(authorization.authenticationSchemes, this.splitAuthorizationList(tokens[k].value));
+                    } else if (property === 'RequireAuthorization' || property === 'AuthorizeAttribute' || property === 'Policy') {
+                        this.addAuthorizationValues(authorization.policies, [tokens[k].value!]);
+                    }
+                }
+                j = closeParen;
+            }
+        }
+
+        return { authorization, allowAnonymous };
+    }
+
+    /**
+     * Name of the call whose argument list contains the token, e.g. RequireRole for `RequireRole("Admin")`
+     */
+    private findEnclosingCallName(tokens: CSharpToken[], index: number, stopIndex: number): string | undefined {
+        let depth = 0;
+        for (let k = index - 1; k >= stopIndex; k--) {
+            if (tokens[k].text === ')') {
+                depth++;
+            } else if (tokens[k].text === '(') {
+                if (depth === 0) {
+                    return tokens[k - 1]?.text;
+                }
+                depth--;
+            }
+        }
+        return undefined;
+    }
+
+    private mergeAuthorization(first: EndpointAuthorization | undefined, second: EndpointAuthorization | undefined): EndpointAuthorization | undefined {
+        if (!first || !second) {
+            return first || second;
+        }
+        const merged: EndpointAuthorization = {
+            policies: [...first.policies],
+            roles: [...first.roles],
+            authenticationSchemes: [...first.authenticationSchemes]
+        };
+        this.addAuthorizationValues(merged.policies, second.policies);
+        this.addAuthorizationValues(merged.roles, second.roles);
+        this.addAuthorizationValues(merged.authenticationSchemes, second.authenticationSchemes);
+        return merged;
+    }
+
+    /**
+     * String arguments of every `.Name(...)` / `.Name<T>(...)` call in the chain, e.g. `.Accepts<Order>("application/xml")`
+     * or `.Produces<Order>(200, "text/csv")`
+     */
+    private findChainCallStrings(tokens: CSharpToken[], start: number, end: number, methodName: string): string[] {
+        const values: string[] = [];
+
+        for (let j = start; j < end; j++) {
+            if (tokens[j].text !== methodName || tokens[j - 1]?.text !== '.') {
+                continue;
+            }
+
+            // Skip generic arguments
+            let openParen = j + 1;
+            if (tokens[openParen]?.text === '<') {
+                let depth = 0;
+                for (; openParen < end; openParen++) {
+                    depth += tokens[openParen].text === '<' ? 1 : tokens[openParen].text === '>' ? -1 : 0;
+                    if (depth === 0) {
+                        break;
+                    }
+                }
+                openParen++;
+            }
+            if (tokens[openParen]?.text !== '(') {
+                continue;
+            }
+
+            const closeParen = this.syntaxParser.findMatchingToken(tokens, openParen);
+            for (const [first, last] of this.syntaxParser.splitTokenList(tokens, openParen + 1, closeParen)) {
+                const value = tokens[first].kind === 'string' && first === last ? tokens[first].value : undefined;
+                if (value && !values.includes(value)) {
+                    values.push(value);
+                }
+            }
+        }
+
+        return values;
+    }
+
+    /**
+     * Resolve a Minimal API handler into a parameter signature.
+     * Supports lambdas (`async (int id, [FromBody] Order order) => ...`) and method groups (`OrderHandlers.GetOrder`).
+     */
+    private resolveMinimalApiHandler(tree: CSharpSyntaxTree, first: number, last: number, lines: string[]): { signature: string; methodName?: string; returnType: string; docComment?: string } {
+        const tokens = tree.tokens;
+        let i = first;
+
+        // Skip attributes and modifiers in front of a lambda: [Authorize] static async (...) =>
+        while (i <= last) {
+            if (tokens[i].text === '[') {
+                i = this.syntaxParser.findMatchingToken(tokens, i) + 1;
+            } else if (tokens[i].text === 'static' || tokens[i].text === 'async') {
+                i++;
+            } else {
+                break;
+            }
+        }
+
+        // Explicit lambda return type: async Task<Results<Ok<Order>, NotFound>> (int id) => ...
+        let returnTypeEnd = i;
+        while (returnTypeEnd <= last && (tokens[returnTypeEnd].kind === 'identifier' || ['.', '<', '>', ',', '?', '[', ']'].includes(tokens[returnTypeEnd].text))) {
+            returnTypeEnd++;
+        }
+
+        if (returnTypeEnd <= last && tokens[returnTypeEnd].text === '(') {
+            const closeParenIndex = this.syntaxParser.findMatchingToken(tokens, returnTypeEnd);
+            if (tokens[closeParenIndex + 1]?.text === '=>') {
+                return {
+                    signature: `lambda${this.syntaxParser.getText(tree, returnTypeEnd, closeParenIndex)}`,
+                    returnType: returnTypeEnd > i ? this.syntaxParser.getText(tree, i, returnTypeEnd - 1) : 'unknown'
+                };
+            }
+        }
+
+        // Method group: GetOrder or OrderHandlers.GetOrder
+        const handlerTokens = tokens.slice(i, last + 1);
+        const isMethodGroup = handlerTokens.length > 0 &&
+            handlerTokens.every((token, index) => index % 2 === 0 ? token.kind === 'identifier' : token.text === '.');
+        if (isMethodGroup) {
+            const handlerName = handlerTokens[handlerTokens.length - 1].text;
+            const declaration = this.findMethodDeclaration(tree, lines, handlerName);
+            if (declaration) {
+                return declaration;
+            }
+            console.log(`[C# API Detector] ⚠️ Handler method '${handlerName}' not found in current document`);
+            return { signature: '', methodName: handlerName, returnType: 'unknown' };
+        }
+
+        // Untyped lambdas (id => ...) or other expressions carry no bindable parameter types
+        return { signature: '', returnType: 'unknown' };
+    }
+
+    /**
+     * Find a method (or local function) declaration by name and return its full signature
+     */
+    private findMethodDeclaration(tree: CSharpSyntaxTree, lines: string[], name: string): { signature: string; methodName: string; returnType: string; docComment?: string } | null {
+        for (const type of this.syntaxParser.getAllTypes(tree)) {
+            const method = type.members.find(member => member.kind === 'method' && member.name === name);
+            if (method) {
+                return { signature: method.signature, methodName: method.name, returnType: method.type || 'unknown', docComment: method.docComment };
+            }
+        }
 
-                if (!name) {
-                    name = nameFromParts;
-                }
+        // Local functions in top-level statements are not part of any type declaration
+        const declarationRegex = new RegExp(
+            `^\\s*(?:(?:public|private|protected|internal|static|async|virtual|override|sealed)\\s+)*([\\w<>\\[\\],\\.\\?\\s]+?)\\s+${name}\\s*(?:<[^>]*>)?\\s*\\(`
+        );
+        const nonTypeKeywords = ['return', 'await', 'new', 'throw', 'else', 'yield', 'case', 'using'];
 
-                type = parts.slice(0, parts.length - 1).join(' ').trim();
-                console.log(`[C# API Detector]   ⚠️ Fallback - Type: "${type}", Name: "${name}"`);
-            } else {
-                console.error(`[C# API Detector]   ❌ Failed to parse parameter: "${param}"`);
-                return null;
+        for (let i = 0; i < lines.length; i++) {
+            const match = lines[i].match(declarationRegex);
+            if (!match || nonTypeKeywords.includes(match[1].trim())) {
+                continue;
+            }
+
+            // Method signature might span multiple lines
+            let signature = lines[i].trim();
+            for (let j = i + 1; this.extractParameterList(signature) === null && j < lines.length && j < i + 30; j++) {
+                signature += ' ' + lines[j].trim();
+            }
+
+            const methodDetails = this.extractMethodDetails(signature);
+            if (methodDetails) {
+                const docLines: string[] = [];
+                for (let j = i - 1; j >= 0 && /^\s*\/\/\//.test(lines[j]); j--) {
+                    docLines.unshift(lines[j].trim().replace(/^\/\/\/ ?/, ''));
+                }
+                return { signature, ...methodDetails, docComment: docLines.length > 0 ? docLines.join('\n') : undefined };
             }
         }
 
-        // Step 5: Check if type is nullable (for determining required field)
-        const isNullable = type.includes('?');
+        return null;
+    }
 
-        // Step 6: Smart source inference if not explicitly specified
-        if (!/\[From\w+/i.test(param)) {
-            const inferredSource = this.inferParameterSource(type, name, param);
-            source = inferredSource.source;
-            required = inferredSource.required;
-            console.log(`[C# API Detector]   🔄 Inferred source: ${source} (reason: ${inferredSource.reason})`);
-        } else if (source === 'query') {
-            // For query parameters, check if nullable determines required
-            required = !isNullable;
-        } else if (source === 'body' || source === 'path') {
-            // Body and path parameters are typically required
-            required = true;
+    private async parseMinimalApiParameters(document: vscode.TextDocument, signature: string, methodName: string | undefined, route: string, httpMethod: string): Promise<ApiParameter[]> {
+        const parameters: ApiParameter[] = [];
+        const paramString = signature ? this.extractParameterList(signature) : null;
+        if (!paramString) {
+            return parameters;
         }
 
-        const apiParam: ApiParameter = {
-            name: name,
-            type: type,
-            source: source,
-            required: required
-        };
+        const routeParameterNames = new Set(Array.from(route.matchAll(/\{\*{0,2}(\w+)/g)).map(m => m[1].toLowerCase()));
 
-        console.log(`[C# API Detector]   ✅ Final Result: name="${name}", type="${type}", source="${source}", required=${required}`);
+        for (const boundText of await this.expandBoundParameters(document, this.splitParameters(paramString))) {
+            const rawParam = boundText.text;
+            const param = await this.parseSingleParameter(document, rawParam.trim(), methodName, route);
+            if (!param) {
+                continue;
+            }
 
-        // ⚡ OPTIMIZATION: Do NOT parse class definitions here!
-        // Parsing will be done lazily in ApiTestPanel when user clicks "Test API"
-        // This dramatically improves CodeLens performance
+            const boundParam = this.applyMinimalApiBinding(param, rawParam, routeParameterNames, httpMethod);
+            if (boundParam) {
+                this.applyBoundMemberRequired(boundParam, boundText);
+                parameters.push(boundParam);
+            }
+        }
 
-        return apiParam;
+        return parameters;
     }
 
     /**
-     * Intelligently infer parameter source based on type and parameter name
-     * when explicit [From*] attributes are not present
+     * Minimal APIs bind by name against the route template and resolve services from DI,
+     * so the controller-oriented inference is adjusted here
      */
-    private inferParameterSource(type: string, paramName: string, fullParamText: string): { source: 'path' | 'query' | 'body' | 'header' | 'form', required: boolean, reason: string } {
-        const cleanType = type.replace(/\?/g, '').replace(/\[\]/g, '').trim();
-        const lowerName = paramName.toLowerCase();
-        const lowerType = cleanType.toLowerCase();
+    private applyMinimalApiBinding(param: ApiParameter, rawParam: string, routeParameterNames: Set<string>, httpMethod: string): ApiParameter | null {
+        if (this.isMinimalApiInjectedType(param.type)) {
+            console.log(`[C# API Detector]   ⏭️ Skipping injected parameter: ${param.name} (${param.type})`);
+            return null;
+        }
 
-        // Check for file upload types
-        if (this.isFileType(cleanType)) {
-            return {
-                source: 'form',
-                required: true,
-                reason: 'File type detected (IFormFile)'
-            };
+        if (/\[From\w+/i.test(rawParam)) {
+            return param;
         }
 
-        // Path parameter detection based on parameter name
-        if (lowerName === 'id' ||
-            lowerName.endsWith('id') ||
-            lowerName.includes('identifier') ||
-            lowerName.includes('key') ||
-            lowerName.includes('code') ||
-            lowerName === 'slug') {
-            return {
-                source: 'path',
-                required: true,
-                reason: `Parameter name suggests path parameter (${paramName})`
-            };
+        if (routeParameterNames.has(param.name.toLowerCase())) {
+            param.source = 'path';
+            param.required = true;
+            return param;
         }
 
-        // Form parameter detection
-        if (lowerType.includes('iformdata') || lowerType.includes('form')) {
-            return {
-                source: 'form',
-                required: true,
-                reason: 'Form data type detected'
-            };
+        if (param.source === 'path') {
+            // Name looked like an identifier, but it is not part of the route template
+            const hasDefaultValue = /=\s*[^=]+/.test(rawParam);
+            param.source = 'query';
+            param.required = !param.type.includes('?') && !hasDefaultValue;
         }
 
-        // Header parameter detection
-        if (lowerName.includes('header') ||
-            lowerName.includes('authorization') ||
-            lowerName.includes('token')) {
-            return {
-                source: 'header',
-                required: false,
-                reason: 'Parameter name suggests header parameter'
-            };
+        if (param.source === 'body' && ['GET', 'HEAD', 'DELETE', 'OPTIONS'].includes(httpMethod)) {
+            // Complex types are not inferred from the body for these verbs; they come from DI
+            console.log(`[C# API Detector]   ⏭️ Skipping complex parameter on ${httpMethod}: ${param.name} (${param.type})`);
+            return null;
         }
 
-        // Query parameter detection for simple types
-        const isSimple = this.isSimpleType(cleanType);
-        const isNullable = type.includes('?');
-        const hasDefaultValue = /=\s*[^=]+/.test(fullParamText);
+        return param;
+    }
 
-        if (isSimple) {
-            // Simple types without ID-like names are typically query parameters
-            const reason = isNullable || hasDefaultValue
-                ? 'Simple nullable type with default value → query parameter'
-                : 'Simple type → query parameter';
+    private isMinimalApiInjectedType(type: string): boolean {
+        const simpleName = this.getSimpleTypeName(type);
 
-            return {
-                source: 'query',
-                required: !isNullable && !hasDefaultValue,
-                reason: reason
-            };
+        if (this.isFrameworkInjectedType(type)) {
+            return true;
         }
 
-        // Check if this might be an enum type - enums should be treated as simple types
-        // We'll use a heuristic based on common enum naming patterns
-        const isLikelyEnum = this.isLikelyEnumType(cleanType, paramName);
-
-        if (isLikelyEnum) {
-            console.log(`[ApiEndpointDetector] Detected likely enum type: ${cleanType}`);
-            return {
-                source: 'query',
-                required: !isNullable && !hasDefaultValue,
-                reason: 'Enum type → query parameter (treated as string)'
-            };
+        // Interfaces such as ILogger<T> or IOrderService are services, except form files and collections
+        if (/^I[A-Z]/.test(simpleName) &&
+            !/^I(FormFile|FormFileCollection|FormCollection|Enumerable|List|Collection|ReadOnlyList|ReadOnlyCollection|Dictionary)$/.test(simpleName)) {
+            return true;
         }
 
-        // Complex types (DTOs, models) are typically body parameters
-        return {
-            source: 'body',
-            required: true,
-            reason: 'Complex type → body parameter'
-        };
+        return /(DbContext|Db)$/.test(simpleName);
     }
 
     /**
-     * Check if a type represents file upload
+     * Types the framework supplies to both controller actions and minimal API handlers
      */
-    private isFileType(type: string): boolean {
-        const fileTypes = [
-            'iformfile',
-            'iformfilecollection',
-            'stream',
-            'byte[]'
-        ];
+    private isFrameworkInjectedType(type: string): boolean {
+        const injectedTypes = ['HttpContext', 'HttpRequest', 'HttpResponse', 'CancellationToken', 'ClaimsPrincipal', 'PipeReader', 'PipeWriter'];
+        return injectedTypes.includes(this.getSimpleTypeName(type));
+    }
 
-        const cleanType = type.toLowerCase().replace(/\?/g, '').replace(/\[\]/g, '');
-        return fileTypes.some(ft => cleanType.includes(ft));
+    private getSimpleTypeName(type: string): string {
+        return (type.replace(/\?/g, '').replace(/<.*$/, '').trim().split('.').pop() || '');
     }
 
-    private isSimpleType(type: string): boolean {
-        // Remove nullable suffix, array notation, and trim whitespace
-        const cleanType = type.replace(/\?/g, '').replace(/\[\]/g, '').trim().toLowerCase();
+    /**
+     * Replace [AsParameters] parameters and complex [FromQuery] / [FromRoute] parameters with their bound members,
+     * so each member is reported with its own source. Parameters whose type cannot be found are kept as-is.
+     * @param document Document the method is declared in
+     * @param rawParams Parameter texts as written in the signature
+     */
+    private async expandBoundParameters(document: vscode.TextDocument, rawParams: string[]): Promise<BoundParameterText[]> {
+        const expanded: BoundParameterText[] = [];
 
-        // More comprehensive list of C# simple types
-        const simpleTypes = [
-            // Numeric types
-            'byte', 'sbyte',
-            'short', 'ushort',
-            'int', 'int32', 'uint', 'uint32',
-            'long', 'ulong',
-            'float', 'double', 'decimal',
-            // Other built-in types
-            'bool', 'boolean',
-            'char',
-            'string',
-            'object',
-            'DateTime', 'DateTimeOffset', 'DateOnly', 'TimeOnly', 'TimeSpan',
-            'Guid',
-            'enum'
-        ];
+        for (const rawParam of rawParams) {
+            const asParameters = /\[AsParameters[\(\)\s]*\]/i.test(rawParam);
+            const containerSource = rawParam.match(/\[(FromQuery|FromRoute)[\(\)\s]*\]/i)?.[1];
+            const type = rawParam.replace(/\[[^\[\]]+\]/g, '').replace(/\b(ref|in|scoped)\b\s+/g, '').trim()
+                .replace(/\s*=.*$/, '').replace(/\s+\w+$/, '').trim();
 
-        // Check exact match
-        if (simpleTypes.includes(cleanType)) {
-            return true;
-        }
+            if (!asParameters && !(containerSource && this.isComplexQueryType(type))) {
+                expanded.push({ text: rawParam });
+                continue;
+            }
 
-        // Check if it's a nullable value type (e.g., int?, bool?, decimal?)
-        if (cleanType.includes('?')) {
-            const underlyingType = cleanType.replace('?', '');
-            return simpleTypes.includes(underlyingType);
-        }
+            const members = await this.getBoundMembers(document, type);
+            if (!members) {
+                console.log(`[C# API Detector]   ⚠️ Could not resolve ${type} for member expansion, keeping parameter as-is`);
+                expanded.push({ text: rawParam });
+                continue;
+            }
 
-        // Check for numeric types with precision (SQL types)
-        if (/^(int|bigint|smallint|tinyint|money|smallmoney|numeric|real)\b/i.test(cleanType)) {
-            return true;
+            console.log(`[C# API Detector]   🧩 Expanded ${asParameters ? '[AsParameters]' : `[${containerSource}]`} ${type} into ${members.length} members`);
+            for (const member of members) {
+                // [FromQuery] / [FromRoute] on the container applies to members without their own binding source
+                const inheritsSource = !asParameters && !member.attributes.some(a => /^From\w+/.test(a.name));
+                const attributes = member.attributes.map(a => `[${a.text}]`);
+                if (inheritsSource) {
+                    attributes.unshift(`[${containerSource}]`);
+                }
+                const defaultValue = member.defaultValue ? ` = ${member.defaultValue}` : '';
+                expanded.push({ text: `${attributes.join(' ')} ${member.type} ${member.name}${defaultValue}`.trim(), required: member.required });
+            }
         }
 
-        return false;
+        return expanded;
     }
 
-    private processRouteParameters(route: string, parameters: ApiParameter[]): string {
-        // Replace route parameter placeholders with actual parameter names
-        let processedRoute = route;
-
-        // Look for route parameters like {id} and replace with actual parameter names
-        const routeParams = parameters.filter(p => p.source === 'path');
-
-        for (const param of routeParams) {
-            // Common route patterns
-            const patterns = [
-                `{${param.name.toLowerCase()}}`,
-                `{${param.name}}`,
-                `:${param.name.toLowerCase()}`,
-                `:${param.name}`
-            ];
-
-            for (const pattern of patterns) {
-                if (processedRoute.includes(pattern)) {
-                    processedRoute = processedRoute.replace(pattern, `{${param.name}}`);
-                    break;
-                }
-            }
+    /**
+     * Expanded members are required as their declaration says, which the parameter text cannot carry;
+     * route values stay required
+     */
+    private applyBoundMemberRequired(param: ApiParameter, boundText: BoundParameterText): void {
+        if (boundText.required !== undefined && param.source !== 'path') {
+            param.required = boundText.required;
         }
-
-        return processedRoute;
     }
 
     /**
-     * Check if a type is likely an enum based on naming patterns
-     * @param type The type name to check
-     * @param paramName The parameter name (for additional context)
-     * @returns true if the type is likely an enum
+     * Settable public properties and primary constructor parameters of a class, record or struct
      */
-    private isLikelyEnumType(type: string, paramName: string): boolean {
-        const lowerType = type.toLowerCase();
-        const lowerParam = paramName.toLowerCase();
+    private async getBoundMembers(document: vscode.TextDocument, typeName: string): Promise<{ name: string; type: string; attributes: CSharpAttribute[]; defaultValue?: string; required: boolean }[] | null> {
+        const resolved = await this.classParser.findClassDeclarationInWorkspace(
+            typeName.replace(/\?$/, ''), document, ['class', 'record', 'struct', 'record struct']);
+        if (!resolved) {
+            return null;
+        }
 
-        // Common enum suffixes
-        const enumSuffixes = [
-            'enum',
-            'type',
-            'status',
-            'state',
-            'mode',
-            'level',
-            'category',
-            'style',
-            'kind',
-            'sort',
-            'order',
-            'direction',
-            'priority',
-            'severity'
-        ];
+        const members: { name: string; type: string; attributes: CSharpAttribute[]; defaultValue?: string; required: boolean }[] = [];
+        for (const param of resolved.type.primaryConstructorParameters || []) {
+            members.push({
+                name: param.name,
+                type: param.type,
+                attributes: param.attributes,
+                defaultValue: param.defaultValue,
+                required: await this.classParser.isBoundMemberRequired(resolved.document,
+                    { type: param.type, attributes: param.attributes, line: resolved.type.line, initializer: param.defaultValue })
+            });
+        }
 
-        // Check if type name ends with common enum suffixes
-        for (const suffix of enumSuffixes) {
-            if (lowerType.endsWith(suffix)) {
-                console.log(`[ApiEndpointDetector] Type ${type} ends with ${suffix} - likely enum`);
-                return true;
+        for (const member of resolved.type.members) {
+            if (member.kind !== 'property' || !member.modifiers.includes('public') || member.modifiers.includes('static') ||
+                !member.accessors?.some(accessor => accessor === 'set' || accessor === 'init') ||
+                members.some(existing => existing.name === member.name)) {
+                continue;
             }
+            members.push({
+                name: member.name,
+                type: member.type,
+                attributes: member.attributes,
+                defaultValue: member.initializer,
+                required: await this.classParser.isBoundMemberRequired(resolved.document, member)
+            });
         }
 
-        // Check for common enum parameter names
-        const enumParamNames = [
-            'status',
-            'type',
-            'state',
-            'mode',
-            'sort',
-            'order',
-            'direction',
-            'level',
-            'priority',
-            'category',
-            'style'
-        ];
+        return members;
+    }
 
-        for (const enumParam of enumParamNames) {
-            if (lowerParam.includes(enumParam)) {
-                console.log(`[ApiEndpointDetector] Parameter name ${paramName} suggests enum type`);
-                return true;
-            }
+    private isComplexQueryType(type: string): boolean {
+        const cleanType = type.replace(/\?/g, '').trim();
+        return !!cleanType &&
+            !this.isSimpleType(cleanType) &&
+            !this.isFileType(cleanType) &&
+            !cleanType.endsWith('[]') &&
+            !/^(I?(List|Enumerable|Collection|ReadOnlyList|ReadOnlyCollection|Set|HashSet|Dictionary)|Nullable)</.test(cleanType) &&
+            !this.isLikelyEnumType(cleanType, '');
+    }
+
+    private parseHttpMethodList(tokens: CSharpToken[], range: [number, number] | undefined): string[] {
+        const methods = new Set<string>();
+        if (!range) {
+            return [];
         }
 
-        // Check for PascalCase enum patterns (e.g., UserStatus, OrderType, PaymentMode)
-        if (/^[A-Z][a-zA-Z0-9]*(Status|Type|State|Mode|Level|Category|Style|Kind|Sort|Order|Direction|Priority|Severity)$/.test(type)) {
-            console.log(`[ApiEndpointDetector] Type ${type} matches PascalCase enum pattern`);
-            return true;
+        // new[] { "GET", "HEAD" } or new[] { HttpMethods.Get }
+        for (let j = range[0]; j <= range[1]; j++) {
+            if (tokens[j].kind === 'string' && tokens[j].value) {
+                methods.add(tokens[j].value!.toUpperCase());
+            } else if (tokens[j].text === 'HttpMethods' && tokens[j + 1]?.text === '.' && tokens[j + 2]?.kind === 'identifier') {
+                methods.add(tokens[j + 2].text.toUpperCase());
+            }
         }
 
-        return false;
+        return Array.from(methods);
+    }
+
+    private combineRouteSegments(prefix: string, route: string): string {
+        const segments = [prefix, route]
+            .map(segment => segment.trim().replace(/^\/+|\/+$/g, ''))
+            .filter(segment => segment.length > 0);
+        return `/${segments.join('/')}`;
     }
 
     /**
@@ -801,4 +2597,18 @@ export class ApiEndpointDetector {
     getClassParser(): CSharpClassParser {
         return this.classParser;
     }
+
+    /**
+     * Get the startup configuration reader (path bases, route prefixes, conventional routes)
+     */
+    getStartupConfigDetector(): StartupConfigDetector {
+        return this.startupConfigDetector;
+    }
+
+    /**
+     * Get the FluentValidation rule reader (AbstractValidator<T> classes of the workspace)
+     */
+    getFluentValidationParser(): FluentValidationParser {
+        return this.fluentValidationParser;
+    }
 }
@@ -0,0 +1,309 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ApiEndpointDetector, ApiEndpointInfo } from './apiEndpointDetector';
+
+/**
+ * Endpoint found in a workspace file
+ */
+export interface IndexedApiEndpoint {
+    endpoint: ApiEndpointInfo;
+    uri: vscode.Uri;
+}
+
+export type ApiExplorerNode =
+    | { kind: 'project'; name: string; endpoints: IndexedApiEndpoint[] }
+    | { kind: 'controller'; name: string; project: string; endpoints: IndexedApiEndpoint[] }
+    | { kind: 'endpoint'; item: IndexedApiEndpoint };
+
+const methodColors: Record<string, string> = {
+    GET: 'charts.green',
+    POST: 'charts.yellow',
+    PUT: 'charts.blue',
+    PATCH: 'charts.purple',
+    DELETE: 'charts.red'
+};
+
+/**
+ * Workspace-wide endpoint tree: project (.csproj) → controller → endpoint.
+ * The index is built on first use and updated per file as .cs files change.
+ */
+export class ApiEndpointExplorerProvider implements vscode.TreeDataProvider<ApiExplorerNode>, vscode.Disposable {
+    private static readonly excludePattern = '**/{node_modules,bin,obj,.git,packages}/**';
+    // Cheap pre-check so files without controllers or Map* calls are not parsed
+    private static readonly candidatePattern = /Controller|PageModel|HttpTrigger|\[Http|AcceptVerbs|\.Map(Get|Post|Put|Delete|Patch|Methods|Group)\b/;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<ApiExplorerNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private index: Map<string, IndexedApiEndpoint[]> = new Map(); // file path -> endpoints
+    private projectFiles: string[] = [];                             // .csproj paths, longest directory first
+    private indexing?: Promise<void>;
+    private indexed = false;
+    private filterText = '';
+    private refreshTimer?: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private detector: ApiEndpointDetector) {
+        const csWatcher = vscode.workspace.createFileSystemWatcher('**/*.cs');
+        csWatcher.onDidCreate(uri => this.updateFile(uri), null, this.disposables);
+        csWatcher.onDidChange(uri => this.updateFile(uri), null, this.disposables);
+        csWatcher.onDidDelete(uri => this.removeFile(uri), null, this.disposables);
+
+        const projectWatcher = vscode.workspace.createFileSystemWatcher('**/*.csproj');
+        projectWatcher.onDidCreate(() => this.reindex(), null, this.disposables);
+        projectWatcher.onDidDelete(() => this.reindex(), null, this.disposables);
+
+        this.disposables.push(csWatcher, projectWatcher, this._onDidChangeTreeData);
+    }
+
+    getTreeItem(node: ApiExplorerNode): vscode.TreeItem {
+        if (node.kind === 'project') {
+            const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Expanded);
+            item.iconPath = new vscode.ThemeIcon('project');
+            item.description = `${node.endpoints.length}`;
+            item.contextValue = 'apiProject';
+            return item;
+        }
+
+        if (node.kind === 'controller') {
+            const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Collapsed);
+            item.iconPath = new vscode.ThemeIcon('symbol-class');
+            item.description = `${node.endpoints.length}`;
+            item.contextValue = 'apiController';
+            return item;
+        }
+
+        const { endpoint, uri } = node.item;
+        const version = endpoint.apiVersion && !endpoint.apiVersionInRoute ? ` (v${endpoint.apiVersion})` : '';
+        const handler = endpoint.pageHandler ? `?handler=${endpoint.pageHandler}` : '';
+        const label = `${endpoint.method} ${endpoint.route}${handler}${version}`;
+
+        const item = new vscode.TreeItem({ label, highlights: [[0, endpoint.method.length]] }, vscode.TreeItemCollapsibleState.None);
+        item.description = endpoint.methodName;
+        item.iconPath = new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor(methodColors[endpoint.method] || 'charts.orange'));
+        item.tooltip = `${endpoint.method} ${endpoint.route}\n${endpoint.controllerName ? `${endpoint.controllerName}.` : ''}${endpoint.methodName}\n` +
+            `${vscode.workspace.asRelativePath(uri)}:${endpoint.line + 1}` +
+            (endpoint.authorization ? `\n🔒 ${ApiEndpointDetector.describeAuthorization(endpoint.authorization)}` : '');
+        item.contextValue = 'apiEndpoint';
+        item.command = {
+            title: 'Test API Endpoint',
+            command: 'csharpApiTester.testApi',
+            arguments: [endpoint, uri]
+        };
+        return item;
+    }
+
+    async getChildren(node?: ApiExplorerNode): Promise<ApiExplorerNode[]> {
+        if (!node) {
+            await this.ensureIndexed();
+            return this.getProjectNodes();
+        }
+
+        if (node.kind === 'project') {
+            const controllers = this.groupBy(node.endpoints, item => this.getControllerName(item));
+            return Array.from(controllers.entries())
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([name, endpoints]) => ({ kind: 'controller', name, project: node.name, endpoints }));
+        }
+
+        if (node.kind === 'controller') {
+            return node.endpoints
+                .slice()
+                .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath) || a.endpoint.line - b.endpoint.line)
+                .map(item => ({ kind: 'endpoint', item }));
+        }
+
+        return [];
+    }
+
+    /**
+     * Filter endpoints by route text and/or HTTP method, e.g. "orders", "POST" or "GET /api/orders"
+     */
+    setFilter(filterText: string): void {
+        this.filterText = filterText.trim();
+        vscode.commands.executeCommand('setContext', 'csharpApiTester.endpointFilterActive', !!this.filterText);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getFilter(): string {
+        return this.filterText;
+    }
+
+    /**
+     * All indexed endpoints (building the index if needed)
+     */
+    async getAllEndpoints(): Promise<IndexedApiEndpoint[]> {
+        await this.ensureIndexed();
+        return Array.from(this.index.values()).flat();
+    }
+
+    async reindex(): Promise<void> {
+        this.indexed = false;
+        this.indexing = undefined;
+        this.index.clear();
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    /**
+     * Jump to the line the endpoint is declared on
+     */
+    static async revealEndpoint(item: IndexedApiEndpoint): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(item.uri);
+        const position = new vscode.Position(item.endpoint.line, item.endpoint.character);
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+    }
+
+    static getIndexedEndpoint(node: ApiExplorerNode | undefined): IndexedApiEndpoint | undefined {
+        return node?.kind === 'endpoint' ? node.item : undefined;
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private ensureIndexed(): Promise<void> {
+        if (this.indexed) {
+            return Promise.resolve();
+        }
+        if (!this.indexing) {
+            this.indexing = this.buildIndex();
+        }
+        return this.indexing;
+    }
+
+    private async buildIndex(): Promise<void> {
+        console.log('[C# API Explorer] 🔍 Indexing workspace endpoints...');
+        const startTime = Date.now();
+
+        const projectUris = await vscode.workspace.findFiles('**/*.csproj', ApiEndpointExplorerProvider.excludePattern);
+        this.projectFiles = projectUris
+            .map(uri => uri.fsPath)
+            .sort((a, b) => path.dirname(b).length - path.dirname(a).length);
+
+        const files = await vscode.workspace.findFiles('**/*.cs', ApiEndpointExplorerProvider.excludePattern);
+        for (const uri of files) {
+            await this.indexFile(uri);
+        }
+
+        this.indexed = true;
+        const endpointCount = Array.from(this.index.values()).reduce((count, endpoints) => count + endpoints.length, 0);
+        console.log(`[C# API Explorer] ✅ Indexed ${endpointCount} endpoints in ${files.length} files (${Date.now() - startTime}ms)`);
+    }
+
+    private async indexFile(uri: vscode.Uri): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            if (!ApiEndpointExplorerProvider.candidatePattern.test(document.getText())) {
+                this.index.delete(uri.fsPath);
+                return;
+            }
+
+            const endpoints = await this.detector.detectApiEndpoints(document);
+            if (endpoints.length > 0) {
+                this.index.set(uri.fsPath, endpoints.map(endpoint => ({ endpoint, uri })));
+            } else {
+                this.index.delete(uri.fsPath);
+            }
+        } catch (error) {
+            console.error(`[C# API Explorer] ⚠️ Failed to index ${uri.fsPath}:`, error);
+            this.index.delete(uri.fsPath);
+        }
+    }
+
+    private async updateFile(uri: vscode.Uri): Promise<void> {
+        if (!this.indexed || this.isExcluded(uri)) {
+            return;
+        }
+        await this.indexFile(uri);
+        this.scheduleRefresh();
+    }
+
+    private removeFile(uri: vscode.Uri): void {
+        if (this.index.delete(uri.fsPath)) {
+            this.scheduleRefresh();
+        }
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => this._onDidChangeTreeData.fire(undefined), 300);
+    }
+
+    private isExcluded(uri: vscode.Uri): boolean {
+        return /[\\/](node_modules|bin|obj|\.git|packages)[\\/]/.test(uri.fsPath);
+    }
+
+    private getProjectNodes(): ApiExplorerNode[] {
+        const endpoints = Array.from(this.index.values()).flat().filter(item => this.matchesFilter(item.endpoint));
+        const projects = this.groupBy(endpoints, item => this.getProjectName(item.uri));
+
+        return Array.from(projects.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([name, projectEndpoints]) => ({ kind: 'project', name, endpoints: projectEndpoints }));
+    }
+
+    private matchesFilter(endpoint: ApiEndpointInfo): boolean {
+        if (!this.filterText) {
+            return true;
+        }
+
+        const methods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+        const terms = this.filterText.split(/\s+/);
+        const methodTerms = terms.filter(term => methods.includes(term.toUpperCase())).map(term => term.toUpperCase());
+        const textTerms = terms.filter(term => !methods.includes(term.toUpperCase())).map(term => term.toLowerCase());
+
+        if (methodTerms.length > 0 && !methodTerms.includes(endpoint.method)) {
+            return false;
+        }
+
+        const searchText = `${endpoint.route} ${endpoint.methodName} ${endpoint.controllerName || ''}`.toLowerCase();
+        return textTerms.every(term => searchText.includes(term));
+    }
+
+    /**
+     * Project of a file: the nearest .csproj above it, else its workspace folder
+     */
+    getProjectName(uri: vscode.Uri): string {
+        const projectFile = this.projectFiles.find(file => {
+            const projectDirectory = path.dirname(file) + path.sep;
+            return uri.fsPath.startsWith(projectDirectory);
+        });
+        if (projectFile) {
+            return path.basename(projectFile, '.csproj');
+        }
+        return vscode.workspace.getWorkspaceFolder(uri)?.name || 'Workspace';
+    }
+
+    private getControllerName(item: IndexedApiEndpoint): string {
+        if (item.endpoint.kind === 'minimalApi') {
+            const fileName = path.basename(item.uri.fsPath, '.cs');
+            return item.endpoint.controllerName ? `${item.endpoint.controllerName} (Minimal API)` : `${fileName} (Minimal API)`;
+        }
+        if (item.endpoint.kind === 'razorPage') {
+            return `${item.endpoint.controllerName} (Razor Page)`;
+        }
+        if (item.endpoint.kind === 'azureFunction') {
+            return `${item.endpoint.controllerName} (Azure Functions)`;
+        }
+        return item.endpoint.controllerName || path.basename(item.uri.fsPath, '.cs');
+    }
+
+    private groupBy(items: IndexedApiEndpoint[], getKey: (item: IndexedApiEndpoint) => string): Map<string, IndexedApiEndpoint[]> {
+        const groups = new Map<string, IndexedApiEndpoint[]>();
+        for (const item of items) {
+            const key = getKey(item);
+            const group = groups.get(key);
+            if (group) {
+                group.push(item);
+            } else {
+                groups.set(key, [item]);
+            }
+        }
+        return groups;
+    }
+}
@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
-import { ApiEndpointInfo, ApiParameter } from './apiEndpointDetector';
-import { Environment } from './environmentManager';
-import { ClassProperty, CSharpClassParser, EnumInfo } from './csharpClassParser';
+import { ApiEndpointInfo, ApiParameter, EndpointAuthorization } from './apiEndpointDetector';
+import { AuthProfile, Environment } from './environmentManager';
+import { ClassProperty, CSharpClassParser, EnumInfo, PropertyValidation } from './csharpClassParser';
+import { JsonSerializerProfile, JsonSerializerProfiles } from './jsonSerializerProfile';
+import { RegexSampleGenerator } from './regexSampleGenerator';
+import { RouteConstraint, RouteTemplate, RouteTemplateParameter } from './routeTemplate';
 
 export interface GeneratedRequest {
     url: string;
@@ -12,10 +15,32 @@ export interface GeneratedRequest {
     body?: any;
     formData?: Record<string, any>;  // New: for form-data
     errors?: string[];  // Errors that occurred during request generation
+    authProfile?: string;  // Name of the environment auth profile whose headers were attached
+}
+
+/**
+ * Values taken from a concrete request, e.g. a URL pasted from logs, used instead of generated samples
+ */
+export interface RequestValues {
+    pathParams: Record<string, string>;
+    queryParams: Record<string, string>;
 }
 
 export class ApiRequestGenerator {
+    // BCL types serialized as JSON arrays / JSON objects keyed by their first type argument
+    private static readonly collectionTypes = [
+        'List', 'IList', 'IEnumerable', 'ICollection', 'IReadOnlyList', 'IReadOnlyCollection', 'Collection', 'ObservableCollection',
+        'HashSet', 'ISet', 'IReadOnlySet', 'SortedSet', 'LinkedList', 'Queue', 'Stack', 'ConcurrentBag', 'ConcurrentQueue', 'ConcurrentStack',
+        'ImmutableArray', 'ImmutableList', 'IImmutableList', 'ImmutableHashSet', 'IImmutableSet', 'ImmutableSortedSet',
+        'IAsyncEnumerable', 'Array'
+    ];
+    private static readonly dictionaryTypes = [
+        'Dictionary', 'IDictionary', 'IReadOnlyDictionary', 'ConcurrentDictionary', 'SortedDictionary', 'SortedList',
+        'ReadOnlyDictionary', 'ImmutableDictionary', 'IImmutableDictionary', 'ImmutableSortedDictionary'
+    ];
+
     private classParser?: CSharpClassParser; // Optional: for accessing cached errors
+    private serializerProfile: JsonSerializerProfile = JsonSerializerProfiles.resolve();
 
     private sampleData = {
         string: [
@@ -38,6 +63,13 @@ export class ApiRequestGenerator {
         this.classParser = classParser || new CSharpClassParser();
     }
 
+    /**
+     * Serializer settings of the API being tested; decides JSON property names and whether enums are names or numbers
+     */
+    setSerializerProfile(profile: JsonSerializerProfile): void {
+        this.serializerProfile = profile;
+    }
+
     generateRequest(endpoint: ApiEndpointInfo, baseUrl: string): GeneratedRequest {
         const request: GeneratedRequest = {
             url: '',
@@ -53,10 +85,11 @@ export class ApiRequestGenerator {
         fullUrl += endpoint.route.startsWith('/') ? endpoint.route : `/${endpoint.route}`;
 
         // Replace path parameters with sample values
-        fullUrl = this.fillPathParameters(fullUrl, endpoint.parameters);
+        fullUrl = this.fillPathParameters(fullUrl, endpoint.parameters, request.pathParams);
 
         // Separate query parameters
         const queryParams = this.generateQueryParameters(endpoint.parameters);
+        this.addApiVersion(endpoint, request.headers, queryParams);
 
         // Build final URL with query string
         const queryString = this.buildQueryString(queryParams);
@@ -69,11 +102,12 @@ export class ApiRequestGenerator {
             request.errors = result.errors;
         }
 
+        this.addMediaTypeHeaders(endpoint, request);
         request.queryParams = queryParams;
         return request;
     }
 
-    generateRequestForEnvironment(endpoint: ApiEndpointInfo, environment: Environment, skipErrors: boolean = false): GeneratedRequest {
+    generateRequestForEnvironment(endpoint: ApiEndpointInfo, environment: Environment, skipErrors: boolean = false, values?: RequestValues): GeneratedRequest {
         const request: GeneratedRequest = {
             url: '',
             method: endpoint.method,
@@ -97,7 +131,7 @@ export class ApiRequestGenerator {
 
             let endpointRoute = endpoint.route;
             endpointRoute = endpointRoute.startsWith('/') ? endpointRoute.slice(1) : endpointRoute;
-            endpointRoute = endpointRoute.startsWith('api/') ? endpointRoute.slice(4) : endpointRoute; // Remove redundant api prefix
+            endpointRoute = this.removeBasePathOverlap(fullPath, endpointRoute); // Remove redundant prefix such as "api/"
 
             endpointRoute = endpointRoute.startsWith('/') ? endpointRoute.slice(1) : endpointRoute;
 
@@ -107,10 +141,11 @@ export class ApiRequestGenerator {
         }
 
         // Replace path parameters with sample values
-        fullUrl = this.fillPathParameters(fullUrl, endpoint.parameters);
+        fullUrl = this.fillPathParameters(fullUrl, endpoint.parameters, request.pathParams, values?.pathParams);
 
         // Separate query parameters
-        const queryParams = this.generateQueryParameters(endpoint.parameters);
+        const queryParams = { ...this.generateQueryParameters(endpoint.parameters), ...values?.queryParams };
+        this.addApiVersion(endpoint, request.headers, queryParams);
 
         // Build final URL with query string
         const queryString = this.buildQueryString(queryParams);
@@ -128,21 +163,310 @@ export class ApiRequestGenerator {
             request.errors = result.errors;
         }
 
+        this.addMediaTypeHeaders(endpoint, request);
+        this.applyAuthProfile(endpoint, environment, request);
+        this.applyFunctionKey(endpoint, environment, request);
         request.queryParams = queryParams;
         return request;
     }
 
-    private fillPathParameters(url: string, parameters: ApiParameter[]): string {
-        let processedUrl = url;
+    /**
+     * Attach the headers of the environment's auth profile matching a protected endpoint
+     */
+    private applyAuthProfile(endpoint: ApiEndpointInfo, environment: Environment, request: GeneratedRequest): void {
+        if (!endpoint.authorization) {
+            return;
+        }
+
+        const profile = ApiRequestGenerator.findAuthProfile(environment.authProfiles || [], endpoint.authorization);
+        if (profile) {
+            request.headers = { ...request.headers, ...profile.headers };
+            request.authProfile = profile.name;
+        }
+    }
+
+    /**
+     * Send the Azure Functions key of function/admin level triggers as x-functions-key (equivalent to ?code=).
+     * Keys are environment variables: "functionKey:<FunctionName>" for one function, "functionKey" for all others.
+     */
+    private applyFunctionKey(endpoint: ApiEndpointInfo, environment: Environment, request: GeneratedRequest): void {
+        if (endpoint.kind !== 'azureFunction' || !endpoint.functionAuthLevel || endpoint.functionAuthLevel === 'anonymous') {
+            return;
+        }
+
+        const variables = environment.customVariables || {};
+        const functionKey = variables[`functionKey:${endpoint.functionName}`] ?? variables.functionKey;
+        if (functionKey) {
+            request.headers = { ...request.headers, 'x-functions-key': functionKey };
+        }
+    }
+
+    /**
+     * Profile for the endpoint's requirements: the first one sharing a policy or role, else the first without any
+     */
+    static findAuthProfile(profiles: AuthProfile[], authorization: EndpointAuthorization): AuthProfile | undefined {
+        const matches = (values: string[] | undefined, required: string[]) =>
+            (values || []).some(value => required.some(item => item.toLowerCase() === value.toLowerCase()));
+
+        return profiles.find(profile => matches(profile.policies, authorization.policies) || matches(profile.roles, authorization.roles)) ||
+            profiles.find(profile => (profile.policies || []).length === 0 && (profile.roles || []).length === 0);
+    }
+
+    /**
+     * Drop the leading route segments the base path already ends with, e.g. base path "/api" and route "api/orders",
+     * while a path base such as "/svc" keeps "api/orders" intact
+     * @param basePath Base path with a trailing and without a leading slash
+     */
+    private removeBasePathOverlap(basePath: string, route: string): string {
+        const baseSegments = basePath.split('/').filter(segment => segment.length > 0).map(segment => segment.toLowerCase());
+        const routeSegments = route.split('/');
+
+        for (let count = Math.min(baseSegments.length, routeSegments.length - 1); count > 0; count--) {
+            const baseTail = baseSegments.slice(baseSegments.length - count);
+            if (routeSegments.slice(0, count).every((segment, index) => segment.toLowerCase() === baseTail[index])) {
+                return routeSegments.slice(count).join('/');
+            }
+        }
+        return route;
+    }
+
+    /**
+     * Fill route template placeholders with values that satisfy their constraints.
+     * Optional parameters that are not bound to a method parameter are dropped from the URL.
+     */
+    private fillPathParameters(url: string, parameters: ApiParameter[], pathParams: Record<string, any>, knownValues?: Record<string, string>): string {
+        const template = RouteTemplate.parse(url);
+        const pathParamsList = parameters.filter(p => p.source === 'path');
+
+        return template.render(routeParameter => {
+            const param = pathParamsList.find(p => p.name.toLowerCase() === routeParameter.name.toLowerCase());
+            const knownKey = Object.keys(knownValues || {}).find(key => key.toLowerCase() === routeParameter.name.toLowerCase());
+            const value = knownKey !== undefined ? knownValues![knownKey] : this.generateRouteValue(routeParameter, param);
+            if (value !== undefined) {
+                pathParams[routeParameter.name] = value;
+            }
+            return value;
+        });
+    }
+
+    /**
+     * Send the endpoint's API version as a query parameter or header, depending on the configured reader.
+     * Versions already substituted into the route (api/v{version:apiVersion}) are not sent again.
+     */
+    private addApiVersion(endpoint: ApiEndpointInfo, headers: Record<string, string>, queryParams: Record<string, any>): void {
+        if (!endpoint.apiVersion || endpoint.apiVersionInRoute) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('csharpApiTester');
+        const reader = config.get<string>('apiVersioning.reader', 'queryString');
+        const parameterName = config.get<string>('apiVersioning.parameterName', 'api-version') || 'api-version';
+
+        if (reader === 'queryString') {
+            queryParams[parameterName] = endpoint.apiVersion;
+        } else if (reader === 'header') {
+            headers[parameterName] = endpoint.apiVersion;
+        }
+    }
+
+    /**
+     * Set Content-Type from the declared request media types when the request carries a body or form,
+     * and Accept from the declared response media types
+     */
+    private addMediaTypeHeaders(endpoint: ApiEndpointInfo, request: GeneratedRequest): void {
+        const hasContent = request.body !== undefined || request.formData !== undefined ||
+            endpoint.parameters.some(param => param.source === 'body' || param.source === 'form');
+
+        if (hasContent && endpoint.consumes && endpoint.consumes.length > 0) {
+            request.headers['Content-Type'] = ApiRequestGenerator.getPreferredMediaType(endpoint.consumes);
+        }
+        if (endpoint.produces && endpoint.produces.length > 0) {
+            request.headers['Accept'] = ApiRequestGenerator.getPreferredMediaType(endpoint.produces);
+        }
+    }
+
+    /**
+     * JSON when the endpoint offers it (the body editor works in JSON), otherwise the first declared type
+     */
+    static getPreferredMediaType(mediaTypes: string[]): string {
+        return mediaTypes.find(mediaType => ApiRequestGenerator.isJsonMediaType(mediaType)) || mediaTypes[0];
+    }
+
+    static isJsonMediaType(mediaType: string | undefined): boolean {
+        return !mediaType || /[\/+]json\b/i.test(mediaType) || mediaType.trim() === '*/*';
+    }
+
+    /**
+     * Serialize a JSON body for the request's Content-Type: XML for application/xml and text/xml (and +xml),
+     * the raw text for other text types, otherwise the value itself (sent as JSON)
+     * @param body Body as edited in the panel (parsed JSON)
+     * @param contentType Content-Type header value
+     * @param rootElementName XML root element, usually the body parameter type
+     */
+    serializeBody(body: any, contentType: string | undefined, rootElementName: string = 'root'): any {
+        const mediaType = (contentType || '').split(';')[0].trim().toLowerCase();
+
+        if (/[\/+]xml$/.test(mediaType)) {
+            return `<?xml version="1.0" encoding="utf-8"?>\n${this.toXml(body, rootElementName, '')}`;
+        }
+        if (mediaType.startsWith('text/')) {
+            return typeof body === 'string' ? body : JSON.stringify(body, null, 2);
+        }
+        return body;
+    }
+
+    /**
+     * XML root element the .NET serializers expect for a body type: Order, or ArrayOfOrder for List<Order> / Order[]
+     */
+    getXmlRootElementName(type: string): string {
+        const cleanType = type.replace(/\?/g, '').trim();
+        const collectionMatch = cleanType.match(/^(?:[\w.]+\.)?(?:I?List|IEnumerable|ICollection|IReadOnlyList|IReadOnlyCollection|Collection)<(.+)>$/) ||
+            cleanType.match(/^(.+)\[\]$/);
+        if (collectionMatch) {
+            const itemName = this.getXmlRootElementName(collectionMatch[1]);
+            return `ArrayOf${itemName.charAt(0).toUpperCase()}${itemName.slice(1)}`;
+        }
+        return (cleanType.replace(/<.*$/, '').split('.').pop() || 'root');
+    }
+
+    private toXml(value: any, elementName: string, indent: string): string {
+        const name = elementName.replace(/[^\w.-]/g, '') || 'item';
+
+        if (value === null || value === undefined) {
+            return `${indent}<${name} />`;
+        }
+        if (Array.isArray(value)) {
+            // DataContract/XmlSerializer style: <ArrayOfOrder><Order>...</Order></ArrayOfOrder>
+            const items = value.map(item => this.toXml(item, this.getXmlItemName(name, item), `${indent}  `));
+            return items.length > 0 ? `${indent}<${name}>\n${items.join('\n')}\n${indent}</${name}>` : `${indent}<${name} />`;
+        }
+        if (typeof value === 'object') {
+            const children = Object.entries(value).map(([key, child]) =>
+                this.toXml(child, key.charAt(0).toUpperCase() + key.slice(1), `${indent}  `));
+            return children.length > 0 ? `${indent}<${name}>\n${children.join('\n')}\n${indent}</${name}>` : `${indent}<${name} />`;
+        }
+
+        const text = String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        return `${indent}<${name}>${text}</${name}>`;
+    }
+
+    private getXmlItemName(arrayName: string, item: any): string {
+        if (arrayName.startsWith('ArrayOf') && arrayName.length > 'ArrayOf'.length) {
+            return arrayName.substring('ArrayOf'.length);
+        }
+        if (typeof item === 'string') {
+            return 'string';
+        }
+        if (typeof item === 'number') {
+            return Number.isInteger(item) ? 'int' : 'decimal';
+        }
+        if (typeof item === 'boolean') {
+            return 'boolean';
+        }
+        return arrayName.endsWith('s') ? arrayName.slice(0, -1) : 'item';
+    }
+
+    private generateRouteValue(routeParameter: RouteTemplateParameter, param: ApiParameter | undefined): string | undefined {
+        if (routeParameter.defaultValue !== undefined) {
+            return routeParameter.defaultValue;
+        }
+        if (!param && routeParameter.optional) {
+            return undefined;
+        }
+        if (param?.example !== undefined) {
+            return param.example;
+        }
+
+        const constraints = [...routeParameter.constraints, ...RouteTemplate.parseConstraints(param?.constraint)];
+        // Without a matching parameter the type is unknown and the name decides, e.g. a number for {id}
+        let value = String(this.generateSampleValue(param?.type || '', routeParameter.name));
+
+        if (routeParameter.catchAll && constraints.length === 0 && value === this.sampleData.string[0]) {
+            value = 'folder/sample';
+        }
+
+        return this.applyRouteConstraints(value, constraints);
+    }
+
+    /**
+     * Adjust a sample value so it satisfies ASP.NET Core route constraints
+     */
+    private applyRouteConstraints(sample: string, constraints: RouteConstraint[]): string {
+        let value = sample;
+        const find = (name: string) => constraints.find(c => c.name.toLowerCase() === name);
+        const numbers = (constraint: RouteConstraint | undefined) =>
+            (constraint?.argument || '').split(',').filter(part => part.trim() !== '').map(part => Number(part.trim())).filter(n => !isNaN(n));
+
+        // Type constraints
+        if (find('int') || find('long')) {
+            value = /^-?\d+$/.test(value) ? value : String(this.sampleData.number[0]);
+        } else if (find('decimal') || find('double') || find('float')) {
+            value = /^-?\d+(\.\d+)?$/.test(value) ? value : String(this.sampleData.number[5]);
+        } else if (find('bool')) {
+            value = /^(true|false)$/i.test(value) ? value : 'true';
+        } else if (find('guid')) {
+            value = /^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i.test(value) ? value : this.sampleData.guid[0];
+        } else if (find('datetime')) {
+            value = isNaN(Date.parse(value)) ? '2024-01-01' : value.split('T')[0];
+        } else if (find('apiversion')) {
+            // Asp.Versioning assumes 1.0 when a controller declares no [ApiVersion]
+            value = /^\d+(\.\d+)?(-\w+)?$/.test(value) ? value : '1.0';
+        }
+
+        if (find('alpha')) {
+            value = value.replace(/[^a-zA-Z]/g, '') || 'sample';
+        }
+        if (find('file') && !value.includes('.')) {
+            value = `${value}.txt`;
+        }
+        if (find('nonfile')) {
+            value = value.replace(/\./g, '');
+        }
+
+        // Numeric ranges: min(1), max(100), range(1,100)
+        const [rangeMin, rangeMax] = numbers(find('range'));
+        const min = numbers(find('min'))[0] ?? rangeMin;
+        const max = numbers(find('max'))[0] ?? rangeMax;
+        if ((min !== undefined || max !== undefined) && !isNaN(Number(value))) {
+            let numericValue = Number(value);
+            if (min !== undefined && numericValue < min) numericValue = min;
+            if (max !== undefined && numericValue > max) numericValue = max;
+            value = String(numericValue);
+        }
+
+        // String lengths: minlength(3), maxlength(10), length(5), length(3,10)
+        const lengthArgs = numbers(find('length'));
+        const minLength = numbers(find('minlength'))[0] ?? lengthArgs[0];
+        const maxLength = numbers(find('maxlength'))[0] ?? (lengthArgs.length > 1 ? lengthArgs[1] : lengthArgs[0]);
+        if (minLength !== undefined && value.length < minLength) {
+            value = value.padEnd(minLength, value.slice(-1) || 'a');
+        }
+        if (maxLength !== undefined && value.length > maxLength) {
+            value = value.substring(0, maxLength);
+        }
+
+        const regexConstraint = find('regex');
+        if (regexConstraint?.argument) {
+            value = this.matchRouteRegex(value, regexConstraint.argument);
+        }
 
-        const pathParams = parameters.filter(p => p.source === 'path');
-        for (const param of pathParams) {
-            const sampleValue = this.generateSampleValue(param.type, param.name);
-            const placeholder = `{${param.name}}`;
-            processedUrl = processedUrl.replace(placeholder, encodeURIComponent(sampleValue));
+        if (find('required') && !value) {
+            value = this.sampleData.string[0];
         }
 
-        return processedUrl;
+        return value;
+    }
+
+    /**
+     * Return the value if it matches the regex constraint, otherwise a generated sample that does
+     */
+    private matchRouteRegex(value: string, pattern: string): string {
+        // Route constraints match case-insensitively
+        const regex = RegexSampleGenerator.createRegExp(pattern, 'i');
+        if (!regex || regex.test(value)) {
+            return value;
+        }
+        return RegexSampleGenerator.generate(pattern) ?? value;
     }
 
     private generateQueryParameters(parameters: ApiParameter[]): Record<string, any> {
@@ -150,7 +474,7 @@ export class ApiRequestGenerator {
         const queryParamsList = parameters.filter(p => p.source === 'query');
 
         for (const param of queryParamsList) {
-            queryParams[param.name] = this.generateSampleValue(param.type, param.name);
+            queryParams[param.name] = param.defaultValue ?? param.example ?? this.generateSampleValue(param.type, param.name);
         }
 
         return queryParams;
@@ -164,7 +488,7 @@ export class ApiRequestGenerator {
             if (this.isFileType(param.type)) {
                 formData[param.name] = '[FILE]'; // Placeholder for file
             } else {
-                formData[param.name] = this.generateSampleValue(param.type, param.name);
+                formData[param.name] = param.defaultValue ?? param.example ?? this.generateSampleValue(param.type, param.name);
             }
         }
 
@@ -185,6 +509,12 @@ export class ApiRequestGenerator {
             // Single body parameter - use class properties if available
             const bodyParam = bodyParams[0];
             console.log(`[ApiRequestGenerator] Processing body parameter: ${bodyParam.type}, properties:`, bodyParam.properties);
+
+            // A documented example request wins over generated values
+            if (bodyParam.example !== undefined) {
+                console.log(`[ApiRequestGenerator] Using documented example for ${bodyParam.type}`);
+                return { body: this.parseExampleValue(bodyParam.example, bodyParam.type), errors: [] };
+            }
         if (bodyParam.properties && bodyParam.properties.length > 0) {
                 // Check if this is an enum marker
                 if (bodyParam.properties[0].name === '_enum' && bodyParam.properties[0]._baseClassWarning?.startsWith('ENUM_INFO:')) {
@@ -192,7 +522,7 @@ export class ApiRequestGenerator {
                     const [firstValue, allValuesStr] = enumData.split('|');
 
                     console.log(`[ApiRequestGenerator] Generating enum body with first value: ${firstValue}`);
-                    return { body: firstValue, errors: [] };
+                    return { body: this.wrapInContainers(bodyParam.type, this.getEnumValue(bodyParam.properties[0], firstValue)), errors: [] };
                 }
 
                 console.log(`[ApiRequestGenerator] Generating body from ${bodyParam.properties.length} class properties`);
@@ -208,7 +538,11 @@ export class ApiRequestGenerator {
                 if (objErrors.length > 0) {
                     errors.push(...objErrors);
                 }
-                return { body, errors };
+                // List<Order> / Dictionary<string, Order> bodies: the properties describe one element
+                return { body: this.wrapInContainers(bodyParam.type, body), errors };
+            } else if (this.isStructuredType(bodyParam.type) && this.isSimpleType(this.getElementType(bodyParam.type))) {
+                // List<int>, HashSet<string>, Dictionary<string, decimal>: nothing to parse
+                return { body: this.generateComplexObject(bodyParam.type), errors: [] };
             } else {
                 // ⭐ NEW: 如果没有解析到 properties,先尝试从缓存读取错误
                 if (this.classParser) {
@@ -249,7 +583,11 @@ export class ApiRequestGenerator {
             // Multiple body parameters (wrap in object)
             const body: Record<string, any> = {};
             for (const param of bodyParams) {
-                body[param.name] = this.generateSampleValue(param.type, param.name);
+                body[param.name] = param.example !== undefined
+                    ? this.parseExampleValue(param.example, param.type)
+                    : this.isStructuredType(param.type)
+                        ? this.generateComplexObject(param.type)
+                        : this.generateSampleValue(param.type, param.name);
             }
             return { body, errors: [] };
         } else if (formParams.length > 0) {
@@ -269,6 +607,18 @@ export class ApiRequestGenerator {
         const errors: string[] = [];
 
         for (const prop of properties) {
+            // [JsonIgnore] and read-only properties are never read; [JsonExtensionData] only collects unknown fields
+            if (JsonSerializerProfiles.isIgnored(prop) || prop.jsonExtensionData || prop.readOnly) {
+                continue;
+            }
+            const name = JsonSerializerProfiles.getPropertyName(prop, this.serializerProfile);
+
+            // <example> from the property's XML doc comment
+            if (prop.example !== undefined) {
+                obj[name] = this.parseExampleValue(prop.example, prop.type);
+                continue;
+            }
+
             // Check if this property is marked as an enum
             if (prop._baseClassWarning?.startsWith('ENUM_INFO:')) {
                 // Extract enum info from the warning message
@@ -278,66 +628,106 @@ export class ApiRequestGenerator {
 
                 console.log(`[ApiRequestGenerator] Processing enum property ${prop.name} with values: [${allValues.join(', ')}]`);
 
-                // Set the enum value directly
-                obj[prop.name] = firstValue;
+                // Set the enum value directly (inside arrays/dictionaries for List<Status>, Dictionary<string, Status>)
+                obj[name] = this.wrapInContainers(prop.type, this.getEnumValue(prop, firstValue), prop.keyEnumValues);
                 continue;
             }
 
             // Check if property type is a complex type that might have nested properties
             const isComplexType = !this.isSimpleType(prop.type);
 
-            // Check if it's a collection type (List, IEnumerable, ICollection, Array, etc.)
-            const isCollectionType = this.isCollectionType(prop.type);
+            // Check if it's a collection or dictionary type (List, HashSet, Array, Dictionary, etc.)
+            const isContainerType = this.isCollectionType(prop.type) || this.isDictionaryType(prop.type);
 
-            if (isCollectionType) {
-                // Handle List/array types: generate array with one sample item
-                const innerType = this.extractInnerType(prop.type);
+            if (isContainerType) {
+                // Handle collections and dictionaries: generate one sample element, shaped like the declared type
+                const innerType = this.getElementType(prop.type);
 
                 // Check if the property itself has nested properties (recursively parsed)
                 if (prop.properties && prop.properties.length > 0) {
-                    console.log(`[ApiRequestGenerator] Generating array from nested properties for ${prop.name}`);
+                    console.log(`[ApiRequestGenerator] Generating ${prop.type} from nested properties for ${prop.name}`);
                     const { body: nestedBody, errors: nestedErrors } = this.generateObjectFromPropertiesWithErrors(prop.properties);
-                    obj[prop.name] = [nestedBody];
+                    obj[name] = this.wrapInContainers(prop.type, nestedBody, prop.keyEnumValues);
                     if (nestedErrors.length > 0) {
                         errors.push(...nestedErrors);
                     }
                 } else if (!this.isSimpleType(innerType)) {
                     // Inner type is complex but wasn't parsed - record error instead of returning error marker
                     console.warn(`[ApiRequestGenerator] ⚠️ Collection inner type ${innerType} not parsed for ${prop.name}!`);
-                    const errorMsg = `${prop.name}|⚠️ 警告: 无法解析集合内部类型 '${innerType}'|解决方案: 请在工作区定义此类型,或手动添加 ${innerType} 对象到此数组`;
+                    const errorMsg = `${name}|⚠️ 警告: 无法解析集合内部类型 '${innerType}'|解决方案: 请在工作区定义此类型,或手动添加 ${innerType} 对象到此数组`;
                     errors.push(errorMsg);
-                    obj[prop.name] = [];  // Empty array for user to fill
+                    obj[name] = this.isDictionaryType(prop.type) ? {} : [];  // Empty container for user to fill
                 } else {
-                    // Simple type array
-                    obj[prop.name] = [this.generateSampleValue(innerType, prop.name)];
+                    // Simple type elements
+                    obj[name] = this.wrapInContainers(prop.type, this.generateSampleValue(innerType, prop.name, prop.validation?.items), prop.keyEnumValues);
+                }
+
+                // [MinLength(3)] on a collection: repeat the sample element
+                const minItems = prop.validation?.minLength;
+                if (Array.isArray(obj[name]) && obj[name].length > 0 && minItems !== undefined && obj[name].length < minItems) {
+                    obj[name] = Array.from({ length: minItems }, () => obj[name][0]);
                 }
             } else if (isComplexType) {
                 // For complex types, check if we have recursively parsed properties
                 if (prop.properties && prop.properties.length > 0) {
                     console.log(`[ApiRequestGenerator] Generating object from ${prop.properties.length} nested properties for ${prop.name}`);
                     const { body: nestedBody, errors: nestedErrors } = this.generateObjectFromPropertiesWithErrors(prop.properties);
-                    obj[prop.name] = nestedBody;
+                    obj[name] = nestedBody;
                     if (nestedErrors.length > 0) {
                         errors.push(...nestedErrors);
                     }
                 } else {
                     // Complex type not parsed - record error instead of fake data
                     console.warn(`[ApiRequestGenerator] ⚠️ Complex type ${prop.type} not parsed for ${prop.name}!`);
-                    const errorMsg = `${prop.name}|⚠️ 警告: 无法解析复杂类型 '${prop.type}'|解决方案: 请在工作区定义此类型,或手动填写 ${prop.type} 对象`;
+                    const errorMsg = `${name}|⚠️ 警告: 无法解析复杂类型 '${prop.type}'|解决方案: 请在工作区定义此类型,或手动填写 ${prop.type} 对象`;
                     errors.push(errorMsg);
-                    obj[prop.name] = null;  // Null for user to fill
+                    obj[name] = null;  // Null for user to fill
                 }
             } else {
                 // Generate value based on property name and type
-                obj[prop.name] = this.generateSampleValue(prop.type, prop.name);
+                obj[name] = this.generateSampleValue(prop.type, prop.name, prop.validation);
             }
 
-            console.log(`[ApiRequestGenerator] Generated ${prop.name}: ${typeof obj[prop.name] === 'object' ? JSON.stringify(obj[prop.name]).substring(0, 100) : obj[prop.name]} (type: ${prop.type})`);
+            console.log(`[ApiRequestGenerator] Generated ${name}: ${typeof obj[name] === 'object' ? JSON.stringify(obj[name]).substring(0, 100) : obj[name]} (type: ${prop.type})`);
         }
 
         return { body: obj, errors };
     }
 
+    /**
+     * First enum member as the serializer writes it: its (possibly [EnumMember]-renamed) name with a string enum converter,
+     * otherwise its number. Without parsed enum details the member name is kept
+     */
+    private getEnumValue(prop: ClassProperty, firstValue: string): string | number {
+        const enumInfo = prop.enumInfo;
+        if (!enumInfo) {
+            return firstValue;
+        }
+        if (JsonSerializerProfiles.isEnumAsString(prop, this.serializerProfile)) {
+            return enumInfo.serializedNames[0] ?? firstValue;
+        }
+        return enumInfo.numericValues[0] ?? firstValue;
+    }
+
+    /**
+     * Convert an <example> text to a JSON value: numbers, booleans, objects and arrays are parsed,
+     * while string-like types (string, Guid, DateTime, ...) keep the text as is
+     */
+    private parseExampleValue(example: string, type: string): any {
+        const text = example.trim();
+        const cleanType = type.replace(/\?/g, '').trim().toLowerCase();
+        const stringTypes = ['string', 'char', 'guid', 'datetime', 'datetimeoffset', 'dateonly', 'timeonly', 'timespan', 'uri'];
+
+        if (stringTypes.includes(cleanType) && !/^".*"$/s.test(text)) {
+            return text;
+        }
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+
     /**
      * Legacy method for backward compatibility - now just calls the new method
      */
@@ -347,16 +737,114 @@ export class ApiRequestGenerator {
     }
 
     /**
-     * Check if a type is a collection type (List, IEnumerable, Array, etc.)
+     * Check if a type is a collection type (List, IEnumerable, HashSet, ImmutableArray, Array, etc.)
      */
     private isCollectionType(type: string): boolean {
-        const cleanType = type.replace('?', '').toLowerCase();
-        return cleanType.includes('list<') ||
-               cleanType.includes('ienumerable<') ||
-               cleanType.includes('icollection<') ||
-               cleanType.includes('ilist<') ||
-               cleanType.includes('[]') ||
-               cleanType.includes('array<');
+        // Only the outer type counts: Envelope<List<Order>> is an object; byte[] is serialized as a Base64 string
+        const cleanType = type.trim().replace(/\?$/, '');
+        if (cleanType.endsWith('[]')) {
+            return cleanType !== 'byte[]';
+        }
+        const { name, typeArguments } = this.splitGenericType(cleanType);
+        return typeArguments.length === 1 && ApiRequestGenerator.collectionTypes.includes(name);
+    }
+
+    /**
+     * Check if a type is serialized as a JSON array or object without a class declaration: collections, dictionaries and tuples
+     */
+    private isStructuredType(type: string): boolean {
+        return this.isCollectionType(type) || this.isDictionaryType(type) || !!this.classParser?.getTupleProperties(type);
+    }
+
+    /**
+     * Check if a type is a dictionary type (Dictionary, IDictionary, IReadOnlyDictionary, etc.)
+     */
+    private isDictionaryType(type: string): boolean {
+        const { name, typeArguments } = this.splitGenericType(type.trim().replace(/\?$/, ''));
+        return typeArguments.length === 2 && ApiRequestGenerator.dictionaryTypes.includes(name);
+    }
+
+    /**
+     * Element type of a collection or value type of a dictionary, one level deep
+     * (e.g., List<List<User>> -> List<User>, User[] -> User, Dictionary<string, User> -> User)
+     */
+    private getCollectionItemType(type: string): string {
+        const cleanType = type.trim().replace(/\?$/, '');
+        if (cleanType.endsWith('[]')) {
+            return cleanType.slice(0, -2);
+        }
+        const { typeArguments } = this.splitGenericType(cleanType);
+        return typeArguments.length > 0 ? typeArguments[typeArguments.length - 1] : cleanType;
+    }
+
+    /**
+     * Innermost element type of nested collections and dictionaries (e.g., Dictionary<string, List<User>> -> User)
+     */
+    private getElementType(type: string): string {
+        let current = type.trim().replace(/\?$/, '');
+        while (this.isCollectionType(current) || this.isDictionaryType(current)) {
+            current = this.getCollectionItemType(current).replace(/\?$/, '');
+        }
+        return current;
+    }
+
+    /**
+     * Put a generated element into the JSON shape of its declared container type:
+     * List<Order> -> [order], HashSet<List<Order>> -> [[order]], Dictionary<Guid, Order> -> { "<guid>": order }
+     * @param keyEnumValues Enum members to use as the key when the dictionary is keyed by an enum
+     */
+    private wrapInContainers(type: string, element: any, keyEnumValues?: string[]): any {
+        if (this.isCollectionType(type)) {
+            return [this.wrapInContainers(this.getCollectionItemType(type), element, keyEnumValues)];
+        }
+        if (this.isDictionaryType(type)) {
+            const [keyType, valueType] = this.splitGenericType(type.trim().replace(/\?$/, '')).typeArguments;
+            const key = keyEnumValues && keyEnumValues.length > 0 ? keyEnumValues[0] : this.generateDictionaryKey(keyType);
+            return { [key]: this.wrapInContainers(valueType, element, keyEnumValues) };
+        }
+        return element;
+    }
+
+    /**
+     * JSON property name the serializers accept for a dictionary key of the given type
+     */
+    private generateDictionaryKey(keyType: string): string {
+        // Numbers, GUIDs and dates are written as their string form: { "42": ... }, { "550e8400-...": ... }
+        const cleanType = keyType.trim().replace(/\?$/, '').toLowerCase();
+        if (cleanType === 'string' || cleanType === 'object') {
+            return 'key1';
+        }
+        if (cleanType === 'char') {
+            return 'a';
+        }
+        return String(this.generateSampleValueByType(keyType));
+    }
+
+    /**
+     * Split a generic type into its simple name and type arguments (e.g., System.Collections.Generic.Dictionary<string, List<int>> -> Dictionary, [string, List<int>])
+     */
+    private splitGenericType(type: string): { name: string; typeArguments: string[] } {
+        const open = type.indexOf('<');
+        if (open === -1 || !type.endsWith('>')) {
+            return { name: type.split('.').pop() || type, typeArguments: [] };
+        }
+
+        const typeArguments: string[] = [];
+        let depth = 0;
+        let start = open + 1;
+        for (let i = open + 1; i < type.length - 1; i++) {
+            if (type[i] === '<' || type[i] === '(') {
+                depth++;
+            } else if (type[i] === '>' || type[i] === ')') {
+                depth--;
+            } else if (type[i] === ',' && depth === 0) {
+                typeArguments.push(type.substring(start, i).trim());
+                start = i + 1;
+            }
+        }
+        typeArguments.push(type.substring(start, type.length - 1).trim());
+
+        return { name: type.substring(0, open).trim().split('.').pop()!, typeArguments };
     }
 
     /**
@@ -375,7 +863,7 @@ export class ApiRequestGenerator {
             'string', 'int', 'long', 'short', 'byte',
             'uint', 'ulong', 'ushort', 'sbyte',
             'double', 'float', 'decimal',
-            'bool', 'boolean', 'DateTime', 'DateTimeOffset',
+            'bool', 'boolean', 'DateTime', 'DateTimeOffset', 'DateOnly', 'TimeOnly', 'TimeSpan',
             'Guid', 'char', 'object'
         ];
 
@@ -390,10 +878,17 @@ export class ApiRequestGenerator {
     }
 
     private generateComplexObject(type: string): any {
-        // Handle array types
-        if (type.includes('[]') || type.includes('List<') || type.includes('IEnumerable<')) {
-            const innerType = this.extractInnerType(type.replace('[]', ''));
-            return [this.generateSampleValueByType(innerType)];
+        // Handle collections and dictionaries: one element in the declared shape
+        if (this.isCollectionType(type) || this.isDictionaryType(type)) {
+            const elementType = this.getElementType(type);
+            const element = this.isSimpleType(elementType) ? this.generateSampleValueByType(elementType) : this.generateComplexObject(elementType);
+            return this.wrapInContainers(type, element);
+        }
+
+        // Tuples serialize as { "Item1": ..., "Item2": ... }, KeyValuePair as { "Key": ..., "Value": ... }
+        const tupleProperties = this.classParser?.getTupleProperties(type);
+        if (tupleProperties) {
+            return this.generateObjectFromProperties(tupleProperties);
         }
 
         // Handle common simple object types
@@ -438,15 +933,99 @@ export class ApiRequestGenerator {
         return sampleObject;
     }
 
-    private generateSampleValue(type: string, propertyName: string): any {
-        // Try to generate based on property name first
+    private generateSampleValue(type: string, propertyName: string, validation?: PropertyValidation): any {
+        // The declared type comes first; a name hint is only used when it is a value of that type,
+        // so a Guid OrderId stays a Guid and a DateTime ValidFrom a date
         const nameBasedValue = this.generateSampleValueByPropertyName(propertyName);
-        if (nameBasedValue !== null) {
-            return nameBasedValue;
+        const value = nameBasedValue !== null && this.isSampleValueOfType(nameBasedValue, type)
+            ? nameBasedValue
+            : this.generateSampleValueByType(type);
+
+        return validation ? this.applyValidationRules(value, type, validation) : value;
+    }
+
+    /**
+     * Adjust a sample value so DataAnnotations model validation accepts it:
+     * [EmailAddress]/[Url]/[Phone]/[CreditCard] formats, [RegularExpression], string lengths and [Range]
+     */
+    private applyValidationRules(value: any, type: string, validation: PropertyValidation): any {
+        const isString = typeof value === 'string';
+        let result = value;
+
+        if (validation.pattern !== undefined) {
+            const sample = RegexSampleGenerator.generate(validation.pattern, !validation.partialMatch);
+            if (sample !== undefined) {
+                return sample;
+            }
+            console.warn(`[ApiRequestGenerator] ⚠️ Could not generate a value for pattern ${validation.pattern}`);
+        }
+
+        if (isString) {
+            switch (validation.format) {
+                case 'email':
+                    result = this.sampleData.email[0];
+                    break;
+                case 'url':
+                    result = this.sampleData.url[0];
+                    break;
+                case 'phone':
+                    result = '+1-555-0123';
+                    break;
+                case 'creditCard':
+                    result = '4111111111111111';
+                    break;
+            }
+
+            // Pad or cut to [StringLength] / [MinLength] / [MaxLength]
+            if (validation.minLength !== undefined && result.length < validation.minLength) {
+                result = result.padEnd(validation.minLength, 'x');
+            }
+            if (validation.maxLength !== undefined && result.length > validation.maxLength) {
+                result = result.substring(0, validation.maxLength);
+            }
         }
 
-        // Fall back to type-based generation
-        return this.generateSampleValueByType(type);
+        if (typeof result === 'number' && !this.isWithinRange(result, validation)) {
+            // Nearest bound, the next whole number inside an exclusive bound, or the middle of the range
+            const isInteger = !/^(double|float|decimal|single)\??$/i.test(type.trim());
+            const { minimum, maximum } = validation;
+            const middle = minimum !== undefined && maximum !== undefined ? (minimum + maximum) / 2 : undefined;
+            const candidates = minimum !== undefined && result < minimum
+                ? [minimum, Math.floor(minimum) + 1, middle]
+                : [maximum, maximum !== undefined ? Math.ceil(maximum) - 1 : undefined, middle];
+            const valid = candidates.find(candidate =>
+                candidate !== undefined && (!isInteger || Number.isInteger(candidate)) && this.isWithinRange(candidate, validation));
+            if (valid !== undefined) {
+                result = valid;
+            }
+        }
+
+        return result;
+    }
+
+    private isWithinRange(value: number, validation: PropertyValidation): boolean {
+        const { minimum, maximum } = validation;
+        return (minimum === undefined || (validation.exclusiveMinimum ? value > minimum : value >= minimum)) &&
+            (maximum === undefined || (validation.exclusiveMaximum ? value < maximum : value <= maximum));
+    }
+
+    /**
+     * Whether a name-based sample fits the declared type; types without a JSON number or string of their own
+     * (Guid, dates and times, bool, byte[]) only take their type-based sample. Unknown types accept any sample
+     */
+    private isSampleValueOfType(value: any, type: string): boolean {
+        const cleanType = type.toLowerCase().replace('?', '').trim();
+
+        if (['string', 'char'].includes(cleanType)) {
+            return typeof value === 'string';
+        }
+        if (['int', 'int16', 'int32', 'int64', 'long', 'short', 'byte', 'sbyte', 'uint', 'ulong', 'ushort'].includes(cleanType)) {
+            return Number.isInteger(value);
+        }
+        if (['double', 'float', 'decimal', 'single'].includes(cleanType)) {
+            return typeof value === 'number';
+        }
+        return !['bool', 'boolean', 'guid', 'byte[]', 'dateonly', 'timeonly', 'timespan'].includes(cleanType) && !cleanType.includes('datetime');
     }
 
     private generateSampleValueByPropertyName(propertyName: string): any {
@@ -526,19 +1105,23 @@ export class ApiRequestGenerator {
     private generateSampleValueByType(type: string): any {
         const cleanType = type.toLowerCase().replace('?', '');
 
+        if (cleanType === 'byte[]') {
+            return 'AQIDBA=='; // Base64, as System.Text.Json and Json.NET expect for byte arrays
+        }
+
         if (cleanType === 'string') {
             return this.sampleData.string[0];
         }
 
-        if (['int', 'int32', 'int64', 'long', 'short', 'byte', 'uint', 'ulong', 'ushort'].includes(cleanType)) {
+        if (['int', 'int16', 'int32', 'int64', 'long', 'short', 'byte', 'sbyte', 'uint', 'ulong', 'ushort'].includes(cleanType)) {
             return this.sampleData.number[0];
         }
 
-        if (['double', 'float', 'decimal'].includes(cleanType)) {
+        if (['double', 'float', 'decimal', 'single'].includes(cleanType)) {
             return this.sampleData.number[5]; // 3.14
         }
 
-        if (cleanType === 'bool') {
+        if (cleanType === 'bool' || cleanType === 'boolean') {
             return this.sampleData.boolean[0];
         }
 
@@ -550,6 +1133,14 @@ export class ApiRequestGenerator {
             return this.sampleData.date[0];
         }
 
+        if (cleanType === 'dateonly') {
+            return this.sampleData.date[0].substring(0, 10);
+        }
+
+        if (cleanType === 'timeonly' || cleanType === 'timespan') {
+            return '12:30:00';
+        }
+
         // Default to string for unknown types
         return this.sampleData.string[0];
     }
@@ -1,17 +1,27 @@
 import * as vscode from 'vscode';
 import { ApiEndpointInfo, ApiEndpointDetector } from './apiEndpointDetector';
-import { ApiRequestGenerator, GeneratedRequest } from './apiRequestGenerator';
+import { ApiRequestGenerator, GeneratedRequest, RequestValues } from './apiRequestGenerator';
 import { EnvironmentManager, Environment } from './environmentManager';
 import { AIService } from './aiService';
 import axios, { AxiosError } from 'axios';
 import { ParameterStorage, SavedApiParameters } from './parameterStorage';
+import { ResponseContractReport, ResponseContractValidator } from './responseContractValidator';
+import { JsonSerializerProfile, JsonSerializerProfiles } from './jsonSerializerProfile';
+import { ClassProperty, PropertyValidation } from './csharpClassParser';
 
 export class ApiTestPanel {
     private static panels: Map<string, ApiTestPanel> = new Map();
     public static readonly viewType = 'apiTestPanel';
 
     public static getPanelKey(endpoint?: ApiEndpointInfo): string {
-        return endpoint ? `${endpoint.method}-${endpoint.route}` : 'default';
+        if (!endpoint) {
+            return 'default';
+        }
+        // Versions sent as query/header share a route, keep their panels apart
+        const version = endpoint.apiVersion && !endpoint.apiVersionInRoute ? `-v${endpoint.apiVersion}` : '';
+        // Razor Pages handlers of one page share its route as well
+        const handler = endpoint.pageHandler ? `?handler=${endpoint.pageHandler}` : '';
+        return `${endpoint.method}-${endpoint.route}${handler}${version}`;
     }
 
     public static disposePanel(panelKey: string): void {
@@ -38,11 +48,14 @@ export class ApiTestPanel {
 
     private _parsingCancelled: boolean = false;
     private _sourceDocument: vscode.TextDocument | undefined;
+    private _sourceUri: vscode.Uri | undefined; // File the endpoint was detected in, when opened outside its editor (explorer, URL search)
     private _savedParameters: SavedApiParameters | undefined;
     private _allowBodyTemplateOverwrite: boolean = false;
     private _bodyTemplateUpdatePending: boolean = false;
     private _bodyTemplateUpdateReason: string | null = null;
     private _skipSavedUrlOnNextUpdate: boolean = false;
+    private _requestValues: RequestValues | undefined; // Values from a resolved URL, applied on the next render only
+    private _serializerProfile: JsonSerializerProfile = JsonSerializerProfiles.resolve();
 
     private loadSavedParametersForEnvironment(environment: Environment): void {
         if (!this._currentEndpoint) {
@@ -234,12 +247,13 @@ export class ApiTestPanel {
                 body: bodyWithComments || '// 请手动填写请求体'
             });
         }
+        this.postFieldDocumentation();
 
         this._allowBodyTemplateOverwrite = false;
         this.clearBodyTemplateUpdateState('cached-template');
     }
 
-    public static createOrShow(extensionUri: vscode.Uri, detector: ApiEndpointDetector, endpoint?: ApiEndpointInfo) {
+    public static createOrShow(extensionUri: vscode.Uri, detector: ApiEndpointDetector, endpoint?: ApiEndpointInfo, requestValues?: RequestValues, sourceUri?: vscode.Uri) {
         console.log('[ApiTestPanel] 🎯 createOrShow called with endpoint:', endpoint?.route, 'detector provided:', !!detector);
 
         const column = vscode.window.activeTextEditor
@@ -279,6 +293,8 @@ export class ApiTestPanel {
                     }
                 }
                 existingPanel._currentEndpoint = endpoint;
+                existingPanel._requestValues = requestValues;
+                existingPanel._sourceUri = sourceUri;
                 existingPanel.updateContent();
             }
             return;
@@ -286,7 +302,7 @@ export class ApiTestPanel {
 
         // Create title with endpoint info
         const title = endpoint
-            ? `${endpoint.method} ${endpoint.route}`
+            ? `${endpoint.method} ${endpoint.route}${endpoint.pageHandler ? `?handler=${endpoint.pageHandler}` : ''}${endpoint.apiVersion && !endpoint.apiVersionInRoute ? ` (v${endpoint.apiVersion})` : ''}`
             : 'API Test Panel';
 
         // Create a new panel
@@ -303,7 +319,7 @@ export class ApiTestPanel {
 
         panel.iconPath = vscode.Uri.joinPath(extensionUri, 'media', 'rocket.svg');
 
-        const apiTestPanel = new ApiTestPanel(panel, extensionUri, endpoint, panelKey, detector);
+        const apiTestPanel = new ApiTestPanel(panel, extensionUri, endpoint, panelKey, detector, requestValues, sourceUri);
         ApiTestPanel.panels.set(panelKey, apiTestPanel);
     }
 
@@ -312,11 +328,15 @@ export class ApiTestPanel {
         _extensionUri: vscode.Uri,
         endpoint: ApiEndpointInfo | undefined,
         panelKey: string,
-        detector: ApiEndpointDetector
+        detector: ApiEndpointDetector,
+        requestValues?: RequestValues,
+        sourceUri?: vscode.Uri
     ) {
         this._panel = panel;
         this._extensionUri = _extensionUri;
         this._currentEndpoint = endpoint;
+        this._requestValues = requestValues;
+        this._sourceUri = sourceUri;
         this._panelKey = panelKey;
         // ⭐ CRITICAL: Always use the provided detector to maintain cache consistency
         if (!detector) {
@@ -441,8 +461,10 @@ export class ApiTestPanel {
             this.clearBodyTemplateUpdateState('updateContent');
         }
 
-        // 保存当前的 document 供后续解析使用
-        this._sourceDocument = vscode.window.activeTextEditor?.document;
+        // 保存当前的 document 供后续解析使用（没有端点所在文件的 URI 时）
+        if (!this._sourceUri) {
+            this._sourceDocument = vscode.window.activeTextEditor?.document;
+        }
 
         const fullBaseUrl = currentEnvironment.baseUrl;
         const fullHeaders = currentEnvironment.headers;
@@ -467,8 +489,18 @@ export class ApiTestPanel {
         // 如果有缓存的错误,则初始渲染时也包含错误信息(skipErrors = false)
         const skipErrors = !hasCachedErrors;
         console.log(`[ApiTestPanel] Initial render with skipErrors = ${skipErrors}`);
-        const generatedRequest = this._requestGenerator.generateRequestForEnvironment(this._currentEndpoint, currentEnvironment, skipErrors);
+        const requestValues = this._requestValues;
+        this._requestValues = undefined;
+        const generatedRequest = this._requestGenerator.generateRequestForEnvironment(this._currentEndpoint, currentEnvironment, skipErrors, requestValues);
+
+        // Values from a resolved URL win over the saved URL and query
+        if (requestValues) {
+            this._skipSavedUrlOnNextUpdate = true;
+        }
         const mergedRequest = this.mergeSavedParameters(generatedRequest);
+        if (requestValues) {
+            mergedRequest.queryParams = { ...mergedRequest.queryParams, ...requestValues.queryParams };
+        }
 
         // Render complete UI immediately (no full-screen loading)
         this._panel.webview.html = this.getTestPanelHtml(this._currentEndpoint, mergedRequest, fullHeaders, currentEnvironment, this._savedParameters);
@@ -561,8 +593,8 @@ export class ApiTestPanel {
             message: '正在解析参数类型...'
         });
 
-        // 使用保存的 document 而不是 activeTextEditor.document
-        const document = this._sourceDocument;
+        // 使用端点所在的 document 而不是 activeTextEditor.document
+        const document = await this.getSourceDocument();
         if (!document) {
             console.log('[ApiTestPanel] ⚠️ No source document available');
             this._panel.webview.postMessage({
@@ -573,6 +605,10 @@ export class ApiTestPanel {
             return;
         }
 
+        // JSON names and enum values follow the project's serializer setup
+        this._serializerProfile = await this.resolveSerializerProfile(document);
+        this._requestGenerator.setSerializerProfile(this._serializerProfile);
+
         // ⭐ CRITICAL FIX: Use the shared detector instance passed to the panel to maintain cache across calls
         if (!this._detector) {
             console.error('[ApiTestPanel] ❌ ERROR: No detector instance available! This should never happen with the new constructor.');
@@ -629,7 +665,8 @@ export class ApiTestPanel {
                             type: 'enum',
                             required: true,
                             // Store enum info in a special way
-                            _baseClassWarning: `ENUM_INFO:${enumInfo.firstValue}|${enumInfo.allValues.join(',')}`
+                            _baseClassWarning: `ENUM_INFO:${enumInfo.firstValue}|${enumInfo.allValues.join(',')}`,
+                            enumInfo
                         }];
                     } else {
                         // Not an enum, parse as regular class
@@ -652,7 +689,8 @@ export class ApiTestPanel {
 
                         // Regular class handling
                         if (properties && properties.length > 0) {
-                            param.properties = properties;
+                            // FluentValidation rules of AbstractValidator<T> classes join the DataAnnotations
+                            param.properties = await this._detector.getFluentValidationParser().applyValidators(param.type, properties);
                             console.log(`[ApiTestPanel] ✅ Parsed ${properties.length} properties for ${param.type} (including nested)`);
                         } else {
                             // ⭐ CRITICAL: 解析失败时，设置为空数组，标记为"已解析但失败"
@@ -750,6 +788,7 @@ export class ApiTestPanel {
                     body: bodyWithComments || '// 请手动填写请求体'
                 });
             }
+            this.postFieldDocumentation();
 
             this._allowBodyTemplateOverwrite = false;
             this.clearBodyTemplateUpdateState('parsing');
@@ -859,6 +898,99 @@ export class ApiTestPanel {
         return bodyJsonWithComments;
     }
 
+    /**
+     * Send the documented fields and validation rules of the parsed body type to the Body tab
+     */
+    private postFieldDocumentation(): void {
+        if (this._currentEndpoint) {
+            this._panel.webview.postMessage({
+                type: 'fieldDocs',
+                fields: this.getFieldDocumentation(this._currentEndpoint),
+                rules: this.getBodyValidationRules(this._currentEndpoint)
+            });
+        }
+    }
+
+    /**
+     * Body fields with an XML doc <summary> or <example>, as JSON paths such as lines[].quantity
+     */
+    private getFieldDocumentation(endpoint: ApiEndpointInfo): Array<{ path: string; type: string; description?: string; example?: string }> {
+        const fields: Array<{ path: string; type: string; description?: string; example?: string }> = [];
+        this.visitBodyFields(endpoint, (property, path) => {
+            if (property.description || property.example !== undefined) {
+                fields.push({ path, type: property.type, description: property.description, example: property.example });
+            }
+        });
+        return fields;
+    }
+
+    /**
+     * DataAnnotations rules of body fields, checked by the Body tab before sending
+     */
+    private getBodyValidationRules(endpoint: ApiEndpointInfo): Array<{ path: string; type: string; validation: PropertyValidation }> {
+        const rules: Array<{ path: string; type: string; validation: PropertyValidation }> = [];
+        this.visitBodyFields(endpoint, (property, path) => {
+            if (property.validation) {
+                rules.push({ path, type: property.type, validation: property.validation });
+            }
+            if (property.validation?.items) {
+                rules.push({ path: `${path}[]`, type: property.type, validation: property.validation.items });
+            }
+        });
+        return rules;
+    }
+
+    /**
+     * Walk the parsed body properties with their JSON paths (wire names, lines[] for collection elements)
+     */
+    private visitBodyFields(endpoint: ApiEndpointInfo, visit: (property: ClassProperty, path: string) => void): void {
+        const bodyParams = endpoint.parameters.filter(param => param.source === 'body');
+
+        const collect = (properties: ClassProperty[], prefix: string, depth: number) => {
+            for (const property of properties) {
+                if (property.name === '_enum' || JsonSerializerProfiles.isIgnored(property) || property.jsonExtensionData || property.readOnly) {
+                    continue;
+                }
+                const name = JsonSerializerProfiles.getPropertyName(property, this._serializerProfile);
+                const path = prefix ? `${prefix}.${name}` : name;
+                visit(property, path);
+                if (property.properties && depth < 5) {
+                    const isCollection = /\[\]$|^(List|IList|IEnumerable|ICollection|IReadOnlyList|IReadOnlyCollection)</.test(property.type);
+                    collect(property.properties, isCollection ? `${path}[]` : path, depth + 1);
+                }
+            }
+        };
+
+        for (const param of bodyParams) {
+            if (param.properties) {
+                // Several body parameters are wrapped in one object keyed by parameter name
+                collect(param.properties, bodyParams.length > 1 ? param.name : '', 0);
+            }
+        }
+    }
+
+    /**
+     * Descriptions of query, header and form values by name, from <param> tags and property <summary> tags
+     */
+    private getParameterDescriptions(endpoint: ApiEndpointInfo): Record<string, Record<string, string>> {
+        const descriptions: Record<string, Record<string, string>> = { query: {}, header: {}, form: {} };
+        for (const param of endpoint.parameters) {
+            const target = descriptions[param.source];
+            if (!target) {
+                continue;
+            }
+            if (param.description) {
+                target[param.name] = param.description;
+            }
+            for (const property of param.properties || []) {
+                if (property.description) {
+                    target[property.name] = property.description;
+                }
+            }
+        }
+        return descriptions;
+    }
+
     private escapeHtmlForTextarea(value: string): string {
         if (!value) {
             return '';
@@ -885,6 +1017,11 @@ export class ApiTestPanel {
         let result;
 
         try {
+            // Razor Pages validate an antiforgery token on posts: read one (and its cookie) from the page first
+            if (this._currentEndpoint?.antiforgery && !['GET', 'HEAD'].includes(requestData.method)) {
+                requestData = await this.addAntiforgeryToken(requestData);
+            }
+
             const config: any = {
                 method: requestData.method,
                 url: requestData.url,
@@ -892,8 +1029,17 @@ export class ApiTestPanel {
                 timeout: vscode.workspace.getConfiguration('csharpApiTester').get<number>('timeout', 30000)
             };
 
+            const contentTypeKey = Object.keys(config.headers).find(key => key.toLowerCase() === 'content-type');
+            const contentType: string | undefined = contentTypeKey ? config.headers[contentTypeKey] : undefined;
+
             // Handle form data or body
-            if (requestData.formData && Object.keys(requestData.formData).length > 0) {
+            if (requestData.formData && Object.keys(requestData.formData).length > 0 &&
+                contentType?.toLowerCase().startsWith('application/x-www-form-urlencoded')) {
+                const fields = Object.entries(requestData.formData)
+                    .filter(([, value]) => value !== '[FILE]')
+                    .map(([key, value]): [string, string] => [key, String(value)]);
+                config.data = new URLSearchParams(fields).toString();
+            } else if (requestData.formData && Object.keys(requestData.formData).length > 0) {
                 // For form data, we need to build a proper form-data payload
                 // Note: File uploads are represented as [FILE] placeholders
                 const FormData = require('form-data');
@@ -910,12 +1056,20 @@ export class ApiTestPanel {
 
                 config.data = formDataPayload;
                 // Let form-data set the content-type with boundary
+                if (contentTypeKey) {
+                    delete config.headers[contentTypeKey];
+                }
                 config.headers = {
                     ...config.headers,
                     ...formDataPayload.getHeaders()
                 };
             } else if (['POST', 'PUT', 'PATCH'].includes(requestData.method) && requestData.body) {
-                config.data = requestData.body;
+                // XML and text bodies are edited as JSON and converted for the selected Content-Type
+                const bodyType = this._currentEndpoint?.parameters.find(param => param.source === 'body')?.type;
+                config.data = this._requestGenerator.serializeBody(
+                    requestData.body,
+                    contentType,
+                    bodyType ? this._requestGenerator.getXmlRootElementName(bodyType) : undefined);
             }
 
             console.log(`[ApiTestPanel] Making HTTP request with config:`, config);
@@ -972,13 +1126,124 @@ export class ApiTestPanel {
             }
         }
 
+        // Compare with the declared [ProducesResponseType] contract
+        const contract = await this.validateResponseContract(result.status, result.headers, result.data);
+
         // Send result to frontend
         this._panel.webview.postMessage({
             type: 'testResult',
-            result: result
+            result: result,
+            contract: contract
         });
     }
 
+    /**
+     * GET the page, take the __RequestVerificationToken from its form and the antiforgery cookie from the response,
+     * and send them with the request: as a form field when posting a form, otherwise as the RequestVerificationToken header
+     */
+    private async addAntiforgeryToken(requestData: any): Promise<any> {
+        const pageUrl = String(requestData.url).split('?')[0];
+
+        try {
+            const response = await axios.get(pageUrl, {
+                headers: requestData.headers,
+                responseType: 'text',
+                timeout: vscode.workspace.getConfiguration('csharpApiTester').get<number>('timeout', 30000),
+                validateStatus: () => true
+            });
+
+            const html = typeof response.data === 'string' ? response.data : '';
+            const tokenInput = html.match(/<input[^>]*name="__RequestVerificationToken"[^>]*>/i)?.[0];
+            const token = tokenInput?.match(/value="([^"]*)"/i)?.[1];
+            if (!token) {
+                console.warn(`[ApiTestPanel] ⚠️ No antiforgery token found on ${pageUrl} (status ${response.status})`);
+                return requestData;
+            }
+
+            const headers: Record<string, string> = { ...requestData.headers };
+            const cookies = ((response.headers['set-cookie'] as string[] | undefined) || []).map(cookie => cookie.split(';')[0]);
+            if (cookies.length > 0) {
+                const cookieKey = Object.keys(headers).find(key => key.toLowerCase() === 'cookie');
+                headers[cookieKey || 'Cookie'] = [cookieKey ? headers[cookieKey] : '', ...cookies].filter(Boolean).join('; ');
+            }
+
+            console.log(`[ApiTestPanel] 🛡️ Attached antiforgery token from ${pageUrl}`);
+            if (requestData.formData && Object.keys(requestData.formData).length > 0) {
+                return { ...requestData, headers, formData: { ...requestData.formData, __RequestVerificationToken: token } };
+            }
+            return { ...requestData, headers: { ...headers, RequestVerificationToken: token } };
+        } catch (error) {
+            console.warn(`[ApiTestPanel] ⚠️ Failed to read antiforgery token from ${pageUrl}:`, error);
+            return requestData;
+        }
+    }
+
+    /**
+     * Check the status code against the endpoint's declared responses and diff a JSON body with the declared C# type
+     */
+    /**
+     * Document the endpoint was detected in, opened from its URI when the panel was not started from the endpoint's editor
+     */
+    private async getSourceDocument(): Promise<vscode.TextDocument | undefined> {
+        if (!this._sourceUri) {
+            return this._sourceDocument;
+        }
+        try {
+            return await vscode.workspace.openTextDocument(this._sourceUri);
+        } catch (error) {
+            console.warn(`[ApiTestPanel] ⚠️ Failed to open source document ${this._sourceUri.fsPath}:`, error);
+            return undefined;
+        }
+    }
+
+    private async validateResponseContract(status: number, headers: any, data: any): Promise<ResponseContractReport | undefined> {
+        const responses = this._currentEndpoint?.responses;
+        if (!responses || responses.length === 0 || status === 0) {
+            return undefined;
+        }
+
+        const contentTypeKey = Object.keys(headers || {}).find(key => key.toLowerCase() === 'content-type');
+        const contentType = contentTypeKey ? String(headers[contentTypeKey]) : '';
+        const isJson = !contentType || /[/+]json\b/i.test(contentType);
+        const declared = responses.find(response => response.statusCode === status);
+        // A 200 assumed from ActionResult<T> / Task<T> does not make other status codes undeclared
+        if (!declared && responses.every(response => response.inferred)) {
+            return undefined;
+        }
+
+        let properties = null;
+        const document = await this.getSourceDocument();
+        if (declared?.type && isJson && document && this._detector) {
+            const classParser = this._detector.getClassParser();
+            const elementType = ResponseContractValidator.getElementType(declared.type);
+            try {
+                if (!classParser.isSimpleType(elementType)) {
+                    properties = await classParser.parseClassDefinitionFromWorkspace(elementType, document, true, new Set(), 0, undefined, document);
+                }
+            } catch (error) {
+                console.warn(`[ApiTestPanel] ⚠️ Failed to parse response type ${declared.type}:`, error);
+            }
+        }
+
+        const profile = document ? await this.resolveSerializerProfile(document) : JsonSerializerProfiles.resolve();
+        const report = ResponseContractValidator.validate(responses, status, isJson ? data : undefined, properties, profile);
+        console.log(`[ApiTestPanel] 📜 Response contract: ${report.issues.length} issue(s) for status ${status}`);
+        return report;
+    }
+
+    /**
+     * Serializer profile of the endpoint's project: csharpApiTester.serializer.* settings, then what Program.cs / Startup.cs configures
+     */
+    private async resolveSerializerProfile(document: vscode.TextDocument): Promise<JsonSerializerProfile> {
+        try {
+            const startupConfig = await this._detector?.getStartupConfigDetector().getConfigForDocument(document);
+            return JsonSerializerProfiles.resolve(startupConfig?.serializer);
+        } catch (error) {
+            console.warn('[ApiTestPanel] ⚠️ Failed to read serializer options from startup code:', error);
+            return JsonSerializerProfiles.resolve();
+        }
+    }
+
     private async updateBaseUrl(baseUrl: string) {
         const currentEnvironment = this._environmentManager.getCurrentEnvironment();
         if (currentEnvironment) {
@@ -1131,7 +1396,12 @@ export class ApiTestPanel {
                 parameters: this._currentEndpoint.parameters.map(p =>
                     `${p.type} ${p.name}${p.source === 'body' ? ' [FromBody]' : p.source === 'query' ? ' [FromQuery]' : ''}`
                 ),
-                comments: [],
+                comments: [
+                    this._currentEndpoint.summary,
+                    ...this._currentEndpoint.parameters
+                        .filter(p => p.description)
+                        .map(p => `${p.name}: ${p.description}`)
+                ].filter((comment): comment is string => !!comment),
                 classProperties: [],
                 classDefinitions: []  // New: full class definitions
             };
@@ -1140,7 +1410,8 @@ export class ApiTestPanel {
             const bodyParam = this._currentEndpoint.parameters.find(p => p.source === 'body');
             if (bodyParam) {
                 if (bodyParam.properties) {
-                    apiContext.classProperties = bodyParam.properties;
+                    // Getter-only and computed properties cannot be sent
+                    apiContext.classProperties = bodyParam.properties.filter(property => !property.readOnly);
                 }
                 if (bodyParam.classDefinition) {
                     apiContext.classDefinitions.push({
@@ -1371,6 +1642,38 @@ export class ApiTestPanel {
         const hasQueryParam = endpoint.parameters.some(p => p.source === 'query') || Object.keys(request.queryParams).length > 0;
         const hasHeaderParam = endpoint.parameters.some(p => p.source === 'header');
 
+        // Media type choice when the endpoint declares several with [Consumes]/[Produces]
+        const renderMediaTypeSelect = (id: string, label: string, mediaTypes: string[], selected: string | undefined) => mediaTypes.length > 1
+            ? `<span class="env-label">${label}:</span>
+            <select id="${id}" class="env-select">
+                ${mediaTypes.map(mediaType => `<option value="${this.escapeHtmlForTextarea(mediaType)}" ${mediaType === selected ? 'selected' : ''}>${this.escapeHtmlForTextarea(mediaType)}</option>`).join('')}
+            </select>`
+            : '';
+        const mediaTypeSelectsHtml =
+            renderMediaTypeSelect('content-type-select', 'Content-Type', hasBodyParam || hasFormParam ? endpoint.consumes || [] : [], request.headers['Content-Type']) +
+            renderMediaTypeSelect('accept-select', 'Accept', endpoint.produces || [], request.headers['Accept']);
+
+        // Lock badge for endpoints behind [Authorize] / RequireAuthorization()
+        const authorizationHtml = endpoint.authorization
+            ? `<span class="auth-badge" title="${this.escapeHtmlForTextarea(ApiEndpointDetector.describeAuthorization(endpoint.authorization))}">🔒 ${this.escapeHtmlForTextarea(ApiEndpointDetector.describeAuthorization(endpoint.authorization))}</span>
+            <span class="env-label">${request.authProfile
+                ? `Auth profile: ${this.escapeHtmlForTextarea(request.authProfile)}`
+                : `No matching auth profile in ${this.escapeHtmlForTextarea(_currentEnvironment.name)}`}</span>`
+            : '';
+
+        // XML doc comments: summary, route parameters and the documented return value
+        const documentedPathParams = endpoint.parameters.filter(param => param.source === 'path' && param.description);
+        const documentationHtml = [
+            endpoint.summary ? `<span class="doc-summary">${this.escapeHtmlForTextarea(endpoint.summary)}</span>` : '',
+            ...documentedPathParams.map(param =>
+                `<span class="env-label"><code>{${this.escapeHtmlForTextarea(param.name)}}</code> ${this.escapeHtmlForTextarea(param.description!)}</span>`),
+            endpoint.returnsDescription ? `<span class="env-label">Returns: ${this.escapeHtmlForTextarea(endpoint.returnsDescription)}</span>` : ''
+        ].filter(html => html).join('\n            ');
+        // '<' is escaped so descriptions cannot close the script element
+        const parameterDescriptionsJson = JSON.stringify(this.getParameterDescriptions(endpoint)).replace(/</g, '\\u003c');
+        const fieldDocsJson = JSON.stringify(this.getFieldDocumentation(endpoint)).replace(/</g, '\\u003c');
+        const bodyValidationRulesJson = JSON.stringify(this.getBodyValidationRules(endpoint)).replace(/</g, '\\u003c');
+
         // Generate environment options HTML
         const allEnvironments = this._environmentManager.getAllEnvironments();
         const environmentOptionsHtml = allEnvironments.map(env =>
@@ -1481,6 +1784,56 @@ export class ApiTestPanel {
             color: var(--vscode-descriptionForeground);
         }
 
+        /* Media Types / Authorization */
+        .media-type-bar,
+        .auth-bar,
+        .doc-bar {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 6px 20px;
+            background: var(--vscode-editor-background);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            font-size: 13px;
+        }
+
+        .doc-bar {
+            flex-wrap: wrap;
+            gap: 4px 16px;
+        }
+
+        .doc-summary {
+            font-weight: 600;
+            white-space: pre-line;
+        }
+
+        .field-docs {
+            margin-top: 8px;
+            font-size: 12px;
+        }
+
+        .field-docs summary {
+            cursor: pointer;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .field-docs td {
+            padding: 4px 8px;
+            vertical-align: top;
+        }
+
+        .field-docs td:first-child {
+            font-family: var(--vscode-editor-font-family);
+            white-space: nowrap;
+        }
+
+        .auth-badge {
+            padding: 2px 8px;
+            border-radius: 3px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+
         .env-select {
             background: var(--vscode-dropdown-background);
             color: var(--vscode-dropdown-foreground);
@@ -1858,6 +2211,28 @@ export class ApiTestPanel {
             margin-right: 6px;
         }
 
+        /* DataAnnotations problems found in the body */
+        .body-validation-message {
+            display: none;
+            padding: 8px 15px;
+            margin-top: 5px;
+            background-color: rgba(204, 167, 0, 0.1);
+            border: 1px solid #CCA700;
+            border-radius: 4px;
+            color: var(--vscode-editorWarning-foreground, #CCA700);
+            font-size: 12px;
+            font-family: 'Consolas', 'Monaco', monospace;
+        }
+
+        .body-validation-message.visible {
+            display: block;
+        }
+
+        .body-validation-message ul {
+            margin: 4px 0 0 0;
+            padding-left: 20px;
+        }
+
         .format-button, .ai-button {
             background: var(--vscode-button-secondaryBackground);
             color: var(--vscode-button-secondaryForeground);
@@ -2180,6 +2555,20 @@ export class ApiTestPanel {
             border-left: 4px solid #F93E3E;
         }
 
+        .contract-issues {
+            margin-bottom: 12px;
+            padding: 10px 15px;
+            border-left: 4px solid var(--vscode-editorWarning-foreground);
+            background: var(--vscode-inputValidation-warningBackground);
+            border-radius: 4px;
+            font-size: 13px;
+        }
+
+        .contract-issues ul {
+            margin: 6px 0 0;
+            padding-left: 20px;
+        }
+
         .status-item {
             display: flex;
             align-items: center;
@@ -2331,6 +2720,21 @@ export class ApiTestPanel {
             <button class="settings-button" onclick="openSettings()" title="Settings">⚙️</button>
         </div>
 
+        ${documentationHtml ? `<!-- Documentation -->
+        <div class="doc-bar">
+            ${documentationHtml}
+        </div>` : ''}
+
+        ${authorizationHtml ? `<!-- Authorization -->
+        <div class="auth-bar">
+            ${authorizationHtml}
+        </div>` : ''}
+
+        ${mediaTypeSelectsHtml ? `<!-- Media Types -->
+        <div class="media-type-bar">
+            ${mediaTypeSelectsHtml}
+        </div>` : ''}
+
         <!-- Request Tabs -->
         <div class="tabs-container">
             <div class="tab-nav">
@@ -2427,7 +2831,17 @@ export class ApiTestPanel {
                             <span class="json-error-icon">⚠️</span>
                             <span id="json-error-text"></span>
                         </div>
+                        <div id="body-validation-message" class="body-validation-message">
+                            <span class="json-error-icon">⚠️</span>Model validation would reject these fields:
+                            <ul id="body-validation-list"></ul>
+                        </div>
                     </div>
+                    <details class="field-docs" id="field-docs" open style="display: none;">
+                        <summary>Field documentation</summary>
+                        <table>
+                            <tbody id="field-docs-body"></tbody>
+                        </table>
+                    </details>
                 </div>
             </div>
         </div>
@@ -2447,6 +2861,10 @@ export class ApiTestPanel {
                     <strong>Size:</strong>
                     <span id="response-size">0 B</span>
                 </div>
+                <div class="status-item" id="contract-status" style="display: none;">
+                    <strong>Contract:</strong>
+                    <span></span>
+                </div>
             </div>
 
             <div class="response-tabs">
@@ -2529,6 +2947,8 @@ export class ApiTestPanel {
         let queryParams = ${queryParamsJson};
         let headers = ${headersJson};
         let formData = ${formDataJson || '{}'};
+        const parameterDescriptions = ${parameterDescriptionsJson};
+        let bodyValidationRules = ${bodyValidationRulesJson};
         const baseUrl = '${urlWithoutQuery}';
         const savedParameters = ${savedStateJson};
         let currentEditingParam = null; // For value editor
@@ -2582,7 +3002,10 @@ export class ApiTestPanel {
             renderQueryParams();
             renderHeaders();
             renderFormFields();
+            renderFieldDocs(${fieldDocsJson});
             updateUrlFromQueryParams();
+            bindMediaTypeSelect('content-type-select', 'Content-Type');
+            bindMediaTypeSelect('accept-select', 'Accept');
 
             // 绑定取消解析按钮事件
             const cancelBtn = document.getElementById('body-parsing-cancel-btn');
@@ -2771,6 +3194,30 @@ export class ApiTestPanel {
             });
         }
 
+        // Keep a media type dropdown and its header in sync (saved headers win on load)
+        function bindMediaTypeSelect(selectId, headerName) {
+            const select = document.getElementById(selectId);
+            if (!select) {
+                return;
+            }
+
+            const findHeaderKey = () => Object.keys(headers).find(key => key.toLowerCase() === headerName.toLowerCase());
+            const currentKey = findHeaderKey();
+            if (currentKey && Array.from(select.options).some(option => option.value === headers[currentKey])) {
+                select.value = headers[currentKey];
+            }
+
+            select.addEventListener('change', () => {
+                const existingKey = findHeaderKey();
+                if (existingKey) {
+                    delete headers[existingKey];
+                }
+                headers[headerName] = select.value;
+                renderHeaders();
+                scheduleAutoSave();
+            });
+        }
+
         // Headers rendering
         function renderHeaders() {
             const tbody = document.getElementById('headers-params-body');
@@ -2821,6 +3268,7 @@ export class ApiTestPanel {
                     <span class="action-icon" onclick="deleteFormField('\${key}')" title="Delete">🗑️</span>
                 </td>
             \`;
+            tr.children[4].querySelector('input').value = describeParam('form', key);
             return tr;
         }
 
@@ -2873,6 +3321,35 @@ export class ApiTestPanel {
             scheduleAutoSave();
         }
 
+        // Description from the action's XML doc comment (names compare case-insensitively)
+        function describeParam(type, key) {
+            const descriptions = parameterDescriptions[type] || {};
+            const name = Object.keys(descriptions).find(candidate => candidate.toLowerCase() === String(key).toLowerCase());
+            return name ? descriptions[name] : '';
+        }
+
+        // Documented body fields below the editor
+        function renderFieldDocs(fields) {
+            const container = document.getElementById('field-docs');
+            const tbody = document.getElementById('field-docs-body');
+            if (!container || !tbody) {
+                return;
+            }
+
+            tbody.innerHTML = '';
+            (fields || []).forEach(field => {
+                const tr = document.createElement('tr');
+                const description = (field.description || '') + (field.example !== undefined && field.example !== null ? ' (e.g. ' + field.example + ')' : '');
+                [field.path, field.type, description].forEach(text => {
+                    const td = document.createElement('td');
+                    td.textContent = text;
+                    tr.appendChild(td);
+                });
+                tbody.appendChild(tr);
+            });
+            container.style.display = fields && fields.length > 0 ? 'block' : 'none';
+        }
+
         // Create param row
         function createParamRow(key, value, type) {
             const tr = document.createElement('tr');
@@ -2888,6 +3365,7 @@ export class ApiTestPanel {
                     <span class="action-icon" onclick="deleteParam('\${type}', '\${key}')" title="Delete">🗑️</span>
                 </td>
             \`;
+            tr.children[3].querySelector('input').value = describeParam(type, key);
             return tr;
         }
 
@@ -3019,22 +3497,25 @@ export class ApiTestPanel {
             if (jsonString === '') {
                 textarea.classList.remove('valid', 'invalid');
                 errorMessage.classList.remove('visible');
+                renderBodyValidation([]);
                 return;
             }
 
             try {
                 // 尝试解析 JSON
-                JSON.parse(jsonString);
+                const parsedBody = JSON.parse(jsonString);
 
                 // 解析成功
                 textarea.classList.remove('invalid');
                 textarea.classList.add('valid');
                 errorMessage.classList.remove('visible');
+                renderBodyValidation(checkBodyValidationRules(parsedBody));
 
             } catch (error) {
                 // 解析失败
                 textarea.classList.remove('valid');
                 textarea.classList.add('invalid');
+                renderBodyValidation([]);
 
                 // 提取错误信息
                 let errorMsg = error.message;
@@ -3056,6 +3537,141 @@ export class ApiTestPanel {
             }
         }
 
+        // [Required], [StringLength], [Range], [RegularExpression], ... of body fields, as "path: problem"
+        function checkBodyValidationRules(body) {
+            const problems = [];
+            (bodyValidationRules || []).forEach(rule => {
+                collectFieldValues(body, rule.path.split('.'), '').forEach(field => {
+                    const problem = describeRuleViolation(rule.validation, field.value, field.present);
+                    if (problem) {
+                        problems.push(field.path + ': ' + problem);
+                    }
+                });
+            });
+            return problems;
+        }
+
+        // Values at a path such as lines[].quantity: every array element is visited
+        function collectFieldValues(value, segments, path) {
+            if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+                return [];
+            }
+
+            const segment = segments[0];
+            const isCollection = segment.endsWith('[]');
+            const key = isCollection ? segment.slice(0, -2) : segment;
+            const keys = Object.keys(value);
+            const name = keys.includes(key) ? key : keys.find(candidate => candidate.toLowerCase() === key.toLowerCase());
+            const fieldPath = path ? path + '.' + (name || key) : (name || key);
+
+            if (segments.length === 1 && isCollection) {
+                // tags[]: rules for every element
+                return name !== undefined && Array.isArray(value[name])
+                    ? value[name].map((item, index) => ({ path: fieldPath + '[' + index + ']', value: item, present: true }))
+                    : [];
+            }
+            if (segments.length === 1) {
+                return [{ path: fieldPath, value: name === undefined ? undefined : value[name], present: name !== undefined }];
+            }
+            if (name === undefined) {
+                return [];
+            }
+            if (isCollection && Array.isArray(value[name])) {
+                return value[name].flatMap((item, index) => collectFieldValues(item, segments.slice(1), fieldPath + '[' + index + ']'));
+            }
+            return collectFieldValues(value[name], segments.slice(1), fieldPath);
+        }
+
+        function describeRuleViolation(validation, value, present) {
+            const isEmpty = !present || value === null ||
+                (typeof value === 'string' && !validation.allowEmptyStrings && value.trim() === '');
+            if (isEmpty) {
+                // Other attributes accept missing values
+                return validation.required ? 'is required' : '';
+            }
+
+            const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+            if (length !== undefined && validation.minLength !== undefined && length < validation.minLength) {
+                return 'length ' + length + ' is less than the minimum of ' + validation.minLength;
+            }
+            if (length !== undefined && validation.maxLength !== undefined && length > validation.maxLength) {
+                return 'length ' + length + ' is more than the maximum of ' + validation.maxLength;
+            }
+
+            if (validation.minimum !== undefined || validation.maximum !== undefined) {
+                const number = typeof value === 'number' ? value : (typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN);
+                const belowMinimum = validation.minimum !== undefined &&
+                    (validation.exclusiveMinimum ? number <= validation.minimum : number < validation.minimum);
+                const aboveMaximum = validation.maximum !== undefined &&
+                    (validation.exclusiveMaximum ? number >= validation.maximum : number > validation.maximum);
+                if (!isNaN(number) && (belowMinimum || aboveMaximum)) {
+                    return 'must be ' + (validation.exclusiveMinimum ? '> ' : '>= ') + (validation.minimum ?? '-∞') +
+                        ' and ' + (validation.exclusiveMaximum ? '< ' : '<= ') + (validation.maximum ?? '∞');
+                }
+            }
+
+            if (typeof value !== 'string') {
+                return '';
+            }
+            if (validation.pattern !== undefined) {
+                try {
+                    const pattern = validation.partialMatch ? validation.pattern : '^(?:' + validation.pattern + ')$';
+                    if (!new RegExp(pattern).test(value)) {
+                        return 'does not match ' + validation.pattern;
+                    }
+                } catch (error) {
+                    // .NET-only pattern syntax: not checked here
+                }
+            }
+
+            switch (validation.format) {
+                case 'email': {
+                    // EmailAddressAttribute: exactly one "@", neither first nor last
+                    const at = value.indexOf('@');
+                    return at > 0 && at === value.lastIndexOf('@') && at < value.length - 1 ? '' : 'is not a valid e-mail address';
+                }
+                case 'url':
+                    return /^(https?|ftp):[/][/]/i.test(value) ? '' : 'must be an absolute http, https or ftp URL';
+                case 'phone':
+                    return /^[+]?[0-9 ().-]*[0-9][0-9 ().-]*$/.test(value) ? '' : 'is not a valid phone number';
+                case 'creditCard':
+                    return isLuhnValid(value.replace(/[- ]/g, '')) ? '' : 'is not a valid credit card number';
+                default:
+                    return '';
+            }
+        }
+
+        function isLuhnValid(digits) {
+            if (!/^[0-9]+$/.test(digits)) {
+                return false;
+            }
+            let sum = 0;
+            for (let i = 0; i < digits.length; i++) {
+                let digit = Number(digits[digits.length - 1 - i]);
+                if (i % 2 === 1) {
+                    digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+                }
+                sum += digit;
+            }
+            return sum % 10 === 0;
+        }
+
+        function renderBodyValidation(problems) {
+            const message = document.getElementById('body-validation-message');
+            const list = document.getElementById('body-validation-list');
+            if (!message || !list) {
+                return;
+            }
+
+            list.innerHTML = '';
+            problems.forEach(problem => {
+                const item = document.createElement('li');
+                item.textContent = problem;
+                list.appendChild(item);
+            });
+            message.classList.toggle('visible', problems.length > 0);
+        }
+
         // Generate with AI
         function generateWithAI() {
             const textarea = document.getElementById('request-body');
@@ -3427,7 +4043,13 @@ export class ApiTestPanel {
                 // Handle body vs form data
                 if (hasFormData) {
                     requestData.formData = formData;
-                    requestData.headers['Content-Type'] = 'multipart/form-data';
+                    const contentTypeKey = Object.keys(requestData.headers).find(key => key.toLowerCase() === 'content-type');
+                    if (!contentTypeKey || !/^application\/x-www-form-urlencoded/i.test(requestData.headers[contentTypeKey])) {
+                        if (contentTypeKey) {
+                            delete requestData.headers[contentTypeKey];
+                        }
+                        requestData.headers['Content-Type'] = 'multipart/form-data';
+                    }
                 } else if (body) {
                     requestData.body = JSON.parse(body);
                 }
@@ -3451,7 +4073,7 @@ export class ApiTestPanel {
             const message = event.data;
 
             if (message.type === 'testResult') {
-                displayResponse(message.result);
+                displayResponse(message.result, message.contract);
             } else if (message.type === 'aiGenerationResult') {
                 handleAIGenerationResult(message.result);
             } else if (message.type === 'aiConversationData') {
@@ -3495,6 +4117,10 @@ export class ApiTestPanel {
                 }
             } else if (message.type === 'updateBodyContent') {
                 updateBodyContent(message.body);
+            } else if (message.type === 'fieldDocs') {
+                renderFieldDocs(message.fields);
+                bodyValidationRules = message.rules || [];
+                validateJSON();
             }
         });
 
@@ -3606,7 +4232,7 @@ export class ApiTestPanel {
         }
 
         // Display response
-        function displayResponse(result) {
+        function displayResponse(result, contract) {
             const statusBar = document.getElementById('response-status-bar');
             const statusCode = document.getElementById('status-code');
             const responseTime = document.getElementById('response-time');
@@ -3653,6 +4279,50 @@ export class ApiTestPanel {
             if (result.error) {
                 bodyTab.innerHTML += '<div style="color: #F93E3E; margin-top: 15px; padding: 15px; background: var(--vscode-inputValidation-errorBackground); border-radius: 4px;"><strong>Error:</strong> ' + result.error + '</div>';
             }
+
+            displayContract(contract);
+        }
+
+        // Show how the response compares with [ProducesResponseType] declarations
+        function displayContract(contract) {
+            const contractStatus = document.getElementById('contract-status');
+            const bodyTab = document.getElementById('response-body-tab');
+
+            if (!contract) {
+                contractStatus.style.display = 'none';
+                return;
+            }
+
+            const label = contract.expectedType ? contract.statusCode + ' ' + contract.expectedType : String(contract.statusCode);
+            contractStatus.style.display = 'flex';
+            contractStatus.querySelector('span').textContent = contract.issues.length === 0
+                ? '✅ ' + label
+                : '⚠️ ' + contract.issues.length + ' issue' + (contract.issues.length === 1 ? '' : 's');
+            contractStatus.title = 'Declared status codes: ' + contract.declaredStatusCodes.join(', ');
+
+            if (contract.issues.length === 0) {
+                return;
+            }
+
+            const box = document.createElement('div');
+            box.className = 'contract-issues';
+            const title = document.createElement('strong');
+            title.textContent = contract.bodyChecked
+                ? 'Response does not match ' + label + ':'
+                : 'Response contract:';
+            box.appendChild(title);
+
+            const list = document.createElement('ul');
+            contract.issues.forEach(issue => {
+                const item = document.createElement('li');
+                const path = document.createElement('code');
+                path.textContent = issue.path;
+                item.appendChild(path);
+                item.appendChild(document.createTextNode(' ' + issue.message));
+                list.appendChild(item);
+            });
+            box.appendChild(list);
+            bodyTab.insertBefore(box, bodyTab.firstChild);
         }
 
         // Format bytes
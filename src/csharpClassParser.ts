@@ -1,30 +1,110 @@
 import * as vscode from 'vscode';
 import { ClassDefinitionCache } from './classDefinitionCache';
+import { CSharpAttribute, CSharpSyntaxParser, CSharpSyntaxTree, CSharpTypeDeclaration, CSharpTypeKind } from './csharpSyntax';
+import { XmlDocComment } from './xmlDocComment';
 
 export interface ClassProperty {
     name: string;
     type: string;
     required: boolean;
     properties?: ClassProperty[];  // For nested complex types
+    description?: string;  // <summary> of the property's XML doc comment
+    example?: string;  // <example> of the property's XML doc comment, used as the generated value
+    keyEnumValues?: string[];  // Members of an enum used as dictionary key type, e.g. Dictionary<OrderStatus, int>
+    enumInfo?: EnumInfo;  // Set when the property (or its element type) is an enum
+    jsonName?: string;  // [JsonPropertyName("order_id")] (System.Text.Json)
+    newtonsoftJsonName?: string;  // [JsonProperty("order_id")] or [DataMember(Name = "order_id")] (Json.NET)
+    jsonIgnore?: 'always' | 'whenWritingNull' | 'whenWritingDefault';  // [JsonIgnore] and its Condition
+    jsonExtensionData?: boolean;  // [JsonExtensionData] collects fields no other property matches
+    jsonConverter?: string;  // Converter type of [JsonConverter(typeof(...))]
+    validation?: PropertyValidation;  // DataAnnotations checked by model validation
+    readOnly?: boolean;  // Getter-only or computed "=> expr" property: written to responses, never read from request bodies
     _baseClassWarning?: string;  // Warning message when base class parsing fails
 }
 
+/**
+ * DataAnnotations (and FluentValidation) rules of a property; lengths apply to strings and collections
+ */
+export interface PropertyValidation {
+    required?: boolean;  // [Required], NotEmpty(), NotNull()
+    allowEmptyStrings?: boolean;  // [Required(AllowEmptyStrings = true)], NotNull()
+    minLength?: number;  // [StringLength(MinimumLength = n)], [MinLength(n)], [Length(min, max)]
+    maxLength?: number;  // [StringLength(n)], [MaxLength(n)], [Length(min, max)]
+    minimum?: number;  // [Range(min, max)], InclusiveBetween(), GreaterThan()
+    maximum?: number;
+    exclusiveMinimum?: boolean;  // GreaterThan(), ExclusiveBetween()
+    exclusiveMaximum?: boolean;  // LessThan(), ExclusiveBetween()
+    pattern?: string;  // [RegularExpression], must match the whole value
+    partialMatch?: boolean;  // Matches(): the pattern only has to occur in the value
+    format?: 'email' | 'url' | 'phone' | 'creditCard';  // [EmailAddress], [Url], [Phone], [CreditCard]
+    items?: PropertyValidation;  // RuleForEach(): rules for every element of a collection
+}
+
 export interface EnumInfo {
     isEnum: true;
     firstValue: string;
     allValues: string[];
+    numericValues: number[];  // Underlying values, in the order of allValues
+    serializedNames: string[];  // Names written by string enum converters ([EnumMember(Value = "...")], [JsonStringEnumMemberName("...")])
+    serializedAsString: boolean;  // The enum declares [JsonConverter(typeof(JsonStringEnumConverter))]
 }
 
 export class CSharpClassParser {
+    // Type kinds that can describe a request or response body
+    private static readonly dataTypeKinds: CSharpTypeKind[] = ['class', 'record', 'struct', 'record struct'];
+    // Generic wrappers whose type argument is the type to parse: Task<ActionResult<List<Product>>> -> Product
+    private static readonly wrapperTypes = [
+        'Task', 'ValueTask', 'ActionResult', 'Nullable',
+        'List', 'IList', 'IEnumerable', 'ICollection', 'IReadOnlyList', 'IReadOnlyCollection', 'Collection', 'ObservableCollection',
+        'HashSet', 'ISet', 'IReadOnlySet', 'SortedSet', 'LinkedList', 'Queue', 'Stack', 'ConcurrentBag', 'ConcurrentQueue', 'ConcurrentStack',
+        'ImmutableArray', 'ImmutableList', 'IImmutableList', 'ImmutableHashSet', 'IImmutableSet', 'ImmutableSortedSet',
+        'IQueryable', 'IAsyncEnumerable', 'Array'
+    ];
+    // Dictionaries are parsed by their value type: Dictionary<string, OrderLine> -> OrderLine
+    private static readonly dictionaryTypes = [
+        'Dictionary', 'IDictionary', 'IReadOnlyDictionary', 'ConcurrentDictionary', 'SortedDictionary', 'SortedList',
+        'ReadOnlyDictionary', 'ImmutableDictionary', 'IImmutableDictionary', 'ImmutableSortedDictionary'
+    ];
+    // Value types that are never null, whatever the nullable context (enums and custom structs are not recognized)
+    private static readonly valueTypes = [
+        'int', 'long', 'short', 'byte', 'uint', 'ulong', 'ushort', 'sbyte', 'nint', 'nuint',
+        'double', 'float', 'decimal', 'bool', 'char',
+        'DateTime', 'DateTimeOffset', 'DateOnly', 'TimeOnly', 'TimeSpan', 'Guid',
+        'Int16', 'Int32', 'Int64', 'UInt16', 'UInt32', 'UInt64', 'Byte', 'SByte', 'Single', 'Double', 'Decimal', 'Boolean', 'Char'
+    ];
+
     private cache: ClassDefinitionCache;
     private fileClassCache: Map<string, Set<string>>; // filePath -> Set of class names in that file
+    private missingTypeCache: Set<string>; // Types not found in the workspace, cleared when a document is saved
+    private syntaxParser: CSharpSyntaxParser;
+    private nullableContextProvider?: (document: vscode.TextDocument) => Promise<boolean | undefined>;
+    private projectNullableContexts: Map<string, boolean | undefined>; // filePath -> <Nullable> setting of its project
 
     constructor() {
         this.cache = new ClassDefinitionCache(100, 30); // Max 100 entries, 30 min TTL
         this.fileClassCache = new Map();
+        this.missingTypeCache = new Set();
+        this.projectNullableContexts = new Map();
+        this.syntaxParser = CSharpSyntaxParser.getInstance();
         console.log('[CSharpClassParser] Initialized with cache and file-level class cache');
     }
 
+    /**
+     * Set where the project's <Nullable> setting comes from; it decides whether `string` without `?` is a required member
+     * @param provider Resolves true for <Nullable>enable</Nullable>, false when disabled, undefined when the document has no project
+     */
+    setNullableContextProvider(provider: (document: vscode.TextDocument) => Promise<boolean | undefined>): void {
+        this.nullableContextProvider = provider;
+        this.projectNullableContexts.clear();
+    }
+
+    /**
+     * Drop remembered <Nullable> settings, e.g. after a .csproj or Directory.Build.props changed
+     */
+    invalidateProjectSettings(): void {
+        this.projectNullableContexts.clear();
+    }
+
     /**
      * Get document lines with caching to avoid repeated getText() and split() operations
      * @param document The document to get lines from
@@ -35,62 +115,42 @@ export class CSharpClassParser {
         return text.split('\n');
     }
 
+    /**
+     * Get the syntax tree for document lines (parsed trees are cached by the shared syntax parser)
+     * @param lines Array of lines
+     * @returns Parsed syntax tree
+     */
+    private getSyntaxTree(lines: string[]): CSharpSyntaxTree {
+        return this.syntaxParser.parse(lines.join('\n'));
+    }
+
+    /**
+     * Find the type declared at a line returned by findClassDefinition/findEnumDefinition
+     */
+    private getTypeAtLine(lines: string[], lineIndex: number): CSharpTypeDeclaration | undefined {
+        const tree = this.getSyntaxTree(lines);
+        return this.syntaxParser.getAllTypes(tree).find(type => type.line === lineIndex);
+    }
+
     /**
      * Extract all class and enum names from a document
      * @param document The document to scan
      * @returns Set of type names found in the document
      */
     private extractAllClassNamesFromDocument(document: vscode.TextDocument): Set<string> {
-        const lines = this.getDocumentLines(document);
+        const tree = this.getSyntaxTree(this.getDocumentLines(document));
         const typeNames = new Set<string>();
 
-        let braceCount = 0;
-        let inClass = false;
-        let currentOuterClass = '';
-
-        // Scan line by line to properly handle nested classes
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-
-            // Match class definitions: public class ClassName, class ClassName : BaseClass, etc.
-            const classMatch = line.match(/\bclass\s+(\w+)/);
-            if (classMatch) {
-                const className = classMatch[1];
-
-                if (braceCount > 0 && currentOuterClass) {
-                    // This is a nested class
-                    const nestedClassName = `${currentOuterClass}.${className}`;
-                    typeNames.add(nestedClassName);
-                    console.log(`[CSharpClassParser] 📄 Found nested class: ${nestedClassName}`);
-                } else {
-                    // This is a top-level class
-                    typeNames.add(className);
-                    currentOuterClass = className;
-                    inClass = true;
-                    console.log(`[CSharpClassParser] 📄 Found top-level class: ${className}`);
-                }
-            }
-
-            // Track braces to identify class scope (check after class definition)
-            for (const char of line) {
-                if (char === '{') {
-                    braceCount++;
-                }
-                if (char === '}') {
-                    braceCount--;
-                    if (braceCount === 0) {
-                        inClass = false;
-                        currentOuterClass = '';
-                    }
-                }
-            }
-
-            // Match all enum definitions: public enum EnumName, enum EnumName, etc.
-            const enumMatch = line.match(/\benum\s+(\w+)/);
-            if (enumMatch) {
-                const enumName = enumMatch[1];
-                typeNames.add(enumName);
-                console.log(`[CSharpClassParser] 📄 Found enum: ${enumName}`);
+        for (const type of this.syntaxParser.getAllTypes(tree)) {
+            if (type.kind === 'enum') {
+                typeNames.add(type.name);
+                console.log(`[CSharpClassParser] 📄 Found enum: ${type.name}`);
+            } else if (CSharpClassParser.dataTypeKinds.includes(type.kind) && type.fullName.includes('.')) {
+                typeNames.add(type.fullName);
+                console.log(`[CSharpClassParser] 📄 Found nested ${type.kind}: ${type.fullName}`);
+            } else if (CSharpClassParser.dataTypeKinds.includes(type.kind)) {
+                typeNames.add(type.name);
+                console.log(`[CSharpClassParser] 📄 Found top-level ${type.kind}: ${type.name}`);
             }
         }
 
@@ -127,23 +187,135 @@ export class CSharpClassParser {
     }
 
     /**
-     * Extract inner type from generic type
-     * Examples: List<User> -> User, Task<ActionResult<Product>> -> Product
+     * Extract inner type from wrapper, collection and dictionary types; generic DTOs keep their type arguments
+     * Examples: List<User> -> User, Task<ActionResult<Product>> -> Product, Dictionary<string, User> -> User, Envelope<Product> -> Envelope<Product>
      */
     private extractInnerType(type: string): string {
-        // Handle nested generics: Task<ActionResult<Product>> -> Product
-        const deepGenericMatch = type.match(/<([^<>]+<[^<>]+>)>/);
-        if (deepGenericMatch) {
-            return this.extractInnerType(deepGenericMatch[1]);
+        let current = type.trim().replace(/\?$/, '');
+        for (;;) {
+            if (current.endsWith('[]')) {
+                current = current.slice(0, -2).trim().replace(/\?$/, '');
+                continue;
+            }
+
+            const { name, typeArguments } = this.splitGenericType(current);
+            const simpleName = name.split('.').pop()!;
+            if (typeArguments.length === 1 && CSharpClassParser.wrapperTypes.includes(simpleName)) {
+                current = typeArguments[0].replace(/\?$/, '');
+                continue;
+            }
+            if (typeArguments.length === 2 && CSharpClassParser.dictionaryTypes.includes(simpleName)) {
+                current = typeArguments[1].replace(/\?$/, '');
+                continue;
+            }
+            return current;
+        }
+    }
+
+    /**
+     * Key type of a dictionary, also inside collections: List<Dictionary<OrderStatus, int>> -> OrderStatus
+     */
+    private getDictionaryKeyType(type: string): string | undefined {
+        let current = type.trim().replace(/\?$/, '').replace(/(\[\])+$/, '');
+        for (;;) {
+            const { name, typeArguments } = this.splitGenericType(current);
+            const simpleName = name.split('.').pop()!;
+            if (typeArguments.length === 2 && CSharpClassParser.dictionaryTypes.includes(simpleName)) {
+                return typeArguments[0].replace(/\?$/, '');
+            }
+            if (typeArguments.length !== 1 || !CSharpClassParser.wrapperTypes.includes(simpleName)) {
+                return undefined;
+            }
+            current = typeArguments[0].replace(/\?$/, '').replace(/(\[\])+$/, '');
+        }
+    }
+
+    /**
+     * Elements of a tuple as the properties they serialize to: (int Id, Order Order) / ValueTuple<int, Order> -> Item1, Item2;
+     * KeyValuePair<string, int> -> Key, Value. Returns null for other types.
+     */
+    getTupleProperties(type: string): ClassProperty[] | null {
+        const trimmed = type.trim().replace(/\?$/, '');
+        let elementTypes: string[];
+        let names: string[];
+
+        if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
+            // Element names are erased at runtime, only the types matter
+            elementTypes = this.splitGenericType(`T<${trimmed.slice(1, -1)}>`).typeArguments
+                .map(element => element.replace(/\s+[A-Za-z_]\w*$/, '').trim());
+            names = elementTypes.map((_, index) => `Item${index + 1}`);
+        } else {
+            const { name, typeArguments } = this.splitGenericType(trimmed);
+            const simpleName = name.split('.').pop();
+            if ((simpleName === 'ValueTuple' || simpleName === 'Tuple') && typeArguments.length > 0) {
+                elementTypes = typeArguments;
+                names = elementTypes.map((_, index) => `Item${index + 1}`);
+            } else if (simpleName === 'KeyValuePair' && typeArguments.length === 2) {
+                elementTypes = typeArguments;
+                names = ['Key', 'Value'];
+            } else {
+                return null;
+            }
+        }
+
+        return elementTypes.map((elementType, index) => ({
+            name: names[index],
+            type: this.normalizeType(elementType),
+            required: !this.isNullableType(elementType)
+        }));
+    }
+
+    /**
+     * Split a generic type into its definition name and type arguments
+     * Examples: Envelope<List<Order>, int> -> Envelope, [List<Order>, int]; OrderDto -> OrderDto, []
+     */
+    private splitGenericType(type: string): { name: string; typeArguments: string[] } {
+        const trimmed = type.trim();
+        const open = trimmed.indexOf('<');
+        if (open === -1 || !trimmed.endsWith('>')) {
+            return { name: trimmed, typeArguments: [] };
+        }
+
+        const typeArguments: string[] = [];
+        let depth = 0;
+        let start = open + 1;
+        for (let i = open + 1; i < trimmed.length - 1; i++) {
+            const char = trimmed[i];
+            if (char === '<' || char === '(') {
+                depth++;
+            } else if (char === '>' || char === ')') {
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                typeArguments.push(trimmed.substring(start, i).trim());
+                start = i + 1;
+            }
         }
+        typeArguments.push(trimmed.substring(start, trimmed.length - 1).trim());
 
-        // Handle simple generics: List<User> -> User
-        const genericMatch = type.match(/<([^<>]+)>/);
-        if (genericMatch) {
-            return genericMatch[1].trim();
+        return { name: trimmed.substring(0, open).trim(), typeArguments };
+    }
+
+    /**
+     * Map the type parameters of a generic declaration to the type arguments it is used with: Envelope<TData> + [Order] -> TData = Order
+     */
+    private getTypeSubstitutions(declaration: CSharpTypeDeclaration | undefined, typeArguments: string[]): Map<string, string> {
+        const substitutions = new Map<string, string>();
+        if (declaration && declaration.typeParameters.length === typeArguments.length) {
+            declaration.typeParameters.forEach((typeParameter, index) => substitutions.set(typeParameter, typeArguments[index]));
         }
+        return substitutions;
+    }
 
-        return type;
+    /**
+     * Replace type parameters in a member type, e.g. List<T> -> List<Order> for T = Order
+     */
+    private substituteTypeParameters(type: string, substitutions: Map<string, string>): string {
+        if (substitutions.size === 0) {
+            return type;
+        }
+        return type
+            .replace(/(?<![\w.])[A-Za-z_]\w*/g, identifier => substitutions.get(identifier) ?? identifier)
+            .replace(/\?\?/g, '?');   // T? with T = int?
     }
 
     /**
@@ -167,8 +339,9 @@ export class CSharpClassParser {
 
         console.log(`[CSharpClassParser] Searching for class: ${actualClassName}`);
 
-        // Find the class definition
-        const classLineIndex = this.findClassDefinition(lines, actualClassName);
+        // Find the class definition; generic DTOs are looked up by name and number of type parameters
+        const { name: definitionName, typeArguments } = this.splitGenericType(actualClassName);
+        const classLineIndex = this.findClassDefinition(lines, definitionName, typeArguments.length);
         if (classLineIndex === -1) {
             console.log(`[CSharpClassParser] Class ${actualClassName} not found in document`);
             return null;
@@ -179,9 +352,12 @@ export class CSharpClassParser {
         // Add to parsed set to prevent infinite recursion
         parsedClasses.add(actualClassName);
 
-        // Extract base class name from class definition
-        const classDefinitionLine = lines[classLineIndex].trim();
-        const baseClassName = this.extractBaseClassName(classDefinitionLine);
+        // Envelope<Order> is parsed as Envelope<TData> with TData replaced by Order, in its own members and its base class
+        const classDeclaration = this.getTypeAtLine(lines, classLineIndex);
+        const substitutions = this.getTypeSubstitutions(classDeclaration, typeArguments);
+
+        // Extract base class name from the declaration (record bases may carry arguments: record B(int X) : A(X))
+        const baseClassName = this.extractBaseClassName(classDeclaration, substitutions);
 
         let allProperties: ClassProperty[] = [];
         let baseClassWarning: string | undefined = undefined;
@@ -214,7 +390,8 @@ export class CSharpClassParser {
         }
 
         // Extract properties from the current class
-        const currentClassProperties = this.extractClassProperties(lines, classLineIndex);
+        const projectNullableContext = await this.resolveProjectNullableContext(document);
+        const currentClassProperties = this.extractClassProperties(lines, classLineIndex, substitutions, projectNullableContext);
         console.log(`[CSharpClassParser] Extracted ${currentClassProperties.length} properties from ${actualClassName}`);
 
         // Merge properties: current class properties override base class properties with the same name
@@ -527,7 +704,7 @@ export class CSharpClassParser {
 
                         // Quick check: does this file contain the class or enum definition?
                         // ⭐ NESTED CLASS SUPPORT: Check for both regular and nested class patterns
-                        const classRegex = new RegExp(`\\bclass\\s+${className.replace('.', '\\.')}\\b`);
+                        const classRegex = new RegExp(`\\b(?:class|record|struct)\\s+${className.replace('.', '\\.')}\\b`);
                         const enumRegex = new RegExp(`\\benum\\s+${className}\\b`);
 
                         // For nested classes, also check if the file contains the nested class pattern
@@ -538,8 +715,8 @@ export class CSharpClassParser {
                             const parts = className.split('.');
                             if (parts.length === 2) {
                                 const [outerClass, innerClass] = parts;
-                                const outerRegex = new RegExp(`\\bclass\\s+${outerClass}\\b`);
-                                const innerRegex = new RegExp(`\\bclass\\s+${innerClass}\\b`);
+                                const outerRegex = new RegExp(`\\b(?:class|record|struct)\\s+${outerClass}\\b`);
+                                const innerRegex = new RegExp(`\\b(?:class|record|struct)\\s+${innerClass}\\b`);
                                 containsClass = outerRegex.test(text) && innerRegex.test(text);
                             }
                         }
@@ -612,6 +789,15 @@ export class CSharpClassParser {
             return null;
         }
 
+        // Tuples and KeyValuePair have no declaration to find; their elements become properties
+        const tupleProperties = this.getTupleProperties(actualClassName);
+        if (tupleProperties) {
+            if (recursive) {
+                await this.parseNestedComplexTypes(tupleProperties, currentDocument, parsedClasses, depth + 1, lastFoundDocument, currentClassDocument);
+            }
+            return tupleProperties;
+        }
+
         // Prevent infinite recursion
         if (parsedClasses.has(actualClassName)) {
             console.log(`[CSharpClassParser] 🔄 Skipping already parsed class: ${actualClassName}`);
@@ -706,7 +892,7 @@ export class CSharpClassParser {
 
         // OPTIMIZATION 4: Use intelligent search based on using statements
         console.log(`[CSharpClassParser] 🎯 PRIORITY 4: Starting intelligent search based on using statements...`);
-        const foundDocument = await this.findClassFileByUsing(actualClassName, currentDocument);
+        const foundDocument = await this.findClassFileByUsing(this.splitGenericType(actualClassName).name, currentDocument);
 
         if (foundDocument) {
             let properties = await this.parseClassDefinition(foundDocument, actualClassName);
@@ -760,8 +946,8 @@ export class CSharpClassParser {
         parentClassName: string | undefined,
         candidateDocuments: vscode.TextDocument[]
     ): string {
-        // If already fully-qualified or clearly namespaced, return as-is
-        if (baseType.includes('.')) {
+        // If already fully-qualified or clearly namespaced (or a generic instantiation or tuple), return as-is
+        if (/[.<(]/.test(baseType)) {
             return baseType;
         }
 
@@ -865,7 +1051,16 @@ export class CSharpClassParser {
         const typesToParse: Array<{prop: ClassProperty, baseType: string}> = [];
 
         for (const prop of properties) {
-            // Extract the actual type (handle List<T>, IEnumerable<T>, T[], T?, etc.)
+            // Dictionary keys of an enum type are written as member names: { "Pending": 1 }
+            const keyType = this.getDictionaryKeyType(prop.type);
+            if (keyType && !this.isSimpleType(keyType)) {
+                const keyEnumInfo = await this.findEnumInWorkspace(keyType, currentDocument);
+                if (keyEnumInfo) {
+                    prop.keyEnumValues = keyEnumInfo.allValues;
+                }
+            }
+
+            // Extract the actual type (handle List<T>, IEnumerable<T>, Dictionary<K, V>, T[], T?, etc.)
             const originalBaseType = this.extractBaseType(prop.type);
 
             // Resolve potential nested class references when no namespace was specified
@@ -889,11 +1084,12 @@ export class CSharpClassParser {
 
             // Check if this type is an enum - if so, handle it specially
             console.log(`[CSharpClassParser] 🔍 Checking if ${baseType} is an enum...`);
-            const enumInfo = await this.findEnumInWorkspace(baseType, currentDocument);
+            const enumInfo = /[<(]/.test(baseType) ? null : await this.findEnumInWorkspace(baseType, currentDocument);
             if (enumInfo) {
                 console.log(`[CSharpClassParser] ✅ Found enum ${baseType}, marking as enum type`);
                 // Mark this property as an enum by storing enum info in a special field
                 prop._baseClassWarning = `ENUM_INFO:${enumInfo.firstValue}|${enumInfo.allValues.join(',')}`;
+                prop.enumInfo = enumInfo;
                 console.log(`[CSharpClassParser] ✅ Enum ${baseType} marked for property ${prop.name}`);
                 continue;
             }
@@ -985,102 +1181,21 @@ export class CSharpClassParser {
      * Also handles nested class types like OuterClass.InnerClass
      */
     private extractBaseType(type: string): string {
-        // Remove nullable marker
-        let baseType = type.replace('?', '');
-
-        // Handle array types: User[] -> User
-        if (baseType.endsWith('[]')) {
-            return baseType.slice(0, -2);
-        }
-
-        // Handle generic types: List<User>, IEnumerable<Product>, List<OuterClass.InnerClass>, etc.
-        const genericMatch = baseType.match(/<(.+)>/);
-        if (genericMatch) {
-            return genericMatch[1].trim();
-        }
-
-        return baseType;
-    }
-
-    private findClassDefinition(lines: string[], className: string): number {
-        // ⭐ NESTED CLASS SUPPORT: Check if this is a nested class (OuterClass.InnerClass)
-        if (className.includes('.')) {
-            return this.findNestedClassDefinition(lines, className);
-        }
-
-        // ⭐ PERFORMANCE: Create regex once, not in every loop iteration
-        const classRegex = new RegExp(`\\bclass\\s+${className}\\b`);
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-
-            // Look for class definition: public class ClassName, class ClassName, etc.
-            if (classRegex.test(line)) {
-                return i;
-            }
-        }
-        return -1;
+        // User[] -> User, List<OuterClass.InnerClass> -> OuterClass.InnerClass, Envelope<User> stays generic
+        return this.extractInnerType(type);
     }
 
-    /**
-     * Find nested class definition (OuterClass.InnerClass)
-     * @param lines Array of lines to search
-     * @param nestedClassName The nested class name in format "OuterClass.InnerClass"
-     * @returns Line index where nested class is found, or -1 if not found
-     */
-    private findNestedClassDefinition(lines: string[], nestedClassName: string): number {
-        const parts = nestedClassName.split('.');
-        if (parts.length !== 2) {
-            console.log(`[CSharpClassParser] ⚠️ Unsupported nested class format: ${nestedClassName} (expected: OuterClass.InnerClass)`);
+    private findClassDefinition(lines: string[], className: string, typeParameterCount: number = 0): number {
+        // ⭐ NESTED CLASS SUPPORT: OuterClass.InnerClass is matched against the containing type chain
+        const type = this.syntaxParser.findType(this.getSyntaxTree(lines), className, CSharpClassParser.dataTypeKinds, typeParameterCount);
+        if (!type) {
             return -1;
         }
 
-        const [outerClassName, innerClassName] = parts;
-        console.log(`[CSharpClassParser] 🔍 Searching for nested class: ${innerClassName} inside ${outerClassName}`);
-
-        let outerClassLineIndex = -1;
-        let braceCount = 0;
-        let inOuterClass = false;
-
-        // First, find the outer class
-        const outerClassRegex = new RegExp(`\\bclass\\s+${outerClassName}\\b`);
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-
-            if (!inOuterClass) {
-                // Look for outer class definition
-                if (outerClassRegex.test(line)) {
-                    outerClassLineIndex = i;
-                    console.log(`[CSharpClassParser] ✅ Found outer class ${outerClassName} at line ${i}`);
-                    inOuterClass = true;
-                }
-            } else {
-                // We're inside the outer class, track braces
-                for (const char of line) {
-                    if (char === '{') {
-                        braceCount++;
-                    }
-                    if (char === '}') {
-                        braceCount--;
-                    }
-                }
-
-                // Look for inner class definition within the outer class
-                const innerClassRegex = new RegExp(`\\bclass\\s+${innerClassName}\\b`);
-                if (innerClassRegex.test(line)) {
-                    console.log(`[CSharpClassParser] ✅ Found inner class ${innerClassName} at line ${i} inside ${outerClassName}`);
-                    return i;
-                }
-
-                // If we've exited the outer class, stop searching
-                if (braceCount === 0) {
-                    console.log(`[CSharpClassParser] ❌ Inner class ${innerClassName} not found within ${outerClassName}`);
-                    return -1;
-                }
-            }
+        if (className.includes('.')) {
+            console.log(`[CSharpClassParser] ✅ Found nested class ${className} at line ${type.line}`);
         }
-
-        return -1;
+        return type.line;
     }
 
     /**
@@ -1090,18 +1205,8 @@ export class CSharpClassParser {
      * @returns Line index where enum is found, or -1 if not found
      */
     private findEnumDefinition(lines: string[], enumName: string): number {
-        // ⭐ PERFORMANCE: Create regex once, not in every loop iteration
-        const enumRegex = new RegExp(`\\benum\\s+${enumName}\\b`);
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-
-            // Look for enum definition: public enum EnumName, enum EnumName, etc.
-            if (enumRegex.test(line)) {
-                return i;
-            }
-        }
-        return -1;
+        const type = this.syntaxParser.findType(this.getSyntaxTree(lines), enumName, ['enum']);
+        return type ? type.line : -1;
     }
 
     /**
@@ -1111,56 +1216,11 @@ export class CSharpClassParser {
      * @returns EnumInfo with extracted values, or null if parsing failed
      */
     private parseEnumDefinition(lines: string[], enumLineIndex: number): EnumInfo | null {
-        const enumValues: string[] = [];
-        let braceCount = 0;
-        let inEnum = false;
-
         console.log(`[CSharpClassParser] Parsing enum starting at line ${enumLineIndex}`);
 
-        // Start from the enum line and parse until we exit the enum
-        for (let i = enumLineIndex; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmedLine = line.trim();
-
-            // Count braces to track scope
-            for (const char of line) {
-                if (char === '{') {
-                    braceCount++;
-                    if (!inEnum) inEnum = true;
-                }
-                if (char === '}') {
-                    braceCount--;
-                }
-            }
-
-            // If we've exited the enum, stop
-            if (inEnum && braceCount === 0) {
-                break;
-            }
-
-            // Skip comments, attributes, and empty lines when not in enum scope
-            if (!inEnum && (trimmedLine.startsWith('//') || trimmedLine.startsWith('///') ||
-                trimmedLine.startsWith('[') || trimmedLine.startsWith('*') ||
-                trimmedLine === '')) {
-                continue;
-            }
-
-            // Extract enum values when inside enum scope
-            if (inEnum && trimmedLine && !trimmedLine.startsWith('//') &&
-                !trimmedLine.startsWith('///') && !trimmedLine.startsWith('[') &&
-                !trimmedLine.startsWith('*')) {
-
-                // Match enum member patterns: VALUE, VALUE = 1, [EnumMember(Value = "SMALL")] SMALL, etc.
-                const enumMemberRegex = /(?:\[[^\]]*\]\s*)?(\w+)(?:\s*=\s*[^,}]+)?/;
-                const match = trimmedLine.match(enumMemberRegex);
-
-                if (match && match[1]) {
-                    const enumValue = match[1];
-                    enumValues.push(enumValue);
-                    console.log(`[CSharpClassParser] Found enum value: ${enumValue}`);
-                }
-            }
-        }
+        const enumType = this.getTypeAtLine(lines, enumLineIndex);
+        const enumMembers = (enumType?.members || []).filter(member => member.kind === 'enumMember');
+        const enumValues = enumMembers.map(member => member.name);
 
         if (enumValues.length === 0) {
             console.log(`[CSharpClassParser] No enum values found`);
@@ -1169,11 +1229,58 @@ export class CSharpClassParser {
 
         console.log(`[CSharpClassParser] Extracted ${enumValues.length} enum values: [${enumValues.join(', ')}]`);
 
+        // Members without an initializer continue from the previous value; initializers we cannot evaluate count as 0
+        const numericValues: number[] = [];
+        for (const member of enumMembers) {
+            const previous = numericValues.length > 0 ? numericValues[numericValues.length - 1] : -1;
+            const value = member.initializer !== undefined ? this.evaluateEnumInitializer(member.initializer, enumValues, numericValues) : previous + 1;
+            numericValues.push(value ?? 0);
+        }
+
+        const converter = this.findAttribute(enumType?.attributes || [], 'JsonConverter');
         return {
             isEnum: true,
             firstValue: enumValues[0],
-            allValues: enumValues
+            allValues: enumValues,
+            numericValues,
+            serializedNames: enumMembers.map(member =>
+                this.findAttribute(member.attributes, 'EnumMember')?.arguments.find(argument => argument.name === 'Value')?.stringValue ??
+                this.findAttribute(member.attributes, 'JsonStringEnumMemberName')?.arguments[0]?.stringValue ??
+                member.name),
+            serializedAsString: !!converter && /StringEnum(?:Member)?Converter\b/.test(converter.text)
+        };
+    }
+
+    /**
+     * Value of an enum member initializer: 5, 0x10, 0b101, 1 << 3 or a reference to an earlier member
+     */
+    private evaluateEnumInitializer(initializer: string, names: string[], values: number[]): number | undefined {
+        const literal = (text: string): number | undefined => {
+            const cleaned = text.trim().replace(/_/g, '').replace(/[uUlL]+$/, '');
+            if (/^-?\d+$/.test(cleaned)) {
+                return parseInt(cleaned, 10);
+            }
+            if (/^0[xX][0-9a-fA-F]+$/.test(cleaned)) {
+                return parseInt(cleaned.slice(2), 16);
+            }
+            if (/^0[bB][01]+$/.test(cleaned)) {
+                return parseInt(cleaned.slice(2), 2);
+            }
+            const index = names.indexOf(cleaned);
+            return index >= 0 && index < values.length ? values[index] : undefined;
         };
+
+        const shift = initializer.match(/^(.+?)\s*<<\s*(.+)$/);
+        if (shift) {
+            const left = literal(shift[1]);
+            const right = literal(shift[2]);
+            return left !== undefined && right !== undefined ? left << right : undefined;
+        }
+        return literal(initializer.replace(/^\((.*)\)$/, '$1'));
+    }
+
+    private findAttribute(attributes: CSharpAttribute[], name: string): CSharpAttribute | undefined {
+        return attributes.find(attribute => attribute.name === name);
     }
 
     /**
@@ -1226,21 +1333,24 @@ export class CSharpClassParser {
     }
 
     /**
-     * Extract base class name from class definition line
-     * @param classDefinitionLine The class definition line (e.g., "public class UpdateProductDto : BaseDto")
-     * @returns The base class name, or null if no base class
+     * Extract base class name from a type declaration
+     * @param classDeclaration The declaration (e.g., "public class UpdateProductDto : BaseDto" or "record Child(int X) : Base(X)")
+     * @param substitutions Type arguments of a generic declaration, applied to a generic base class
+     * @returns The base class name (with type arguments, e.g. "Entity<int>"), or null if no base class
      */
-    private extractBaseClassName(classDefinitionLine: string): string | null {
+    private extractBaseClassName(classDeclaration: CSharpTypeDeclaration | undefined, substitutions: Map<string, string> = new Map()): string | null {
+        // Structs and record structs cannot inherit; their base list only names interfaces
+        if (!classDeclaration || classDeclaration.kind === 'struct' || classDeclaration.kind === 'record struct') {
+            return null;
+        }
+
         // Match patterns like:
         // "public class UpdateProductDto : BaseDto"
         // "class ProductDto : Entity<int>"
-        // "public class CreateProductDto : ProductDto"
-        const baseClassMatch = classDefinitionLine.match(/:\s*([\w\.]+)/);
-        if (baseClassMatch) {
-            let baseClassName = baseClassMatch[1].trim();
-
-            // Remove generic type parameters, e.g., "Entity<int>" -> "Entity"
-            baseClassName = baseClassName.replace(/<[^>]+>/g, '').trim();
+        // "public record CreateProductDto(string Name) : ProductDto(Name)"
+        if (classDeclaration.baseTypes.length > 0) {
+            // Keep type arguments so generic bases are instantiated: "class Paged<T> : Envelope<List<T>>" -> "Envelope<List<Order>>"
+            const baseClassName = this.substituteTypeParameters(classDeclaration.baseTypes[0], substitutions);
 
             // Skip System.Object and its aliases
             if (baseClassName.toLowerCase() === 'object') {
@@ -1252,165 +1362,293 @@ export class CSharpClassParser {
         return null;
     }
 
-    private extractClassProperties(lines: string[], classLineIndex: number): ClassProperty[] {
+    /**
+     * @param projectNullableContext <Nullable> setting of the document's project; undefined (no project found) counts as enabled
+     */
+    private extractClassProperties(
+        lines: string[],
+        classLineIndex: number,
+        substitutions: Map<string, string> = new Map(),
+        projectNullableContext?: boolean
+    ): ClassProperty[] {
         const properties: ClassProperty[] = [];
-        let braceCount = 0;
-        let inClass = false;
-        let currentProperty: { type: string; name: string } | null = null;
-        let propertyBraceCount = 0;
-        let foundGetOrSet = false;
-
-        // Start from the class line and parse until we exit the class
-        for (let i = classLineIndex; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmedLine = line.trim();
-
-            // Count braces to track scope
-            for (const char of line) {
-                if (char === '{') {
-                    braceCount++;
-                    if (!inClass) inClass = true;
-                }
-                if (char === '}') {
-                    braceCount--;
-                }
-            }
+        const classDeclaration = this.getTypeAtLine(lines, classLineIndex);
+        if (!classDeclaration) {
+            return properties;
+        }
+        const projectDefault = projectNullableContext ?? true;
+
+        // Positional record parameters and C# 12 primary constructor parameters, documented with <param> on the type
+        const typeDocumentation = XmlDocComment.parse(classDeclaration.docComment);
+        const parametersNullableEnabled = this.isNullableContextEnabled(lines, classDeclaration.line, projectDefault);
+        for (const param of classDeclaration.primaryConstructorParameters || []) {
+            const paramType = this.substituteTypeParameters(param.type, substitutions);
+            properties.push({
+                name: param.name,
+                type: this.normalizeType(paramType),
+                required: this.isRequiredMember(paramType, param.defaultValue, false, parametersNullableEnabled),
+                description: typeDocumentation.params[param.name],
+                example: typeDocumentation.paramExamples[param.name],
+                ...this.readSerializationAttributes(param.attributes),   // [property: JsonPropertyName("sku")]
+                ...this.readValidationAttributes(param.attributes)
+            });
+            console.log(`[CSharpClassParser] Found ${classDeclaration.kind} parameter: ${param.name} (${paramType})`);
+        }
 
-            // If we've exited the class, stop
-            if (inClass && braceCount === 0) {
-                break;
-            }
+        // Getter-only properties can still be deserialized through a constructor parameter of the same name
+        const constructorParameters = classDeclaration.members
+            .filter(member => member.kind === 'constructor' && !member.modifiers.includes('static') && !member.modifiers.includes('private'))
+            .flatMap(member => member.parameters || [])
+            .map(param => param.name.toLowerCase());
 
-            // Skip comments and attributes
-            if (trimmedLine.startsWith('//') || trimmedLine.startsWith('///') ||
-                trimmedLine.startsWith('[') || trimmedLine.startsWith('*') ||
-                trimmedLine === '' || !inClass) {
+        for (const member of classDeclaration.members) {
+            if (member.kind !== 'property' || member.modifiers.includes('static')) {
                 continue;
             }
 
-            // Try to parse single-line property first
-            const singleLineProperty = this.parseSingleLineProperty(trimmedLine);
-            if (singleLineProperty) {
-                properties.push(singleLineProperty);
-                console.log(`[CSharpClassParser] Found property (single-line): ${singleLineProperty.name} (${singleLineProperty.type})`);
-                continue;
+            // An explicit property replaces the parameter it is initialized from: record R(string Sku) { public string Sku { get; init; } = Sku; }
+            // Primary constructor parameters of classes are usually camelCase: class C(string name) { public string Name { get; } = name; }
+            const parameterIndex = properties.findIndex(p => p.name.toLowerCase() === member.name.toLowerCase());
+            const initializedFromParameter = parameterIndex >= 0 && member.initializer?.trim() === properties[parameterIndex].name;
+
+            // "=> expr" and { get; } properties are only written; set and init accessors (or a constructor parameter) make them input
+            const writable = !member.expressionBodied &&
+                (member.accessors === undefined || member.accessors.includes('set') || member.accessors.includes('init'));
+            const readOnly = !writable && parameterIndex < 0 && !constructorParameters.includes(member.name.toLowerCase());
+
+            const memberType = this.substituteTypeParameters(member.type, substitutions);
+            const documentation = XmlDocComment.parse(member.docComment);
+            const property: ClassProperty = {
+                name: member.name,
+                type: this.normalizeType(memberType),
+                required: this.isRequiredMember(
+                    memberType,
+                    initializedFromParameter ? undefined : member.initializer,
+                    member.modifiers.includes('required'),
+                    this.isNullableContextEnabled(lines, member.line, projectDefault)),
+                description: documentation.summary,
+                example: documentation.example,
+                ...this.readSerializationAttributes(member.attributes),
+                ...this.readValidationAttributes(member.attributes)
+            };
+            if (readOnly) {
+                property.readOnly = true;
             }
 
-            // Handle multi-line properties
-            if (currentProperty === null) {
-                // Look for property declaration: public Type PropertyName
-                const propertyDeclaration = this.parsePropertyDeclaration(trimmedLine);
-                if (propertyDeclaration) {
-                    currentProperty = propertyDeclaration;
-                    propertyBraceCount = 0;
-                    foundGetOrSet = false;
-                    console.log(`[CSharpClassParser] Started multi-line property: ${propertyDeclaration.name} (${propertyDeclaration.type})`);
-                }
+            if (parameterIndex >= 0) {
+                properties[parameterIndex] = { ...properties[parameterIndex], ...this.withoutUndefined(property) };
             } else {
-                // We're parsing a multi-line property
-                // Check if this line contains get or set BEFORE counting braces
-                const hasGetter = /\bget\b/.test(trimmedLine);
-                const hasSetter = /\bset\b/.test(trimmedLine);
+                properties.push(property);
+            }
+            console.log(`[CSharpClassParser] Found ${readOnly ? 'read-only ' : ''}property: ${member.name} (${memberType})`);
+        }
 
-                if (hasGetter || hasSetter) {
-                    foundGetOrSet = true;
-                }
+        return properties;
+    }
 
-                // Count braces for property scope
-                for (const char of trimmedLine) {
-                    if (char === '{') propertyBraceCount++;
-                    if (char === '}') propertyBraceCount--;
-                }
+    /**
+     * Whether a member bound outside a request body (Razor Pages [BindProperty], [AsParameters] and complex [FromQuery] / [FromRoute]
+     * members) has to be sent, by the same rules as parsed class properties plus [Required] / [BindRequired]
+     * @param document Document the member is declared in
+     * @param member Property, or primary constructor parameter with the line of its type declaration
+     */
+    async isBoundMemberRequired(
+        document: vscode.TextDocument,
+        member: { type: string; attributes: CSharpAttribute[]; line: number; modifiers?: string[]; initializer?: string }
+    ): Promise<boolean> {
+        if (this.findAttribute(member.attributes, 'Required') || this.findAttribute(member.attributes, 'BindRequired')) {
+            return true;
+        }
+        const projectDefault = (await this.resolveProjectNullableContext(document)) ?? true;
+        const lines = document.getText().split('\n');
+        return this.isRequiredMember(member.type, member.initializer, member.modifiers?.includes('required') ?? false,
+            this.isNullableContextEnabled(lines, member.line, projectDefault));
+    }
 
-                // Check if property definition is complete
-                // Complete when: we found get/set AND property braces are closed
-                if (foundGetOrSet && propertyBraceCount <= 0) {
-                    const type = currentProperty.type;
-                    const name = currentProperty.name;
-
-                    // Determine if the property is required (not nullable)
-                    const isNullable = type.includes('?') || type.toLowerCase().includes('nullable');
-                    const required = !isNullable;
-
-                    properties.push({
-                        name: name,
-                        type: this.normalizeType(type),
-                        required: required
-                    });
-
-                    console.log(`[CSharpClassParser] Found property (multi-line): ${name} (${type})`);
-                    currentProperty = null;
-                    propertyBraceCount = 0;
-                    foundGetOrSet = false;
-                }
+    /**
+     * Whether a member has to be sent: it is marked `required`, or its type is non-nullable and nothing assigns a default.
+     * Reference types without `?` are only non-nullable in an enabled nullable context ([Required] is applied on top)
+     * @param initializer Default value or property initializer; `= null!` and `= default!` only silence the compiler
+     */
+    private isRequiredMember(type: string, initializer: string | undefined, requiredModifier: boolean, nullableEnabled: boolean): boolean {
+        if (requiredModifier) {
+            return true;
+        }
+        if (this.isNullableType(type)) {
+            return false;
+        }
+        if (initializer !== undefined && !/^(null|default)\s*!$/.test(initializer.trim())) {
+            return false;
+        }
+        return nullableEnabled || this.isValueType(type);
+    }
+
+    /**
+     * Nullable annotation context at a line: the project setting, changed by `#nullable enable|disable|restore` directives above it.
+     * `#nullable ... warnings` does not change annotations
+     */
+    private isNullableContextEnabled(lines: string[], lineIndex: number, projectDefault: boolean): boolean {
+        let enabled = projectDefault;
+        for (let i = 0; i < lineIndex && i < lines.length; i++) {
+            const directive = lines[i].match(/^\s*#\s*nullable\s+(enable|disable|restore)(?:\s+(annotations|warnings))?\b/);
+            if (!directive || directive[2] === 'warnings') {
+                continue;
             }
+            enabled = directive[1] === 'restore' ? projectDefault : directive[1] === 'enable';
         }
+        return enabled;
+    }
 
-        return properties;
+    /**
+     * <Nullable> setting of the project a document belongs to, remembered per file for the synchronous getClassDefinitionText
+     */
+    private async resolveProjectNullableContext(document: vscode.TextDocument): Promise<boolean | undefined> {
+        const filePath = document.uri.fsPath;
+        if (!this.projectNullableContexts.has(filePath) && this.nullableContextProvider) {
+            try {
+                this.projectNullableContexts.set(filePath, await this.nullableContextProvider(document));
+            } catch (error) {
+                console.error(`[CSharpClassParser] ⚠️ Failed to read the nullable context of ${filePath}:`, error);
+                this.projectNullableContexts.set(filePath, undefined);
+            }
+        }
+        return this.projectNullableContexts.get(filePath);
     }
 
     /**
-     * Parse single-line property: public string Name { get; set; }
+     * System.Text.Json and Json.NET attributes that change how a property is written:
+     * [JsonPropertyName], [JsonProperty], [DataMember(Name)], [JsonIgnore], [JsonExtensionData], [JsonConverter], [JsonRequired]
      */
-    private parseSingleLineProperty(line: string): ClassProperty | null {
-        // Pattern: public Type Name { get; set; } [= value;]
-        const propertyRegex = /^\s*(?:public|private|protected|internal)?\s+([\w<>\?\.,\[\]\s]+?)\s+(\w+)\s*\{\s*get;?\s*set;?\s*\}(?:\s*=\s*[^;]+)?;?$/i;
-        const match = line.match(propertyRegex);
+    private readSerializationAttributes(attributes: CSharpAttribute[]): Partial<ClassProperty> {
+        const serialization: Partial<ClassProperty> = {};
 
-        if (!match) {
-            return null;
+        const jsonPropertyName = this.findAttribute(attributes, 'JsonPropertyName')?.arguments[0]?.stringValue;
+        if (jsonPropertyName !== undefined) {
+            serialization.jsonName = jsonPropertyName;
         }
 
-        const type = match[1].trim();
-        const name = match[2];
+        const jsonProperty = this.findAttribute(attributes, 'JsonProperty');
+        const dataMember = this.findAttribute(attributes, 'DataMember');
+        const newtonsoftJsonName = jsonProperty?.arguments.find(argument => !argument.name || argument.name === 'PropertyName')?.stringValue ??
+            dataMember?.arguments.find(argument => argument.name === 'Name')?.stringValue;
+        if (newtonsoftJsonName !== undefined) {
+            serialization.newtonsoftJsonName = newtonsoftJsonName;
+        }
 
-        // Determine if the property is required (not nullable)
-        const isNullable = type.includes('?') || type.toLowerCase().includes('nullable');
-        const required = !isNullable;
+        const jsonIgnore = this.findAttribute(attributes, 'JsonIgnore');
+        if (jsonIgnore) {
+            // [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)] only affects serialization
+            const condition = jsonIgnore.arguments.find(argument => argument.name === 'Condition')?.text.split('.').pop();
+            if (condition === 'WhenWritingNull') {
+                serialization.jsonIgnore = 'whenWritingNull';
+            } else if (condition === 'WhenWritingDefault') {
+                serialization.jsonIgnore = 'whenWritingDefault';
+            } else if (condition !== 'Never') {
+                serialization.jsonIgnore = 'always';
+            }
+        }
 
-        return {
-            name: name,
-            type: this.normalizeType(type),
-            required: required
-        };
+        if (this.findAttribute(attributes, 'JsonExtensionData')) {
+            serialization.jsonExtensionData = true;
+        }
+
+        // [JsonRequired] and [JsonProperty(Required = Required.Always)] reject a body without the property
+        const newtonsoftRequired = jsonProperty?.arguments.find(argument => argument.name === 'Required')?.text.split('.').pop();
+        if (this.findAttribute(attributes, 'JsonRequired') || newtonsoftRequired === 'Always' || newtonsoftRequired === 'AllowNull') {
+            serialization.required = true;
+        }
+
+        const converter = this.findAttribute(attributes, 'JsonConverter')?.arguments[0]?.text.match(/^typeof\s*\(\s*([\w.]+)/);
+        if (converter) {
+            serialization.jsonConverter = converter[1].split('.').pop();
+        }
+
+        return serialization;
     }
 
     /**
-     * Parse property declaration line: public Type PropertyName
+     * DataAnnotations attributes: [Required], [StringLength], [MinLength], [MaxLength], [Length], [Range],
+     * [RegularExpression], [EmailAddress], [Url], [Phone] and [CreditCard]
      */
-    private parsePropertyDeclaration(line: string): { type: string; name: string } | null {
-        // Pattern: public Type PropertyName [{ or nothing]
-        // Must have public/private/protected/internal, type, and name
-        const declRegex = /^\s*(?:public|private|protected|internal)\s+([\w<>\?\.,\[\]\s]+?)\s+(\w+)\s*(?:\{)?$/i;
-        const match = line.match(declRegex);
+    private readValidationAttributes(attributes: CSharpAttribute[]): Partial<ClassProperty> {
+        const validation: PropertyValidation = {};
+        const positional = (name: string) => this.findAttribute(attributes, name)?.arguments.filter(argument => !argument.name) || [];
+
+        const required = this.findAttribute(attributes, 'Required');
+        if (required) {
+            validation.required = true;
+            if (required.arguments.some(argument => argument.name === 'AllowEmptyStrings' && argument.text === 'true')) {
+                validation.allowEmptyStrings = true;
+            }
+        }
 
-        if (!match) {
-            return null;
+        const stringLength = this.findAttribute(attributes, 'StringLength');
+        if (stringLength) {
+            validation.maxLength = this.readNumericArgument(positional('StringLength')[0]);
+            validation.minLength = this.readNumericArgument(stringLength.arguments.find(argument => argument.name === 'MinimumLength'));
+        }
+        if (this.findAttribute(attributes, 'Length')) {
+            [validation.minLength, validation.maxLength] = positional('Length').map(argument => this.readNumericArgument(argument));
+        }
+        validation.minLength = this.readNumericArgument(positional('MinLength')[0]) ?? validation.minLength;
+        validation.maxLength = this.readNumericArgument(positional('MaxLength')[0]) ?? validation.maxLength;
+
+        // [Range(1, 100)] or [Range(typeof(decimal), "0.01", "999.99")]
+        const range = positional('Range');
+        const bounds = range[0]?.text.startsWith('typeof') ? range.slice(1) : range;
+        if (bounds.length >= 2) {
+            validation.minimum = this.readNumericArgument(bounds[0]);
+            validation.maximum = this.readNumericArgument(bounds[1]);
+        }
+
+        validation.pattern = positional('RegularExpression')[0]?.stringValue;
+
+        const formats: Array<[string, PropertyValidation['format']]> = [['EmailAddress', 'email'], ['Url', 'url'], ['Phone', 'phone'], ['CreditCard', 'creditCard']];
+        validation.format = formats.find(([name]) => this.findAttribute(attributes, name))?.[1];
+
+        const rules = this.withoutUndefined(validation);
+        if (Object.keys(rules).length === 0) {
+            return {};
         }
+        return rules.required ? { validation: rules, required: true } : { validation: rules };
+    }
 
-        const type = match[1].trim();
-        const name = match[2];
+    /**
+     * Number in an attribute argument: 100, -5, 0.5m, "999.99"; int.MaxValue and other expressions give undefined
+     */
+    private readNumericArgument(argument: { text: string, stringValue?: string } | undefined): number | undefined {
+        const text = (argument?.stringValue ?? argument?.text)?.trim().replace(/_/g, '').replace(/[mMdDfFlLuU]+$/, '');
+        return text && /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(text) ? parseFloat(text) : undefined;
+    }
+
+    private withoutUndefined<T extends object>(value: T): Partial<T> {
+        return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+    }
+
+    /**
+     * Determine if a property is optional (nullable)
+     */
+    private isNullableType(type: string): boolean {
+        return type.includes('?') || type.toLowerCase().includes('nullable');
+    }
 
-        return { type, name };
+    /**
+     * Built-in value types, which cannot be null even with nullable reference types disabled
+     */
+    private isValueType(type: string): boolean {
+        const trimmed = type.trim();
+        return CSharpClassParser.valueTypes.includes(trimmed.split('.').pop() || trimmed) || /^\(.*\)$/.test(trimmed);
     }
 
     private normalizeType(type: string): string {
         // Remove nullable markers
         let normalized = type.replace('?', '');
 
-        // Simplify generic types
-        // List<string> -> List, Dictionary<string,int> -> Dictionary
+        // Nullable<int> -> int; collections and generic DTOs keep their type arguments
+        // (List<string>, Envelope<Order>) so element types and generic instantiations can be parsed
         const genericMatch = normalized.match(/^([^<]+)<(.+)>$/);
-        if (genericMatch) {
-            const baseType = genericMatch[1];
-            const innerType = genericMatch[2];
-
-            // For common collections, keep the inner type info
-            if (['List', 'IEnumerable', 'ICollection', 'IList', 'Array'].includes(baseType)) {
-                return `${baseType}<${innerType}>`;
-            }
-
-            return baseType;
+        if (genericMatch && genericMatch[1] === 'Nullable') {
+            return genericMatch[2];
         }
 
         return normalized;
@@ -1438,54 +1676,71 @@ export class CSharpClassParser {
         console.log(`[CSharpClassParser] Getting full definition for class: ${actualClassName}`);
 
         // Find the class definition
-        const classLineIndex = this.findClassDefinition(lines, actualClassName);
+        const { name: definitionName, typeArguments } = this.splitGenericType(actualClassName);
+        const classLineIndex = this.findClassDefinition(lines, definitionName, typeArguments.length);
         if (classLineIndex === -1) {
             console.log(`[CSharpClassParser] Class ${actualClassName} not found in document`);
             return null;
         }
 
-        let braceCount = 0;
-        let inClass = false;
-        let classDefinition = '';
-        let startIndex = Math.max(0, classLineIndex - 10); // Include comments above class
-
-        // Start from before the class line to capture comments
-        for (let i = startIndex; i < lines.length; i++) {
-            const line = lines[i];
+        // Include the comments/attributes above the class and everything up to its closing brace
+        const classDeclaration = this.getTypeAtLine(lines, classLineIndex);
+        const endLine = classDeclaration ? classDeclaration.endLine : classLineIndex;
+        let classDefinition = lines.slice(Math.max(0, classLineIndex - 5), endLine + 1).join('\n') + '\n';
 
-            // Add line to definition
-            if (i >= classLineIndex - 5) { // Start capturing 5 lines before class
-                classDefinition += line + '\n';
-            }
-
-            // Count braces only after we reach the class line
-            if (i >= classLineIndex) {
-                for (const char of line) {
-                    if (char === '{') {
-                        braceCount++;
-                        if (!inClass) inClass = true;
-                    }
-                    if (char === '}') {
-                        braceCount--;
-                    }
-                }
-
-                // If we've exited the class, stop
-                if (inClass && braceCount === 0) {
-                    break;
-                }
-            }
+        // Tell the AI which concrete types a generic DTO is used with
+        const substitutions = this.getTypeSubstitutions(classDeclaration, typeArguments);
+        if (substitutions.size > 0) {
+            const typeArgumentList = Array.from(substitutions.entries()).map(([typeParameter, typeArgument]) => `${typeParameter} = ${typeArgument}`);
+            classDefinition = `// ${actualClassName}: ${typeArgumentList.join(', ')}\n${classDefinition}`;
         }
 
         console.log(`[CSharpClassParser] Captured ${classDefinition.split('\n').length} lines for ${actualClassName}`);
 
         // Update cache with class definition
-        const properties = this.extractClassProperties(lines, classLineIndex);
+        const properties = this.extractClassProperties(lines, classLineIndex, substitutions, this.projectNullableContexts.get(document.uri.fsPath));
         this.cache.set(actualClassName, properties, classDefinition.trim(), document.uri.fsPath);
 
         return classDefinition.trim();
     }
 
+    /**
+     * Find a class declaration in the current document or the workspace, e.g. a custom base controller
+     * @param className The class name to find (generic arguments and namespace qualifiers are ignored)
+     * @param currentDocument Current document, searched first and used for using-based search
+     * @param kinds Type kinds to accept (classes by default)
+     * @returns The declaration and the document it was found in, or null if not found
+     */
+    async findClassDeclarationInWorkspace(
+        className: string,
+        currentDocument: vscode.TextDocument,
+        kinds: CSharpTypeKind[] = ['class']
+    ): Promise<{ type: CSharpTypeDeclaration; document: vscode.TextDocument } | null> {
+        const actualClassName = className.replace(/<.*>$/, '').replace(/^global::/, '').split('.').pop()!.trim();
+
+        const currentTree = this.syntaxParser.parse(currentDocument.getText());
+        const typeInCurrent = this.syntaxParser.findType(currentTree, actualClassName, kinds);
+        if (typeInCurrent) {
+            return { type: typeInCurrent, document: currentDocument };
+        }
+
+        if (this.missingTypeCache.has(actualClassName)) {
+            return null;
+        }
+
+        const foundDocument = await this.findClassFileByUsing(this.splitGenericType(actualClassName).name, currentDocument);
+        if (foundDocument) {
+            const tree = this.syntaxParser.parse(foundDocument.getText());
+            const type = this.syntaxParser.findType(tree, actualClassName, kinds);
+            if (type) {
+                return { type, document: foundDocument };
+            }
+        }
+
+        this.missingTypeCache.add(actualClassName);
+        return null;
+    }
+
     /**
      * Get the full class definition as text from workspace files
      * @param className The name of the class to find
@@ -1513,7 +1768,7 @@ export class CSharpClassParser {
 
         // Use intelligent search based on using statements
         console.log(`[CSharpClassParser] 🎯 Starting intelligent search for class definition using using statements...`);
-        const foundDocument = await this.findClassFileByUsing(actualClassName, currentDocument);
+        const foundDocument = await this.findClassFileByUsing(this.splitGenericType(actualClassName).name, currentDocument);
 
         if (foundDocument) {
             const definition = this.getClassDefinitionText(foundDocument, actualClassName);
@@ -1551,6 +1806,8 @@ export class CSharpClassParser {
         if (this.fileClassCache.delete(filePath)) {
             console.log(`[CSharpClassParser] 🧹 Cleared class cache for ${filePath}`);
         }
+        // The saved document may now declare a type that was missing before
+        this.missingTypeCache.clear();
     }
 
     /**
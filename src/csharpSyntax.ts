@@ -0,0 +1,1439 @@
+/**
+ * Lightweight C# lexer and declaration parser shared by the endpoint detector and the class parser.
+ *
+ * It does not build a full syntax tree - only tokens, attribute lists and type/member declarations
+ * with their source spans - but it understands string literals (verbatim, interpolated, raw),
+ * comments and preprocessor lines, so braces inside `$"{id}"` or a block comment never affect scope.
+ */
+
+export type CSharpTokenKind = 'identifier' | 'number' | 'string' | 'char' | 'punctuation' | 'docComment' | 'directive';
+
+export interface CSharpToken {
+    kind: CSharpTokenKind;
+    text: string;       // Identifiers without the '@' prefix, everything else as written in source
+    value?: string;     // Decoded content of string literals (interpolation holes are kept as written)
+    start: number;      // Offset of the first character
+    end: number;        // Offset after the last character
+    line: number;
+    character: number;
+}
+
+export interface CSharpAttributeArgument {
+    name?: string;          // Named argument: Name = "x" or name: "x"
+    text: string;           // Argument expression as written in source
+    stringValue?: string;   // Decoded value when the expression is a string literal or nameof(...)
+}
+
+export interface CSharpAttribute {
+    name: string;           // Simple name without namespace and "Attribute" suffix, e.g. HttpGet
+    target?: string;        // Attribute target such as return, assembly or property
+    arguments: CSharpAttributeArgument[];
+    text: string;
+    line: number;
+    character: number;
+}
+
+export interface CSharpParameter {
+    name: string;
+    type: string;
+    modifiers: string[];    // this, ref, out, in, params, scoped
+    attributes: CSharpAttribute[];
+    defaultValue?: string;
+    text: string;
+}
+
+export type CSharpTypeKind = 'class' | 'struct' | 'interface' | 'enum' | 'record' | 'record struct';
+
+export type CSharpMemberKind = 'method' | 'constructor' | 'property' | 'indexer' | 'field' | 'event' | 'enumMember';
+
+export interface CSharpMemberDeclaration {
+    kind: CSharpMemberKind;
+    name: string;
+    type: string;                   // Return, property or field type ('' for constructors and enum members)
+    modifiers: string[];
+    attributes: CSharpAttribute[];
+    typeParameters: string[];
+    parameters?: CSharpParameter[];
+    signature: string;              // Declaration text without attributes and body, e.g. "public Task<User> Get(int id)"
+    accessors?: string[];           // get, set, init, add, remove
+    expressionBodied?: boolean;
+    initializer?: string;
+    docComment?: string;
+    start: number;
+    end: number;
+    startLine: number;              // First line including attributes
+    line: number;                   // Line of the member name
+    character: number;
+    endLine: number;
+}
+
+export interface CSharpTypeDeclaration {
+    kind: CSharpTypeKind;
+    name: string;
+    fullName: string;               // Includes containing types, e.g. Outer.Inner
+    namespace?: string;
+    modifiers: string[];
+    attributes: CSharpAttribute[];
+    typeParameters: string[];
+    baseTypes: string[];
+    primaryConstructorParameters?: CSharpParameter[];
+    members: CSharpMemberDeclaration[];
+    nestedTypes: CSharpTypeDeclaration[];
+    docComment?: string;
+    start: number;
+    end: number;
+    startLine: number;
+    line: number;
+    character: number;
+    endLine: number;
+}
+
+export interface CSharpSyntaxTree {
+    text: string;
+    tokens: CSharpToken[];          // Code tokens only (no comments or preprocessor directives)
+    docComments: CSharpToken[];
+    types: CSharpTypeDeclaration[]; // Top-level types; nested ones are reachable through nestedTypes
+}
+
+const MULTI_CHAR_PUNCTUATION = [
+    '??=', '=>', '?.', '??', '::', '==', '!=', '<=', '&&', '||', '++', '--',
+    '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '->'
+];
+
+const MODIFIERS = new Set([
+    'public', 'private', 'protected', 'internal', 'static', 'abstract', 'sealed', 'partial',
+    'readonly', 'virtual', 'override', 'async', 'extern', 'unsafe', 'volatile', 'new', 'const',
+    'required', 'file', 'fixed', 'ref', 'scoped'
+]);
+
+const PARAMETER_MODIFIERS = new Set(['this', 'ref', 'out', 'in', 'params', 'scoped', 'readonly']);
+
+const ACCESSOR_KEYWORDS = new Set(['get', 'set', 'init', 'add', 'remove']);
+
+export class CSharpSyntaxParser {
+    private static instance: CSharpSyntaxParser;
+    private treeCache: Map<string, CSharpSyntaxTree> = new Map();
+    private readonly maxCachedTrees = 20;
+
+    public static getInstance(): CSharpSyntaxParser {
+        if (!CSharpSyntaxParser.instance) {
+            CSharpSyntaxParser.instance = new CSharpSyntaxParser();
+        }
+        return CSharpSyntaxParser.instance;
+    }
+
+    /**
+     * Parse C# source into tokens and type declarations. Results are cached per source text.
+     * @param text The C# source code
+     */
+    parse(text: string): CSharpSyntaxTree {
+        const cached = this.treeCache.get(text);
+        if (cached) {
+            return cached;
+        }
+
+        const allTokens = this.tokenize(text);
+        const tokens = allTokens.filter(token => token.kind !== 'docComment' && token.kind !== 'directive');
+        const docComments = allTokens.filter(token => token.kind === 'docComment');
+        const types = new DeclarationParser(text, tokens, docComments).parseCompilationUnit();
+
+        const tree: CSharpSyntaxTree = { text, tokens, docComments, types };
+
+        if (this.treeCache.size >= this.maxCachedTrees) {
+            const oldestKey = this.treeCache.keys().next().value;
+            if (oldestKey !== undefined) {
+                this.treeCache.delete(oldestKey);
+            }
+        }
+        this.treeCache.set(text, tree);
+
+        return tree;
+    }
+
+    /**
+     * Split C# source into tokens. Regular comments are dropped; doc comments and preprocessor lines are kept.
+     * @param text The C# source code
+     */
+    tokenize(text: string): CSharpToken[] {
+        const tokens: CSharpToken[] = [];
+        let line = 0;
+        let lineStart = 0;
+        let scanned = 0;
+        let atLineStart = true;
+
+        const push = (kind: CSharpTokenKind, start: number, end: number, tokenText?: string, value?: string) => {
+            // Positions only move forward, so line tracking can be incremental
+            for (; scanned < start; scanned++) {
+                if (text[scanned] === '\n') {
+                    line++;
+                    lineStart = scanned + 1;
+                }
+            }
+            tokens.push({
+                kind,
+                text: tokenText ?? text.substring(start, end),
+                value,
+                start,
+                end,
+                line,
+                character: start - lineStart
+            });
+        };
+
+        let i = 0;
+        while (i < text.length) {
+            const char = text[i];
+
+            if (char === '\n') {
+                atLineStart = true;
+                i++;
+                continue;
+            }
+            if (char === ' ' || char === '\t' || char === '\r' || char === '\f' || char === '\v' || char === '\uFEFF') {
+                i++;
+                continue;
+            }
+
+            const start = i;
+
+            // Preprocessor directive: #if, #region, #nullable ...
+            if (char === '#' && atLineStart) {
+                const end = this.findLineEnd(text, i);
+                push('directive', start, end, text.substring(start, end).trim());
+                i = end;
+                continue;
+            }
+            atLineStart = false;
+
+            if (char === '/' && text[i + 1] === '/') {
+                const end = this.findLineEnd(text, i);
+                if (text[i + 2] === '/' && text[i + 3] !== '/') {
+                    push('docComment', start, end, text.substring(start, end).trimEnd());
+                }
+                i = end;
+                continue;
+            }
+
+            if (char === '/' && text[i + 1] === '*') {
+                const close = text.indexOf('*/', i + 2);
+                const end = close === -1 ? text.length : close + 2;
+                if (text[i + 2] === '*' && text[i + 3] !== '/') {
+                    push('docComment', start, end);
+                }
+                i = end;
+                continue;
+            }
+
+            const stringEnd = this.scanStringLiteral(text, i);
+            if (stringEnd !== -1) {
+                const literal = text.substring(start, stringEnd);
+                push('string', start, stringEnd, literal, this.decodeStringLiteral(literal));
+                i = stringEnd;
+                continue;
+            }
+
+            if (char === '\'') {
+                const end = this.scanCharLiteral(text, i);
+                push('char', start, end);
+                i = end;
+                continue;
+            }
+
+            if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(text[i + 1] || ''))) {
+                const numberMatch = text.substring(i).match(/^(?:0[xXbB][0-9a-fA-F_]+|[0-9_]*\.?[0-9_]+(?:[eE][+-]?[0-9_]+)?)[uUlLfFdDmM]*/);
+                const end = i + (numberMatch ? numberMatch[0].length : 1);
+                push('number', start, end);
+                i = end;
+                continue;
+            }
+
+            const identifierStart = char === '@' ? i + 1 : i;
+            if (this.isIdentifierStart(text[identifierStart])) {
+                let end = identifierStart + 1;
+                while (end < text.length && this.isIdentifierPart(text[end])) {
+                    end++;
+                }
+                push('identifier', start, end, text.substring(identifierStart, end));
+                i = end;
+                continue;
+            }
+
+            const punctuation = MULTI_CHAR_PUNCTUATION.find(p => text.startsWith(p, i)) || char;
+            push('punctuation', start, i + punctuation.length);
+            i += punctuation.length;
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Flatten top-level and nested type declarations
+     */
+    getAllTypes(tree: CSharpSyntaxTree): CSharpTypeDeclaration[] {
+        const result: CSharpTypeDeclaration[] = [];
+        const visit = (types: CSharpTypeDeclaration[]) => {
+            for (const type of types) {
+                result.push(type);
+                visit(type.nestedTypes);
+            }
+        };
+        visit(tree.types);
+        return result;
+    }
+
+    /**
+     * Find a type declaration by simple name or by nested name (OuterClass.InnerClass)
+     * @param kinds Restrict the search to these declaration kinds
+     * @param typeParameterCount Prefer the declaration with this many type parameters, e.g. 1 for Envelope<T> over Envelope
+     */
+    findType(tree: CSharpSyntaxTree, name: string, kinds?: CSharpTypeKind[], typeParameterCount?: number): CSharpTypeDeclaration | undefined {
+        const candidates = this.getAllTypes(tree).filter(type => !kinds || kinds.includes(type.kind));
+
+        const matches = name.includes('.')
+            ? candidates.filter(type => type.fullName === name || type.fullName.endsWith(`.${name}`))
+            : candidates.filter(type => type.name === name);
+        return matches.find(type => type.typeParameters.length === typeParameterCount) ?? matches[0];
+    }
+
+    /**
+     * Find the index of the token closing the bracket opened at openIndex, or tokens.length if unbalanced
+     */
+    findMatchingToken(tokens: CSharpToken[], openIndex: number): number {
+        let depth = 0;
+        for (let i = openIndex; i < tokens.length; i++) {
+            const text = tokens[i].text;
+            if (tokens[i].kind !== 'punctuation') {
+                continue;
+            }
+            if (text === '(' || text === '[' || text === '{') {
+                depth++;
+            } else if (text === ')' || text === ']' || text === '}') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return tokens.length;
+    }
+
+    /**
+     * Find the index of the token opening the bracket closed at closeIndex, or -1 if unbalanced
+     */
+    findMatchingOpenToken(tokens: CSharpToken[], closeIndex: number): number {
+        let depth = 0;
+        for (let i = closeIndex; i >= 0; i--) {
+            const text = tokens[i].text;
+            if (tokens[i].kind !== 'punctuation') {
+                continue;
+            }
+            if (text === ')' || text === ']' || text === '}') {
+                depth++;
+            } else if (text === '(' || text === '[' || text === '{') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Split the tokens in [start, end) at top-level commas
+     * @returns Inclusive [first, last] token index ranges; empty arguments are skipped
+     */
+    splitTokenList(tokens: CSharpToken[], start: number, end: number): Array<[number, number]> {
+        const ranges: Array<[number, number]> = [];
+        let segmentStart = start;
+
+        for (let i = start; i < end; i++) {
+            const text = tokens[i].text;
+            if (tokens[i].kind === 'punctuation' && (text === '(' || text === '[' || text === '{')) {
+                i = this.findMatchingToken(tokens, i);
+                continue;
+            }
+            if (tokens[i].kind === 'punctuation' && text === ',') {
+                if (i > segmentStart) {
+                    ranges.push([segmentStart, i - 1]);
+                }
+                segmentStart = i + 1;
+            }
+        }
+
+        if (end > segmentStart) {
+            ranges.push([segmentStart, end - 1]);
+        }
+        return ranges;
+    }
+
+    /**
+     * Source text between two tokens (inclusive) with whitespace collapsed
+     */
+    getText(tree: CSharpSyntaxTree, firstToken: number, lastToken: number): string {
+        if (firstToken > lastToken || firstToken >= tree.tokens.length) {
+            return '';
+        }
+        return tree.text.substring(tree.tokens[firstToken].start, tree.tokens[Math.min(lastToken, tree.tokens.length - 1)].end)
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    private findLineEnd(text: string, index: number): number {
+        const end = text.indexOf('\n', index);
+        return end === -1 ? text.length : end;
+    }
+
+    private isIdentifierStart(char: string | undefined): boolean {
+        return !!char && /[\p{L}_]/u.test(char);
+    }
+
+    private isIdentifierPart(char: string): boolean {
+        return /[\p{L}\p{Nd}\p{Mn}\p{Mc}\p{Pc}]/u.test(char);
+    }
+
+    /**
+     * If a string literal ("..", @"..", $"..", $@"..", """..""") starts at index, return the index after it; otherwise -1
+     */
+    private scanStringLiteral(text: string, index: number): number {
+        let i = index;
+        let dollarCount = 0;
+        let verbatim = false;
+
+        while (text[i] === '$' || text[i] === '@') {
+            if (text[i] === '$') {
+                dollarCount++;
+            } else {
+                verbatim = true;
+            }
+            i++;
+        }
+        if (text[i] !== '"') {
+            return -1;
+        }
+
+        let end: number;
+        if (!verbatim && text.startsWith('"""', i)) {
+            let quoteCount = 0;
+            while (text[i + quoteCount] === '"') {
+                quoteCount++;
+            }
+            const close = text.indexOf('"'.repeat(quoteCount), i + quoteCount);
+            end = close === -1 ? text.length : close + quoteCount;
+        } else {
+            end = this.scanQuotedString(text, i + 1, verbatim, dollarCount > 0);
+        }
+
+        // UTF-8 string literal suffix: "abc"u8
+        if (text.startsWith('u8', end) || text.startsWith('U8', end)) {
+            end += 2;
+        }
+        return end;
+    }
+
+    private scanQuotedString(text: string, index: number, verbatim: boolean, interpolated: boolean): number {
+        let holeDepth = 0;
+        let i = index;
+
+        while (i < text.length) {
+            const char = text[i];
+
+            if (holeDepth > 0) {
+                // Inside an interpolation hole: nested literals and braces belong to the expression
+                const nestedEnd = this.scanStringLiteral(text, i);
+                if (nestedEnd !== -1) {
+                    i = nestedEnd;
+                    continue;
+                }
+                if (char === '\'') {
+                    i = this.scanCharLiteral(text, i);
+                    continue;
+                }
+                if (char === '{') {
+                    holeDepth++;
+                } else if (char === '}') {
+                    holeDepth--;
+                }
+                i++;
+                continue;
+            }
+
+            if (char === '\\' && !verbatim) {
+                i += 2;
+                continue;
+            }
+            if (char === '"') {
+                if (verbatim && text[i + 1] === '"') {
+                    i += 2;
+                    continue;
+                }
+                return i + 1;
+            }
+            if (char === '\n' && !verbatim) {
+                return i; // Unterminated literal, stop at the end of the line
+            }
+            if (interpolated && (char === '{' || char === '}')) {
+                if (text[i + 1] === char) {
+                    i += 2;
+                    continue;
+                }
+                if (char === '{') {
+                    holeDepth++;
+                }
+            }
+            i++;
+        }
+
+        return text.length;
+    }
+
+    private scanCharLiteral(text: string, index: number): number {
+        let i = index + 1;
+        while (i < text.length && text[i] !== '\'' && text[i] !== '\n') {
+            i += text[i] === '\\' ? 2 : 1;
+        }
+        return text[i] === '\'' ? i + 1 : i;
+    }
+
+    private decodeStringLiteral(literal: string): string {
+        const prefix = (literal.match(/^[\$@]*/) || [''])[0];
+        const body = literal.substring(prefix.length).replace(/[uU]8$/, '');
+
+        const rawMatch = body.match(/^("{3,})([\s\S]*?)\1$/);
+        if (rawMatch) {
+            return this.trimRawStringContent(rawMatch[2]);
+        }
+
+        let content = body.replace(/^"/, '').replace(/"$/, '');
+        if (prefix.includes('@')) {
+            content = content.replace(/""/g, '"');
+        } else {
+            const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0' };
+            content = content.replace(/\\(.)/g, (_match, escaped: string) => escapes[escaped] ?? escaped);
+        }
+        if (prefix.includes('$')) {
+            content = content.replace(/\{\{/g, '{').replace(/\}\}/g, '}');
+        }
+        return content;
+    }
+
+    /**
+     * Multi-line raw strings drop the opening/closing lines and the closing line's indentation
+     */
+    private trimRawStringContent(content: string): string {
+        if (!content.includes('\n')) {
+            return content.trim();
+        }
+        const contentLines = content.split('\n');
+        const indentation = (contentLines[contentLines.length - 1].match(/^[ \t]*/) || [''])[0];
+        return contentLines
+            .slice(1, -1)
+            .map(line => line.startsWith(indentation) ? line.substring(indentation.length) : line.trimStart())
+            .join('\n')
+            .replace(/\r/g, '');
+    }
+}
+
+/**
+ * Recursive-descent reader over code tokens that collects type and member declarations.
+ * Anything that is not a declaration (top-level statements, method bodies) is skipped as a balanced unit.
+ */
+class DeclarationParser {
+    private pos = 0;
+    private docCommentIndex = 0;
+
+    constructor(
+        private readonly text: string,
+        private readonly tokens: CSharpToken[],
+        private readonly docComments: CSharpToken[]
+    ) {}
+
+    parseCompilationUnit(): CSharpTypeDeclaration[] {
+        return this.parseScope(this.tokens.length, undefined, undefined);
+    }
+
+    /**
+     * Parse declarations up to (not including) token index end.
+     * Nested types are returned; members are added to the containing type.
+     */
+    private parseScope(end: number, namespace: string | undefined, container: CSharpTypeDeclaration | undefined): CSharpTypeDeclaration[] {
+        const types: CSharpTypeDeclaration[] = [];
+
+        while (this.pos < end) {
+            const declarationStart = this.pos;
+            const token = this.tokens[this.pos];
+
+            if (this.isPunctuation(token, ';') || this.isPunctuation(token, '}')) {
+                this.pos++;
+                continue;
+            }
+
+            if (!container && (token.text === 'using' || token.text === 'extern' || token.text === 'global')) {
+                this.skipStatement(end);
+                continue;
+            }
+
+            if (!container && token.text === 'namespace') {
+                this.pos++;
+                const nameStart = this.pos;
+                while (this.pos < end && (this.tokens[this.pos].kind === 'identifier' || this.isPunctuation(this.tokens[this.pos], '.'))) {
+                    this.pos++;
+                }
+                const name = this.tokens.slice(nameStart, this.pos).map(t => t.text).join('');
+                const fullNamespace = namespace ? `${namespace}.${name}` : name;
+
+                if (this.isAt('{')) {
+                    const close = this.findClose(this.pos);
+                    this.pos++;
+                    types.push(...this.parseScope(Math.min(close, end), fullNamespace, undefined));
+                    this.pos = close + 1;
+                } else {
+                    // File-scoped namespace applies to the rest of the file
+                    if (this.isAt(';')) {
+                        this.pos++;
+                    }
+                    namespace = fullNamespace;
+                }
+                continue;
+            }
+
+            const attributes = this.parseAttributeLists(end);
+            const modifiers = this.parseModifiers(end);
+
+            // Global attributes stand on their own: [assembly: InternalsVisibleTo("Tests")]
+            if (attributes.length > 0 && modifiers.length === 0 && attributes.every(a => a.target === 'assembly' || a.target === 'module')) {
+                continue;
+            }
+
+            if (this.isTypeDeclarationStart()) {
+                types.push(this.parseTypeDeclaration(declarationStart, attributes, modifiers, namespace, container));
+            } else if (container) {
+                this.parseMember(container, declarationStart, attributes, modifiers, end);
+            } else {
+                this.skipStatement(end);
+            }
+
+            if (this.pos === declarationStart) {
+                this.pos++;
+            }
+        }
+
+        return types;
+    }
+
+    private isTypeDeclarationStart(): boolean {
+        const keyword = this.current();
+        const next = this.peek(1);
+        if (!keyword || !next) {
+            return false;
+        }
+        if (['class', 'struct', 'interface', 'enum'].includes(keyword.text)) {
+            return next.kind === 'identifier';
+        }
+        if (keyword.text === 'record') {
+            return next.kind === 'identifier' && (!['class', 'struct'].includes(next.text) || this.peek(2)?.kind === 'identifier');
+        }
+        return false;
+    }
+
+    private parseTypeDeclaration(
+        declarationStart: number,
+        attributes: CSharpAttribute[],
+        modifiers: string[],
+        namespace: string | undefined,
+        container: CSharpTypeDeclaration | undefined
+    ): CSharpTypeDeclaration {
+        let kind = this.tokens[this.pos++].text as CSharpTypeKind;
+        if (kind === 'record' && (this.isAt('class') || this.isAt('struct'))) {
+            kind = this.tokens[this.pos++].text === 'struct' ? 'record struct' : 'record';
+        }
+
+        const nameToken = this.tokens[this.pos++];
+        const typeParameters = this.isAt('<') ? this.readTypeParameters() : [];
+
+        let primaryConstructorParameters: CSharpParameter[] | undefined;
+        if (this.isAt('(')) {
+            const close = this.findClose(this.pos);
+            primaryConstructorParameters = this.parseParameterList(this.pos + 1, close);
+            this.pos = close + 1;
+        }
+
+        const baseTypes: string[] = [];
+        if (this.isAt(':')) {
+            this.pos++;
+            while (this.pos < this.tokens.length && !this.isAt('{') && !this.isAt(';') && !this.isAt('where')) {
+                const typeStart = this.pos;
+                const baseType = this.readType();
+                if (baseType) {
+                    baseTypes.push(baseType);
+                }
+                // Record base with arguments: record Child(int X) : Base(X)
+                if (this.isAt('(')) {
+                    this.pos = this.findClose(this.pos) + 1;
+                }
+                if (this.isAt(',')) {
+                    this.pos++;
+                } else if (this.pos === typeStart) {
+                    this.pos++;
+                }
+            }
+        }
+
+        // Generic constraints: where T : class, new()
+        while (this.pos < this.tokens.length && !this.isAt('{') && !this.isAt(';')) {
+            this.pos++;
+        }
+
+        const type: CSharpTypeDeclaration = {
+            kind,
+            name: nameToken.text,
+            fullName: container ? `${container.fullName}.${nameToken.text}` : nameToken.text,
+            namespace,
+            modifiers,
+            attributes,
+            typeParameters,
+            baseTypes,
+            primaryConstructorParameters,
+            members: [],
+            nestedTypes: [],
+            docComment: this.takeDocComment(declarationStart),
+            start: this.tokens[declarationStart].start,
+            end: nameToken.end,
+            startLine: this.tokens[declarationStart].line,
+            line: nameToken.line,
+            character: nameToken.character,
+            endLine: nameToken.line
+        };
+
+        let lastToken = this.pos - 1;
+        if (this.isAt('{')) {
+            const close = this.findClose(this.pos);
+            this.pos++;
+            if (kind === 'enum') {
+                this.parseEnumMembers(type, close);
+            } else {
+                type.nestedTypes = this.parseScope(close, namespace, type);
+            }
+            this.pos = close + 1;
+            lastToken = Math.min(close, this.tokens.length - 1);
+        } else if (this.isAt(';')) {
+            lastToken = this.pos;
+            this.pos++;
+        }
+        if (this.isAt(';')) {
+            this.pos++;
+        }
+
+        type.end = this.tokens[lastToken].end;
+        type.endLine = this.tokens[lastToken].line;
+        return type;
+    }
+
+    private parseEnumMembers(type: CSharpTypeDeclaration, end: number): void {
+        while (this.pos < end) {
+            const declarationStart = this.pos;
+            const attributes = this.parseAttributeLists(end);
+            const nameToken = this.current();
+
+            if (!nameToken || nameToken.kind !== 'identifier') {
+                this.pos = Math.max(this.pos, declarationStart + 1);
+                continue;
+            }
+            this.pos++;
+
+            let initializer: string | undefined;
+            if (this.isAt('=')) {
+                const initializerStart = ++this.pos;
+                this.advanceTo([','], end);
+                initializer = this.textBetween(initializerStart, this.pos - 1);
+            }
+
+            type.members.push({
+                kind: 'enumMember',
+                name: nameToken.text,
+                type: '',
+                modifiers: [],
+                attributes,
+                typeParameters: [],
+                signature: nameToken.text,
+                initializer,
+                docComment: this.takeDocComment(declarationStart),
+                start: this.tokens[declarationStart].start,
+                end: this.tokens[this.pos - 1].end,
+                startLine: this.tokens[declarationStart].line,
+                line: nameToken.line,
+                character: nameToken.character,
+                endLine: this.tokens[this.pos - 1].line
+            });
+
+            if (this.isAt(',')) {
+                this.pos++;
+            }
+        }
+    }
+
+    private parseMember(container: CSharpTypeDeclaration, declarationStart: number, attributes: CSharpAttribute[], modifiers: string[], end: number): void {
+        const first = this.current();
+        if (!first) {
+            return;
+        }
+
+        // Destructors, delegates and conversion operators carry nothing we need
+        if (['~', 'delegate', 'implicit', 'explicit'].includes(first.text)) {
+            this.skipMemberBody(end);
+            return;
+        }
+
+        const signatureStart = this.firstTokenAfterAttributes(declarationStart);
+        let kind: CSharpMemberKind | undefined;
+        if (first.text === 'event') {
+            kind = 'event';
+            this.pos++;
+        }
+
+        // Constructor: Name(...)
+        if (first.kind === 'identifier' && first.text === container.name && this.peek(1)?.text === '(') {
+            this.pos++;
+            this.parseMethodRest(container, 'constructor', '', first, [], declarationStart, signatureStart, attributes, modifiers, end);
+            return;
+        }
+
+        const typeStart = this.pos;
+        const memberType = this.readType();
+        if (this.pos === typeStart) {
+            this.skipStatement(end);
+            return;
+        }
+
+        if (this.isAt('operator')) {
+            this.skipMemberBody(end);
+            return;
+        }
+
+        if (this.isAt('this') && this.peek(1)?.text === '[') {
+            const nameToken = this.tokens[this.pos++];
+            const close = this.findClose(this.pos);
+            const parameters = this.parseParameterList(this.pos + 1, close);
+            this.pos = close + 1;
+            this.parsePropertyRest(container, 'indexer', memberType, nameToken, declarationStart, signatureStart, attributes, modifiers, end, parameters);
+            return;
+        }
+
+        // Name, possibly qualified by an explicitly implemented interface: IFoo.Bar
+        let nameToken = this.current();
+        if (!nameToken || nameToken.kind !== 'identifier') {
+            this.skipStatement(end);
+            return;
+        }
+        this.pos++;
+        while (this.isAt('.') && this.peek(1)?.kind === 'identifier') {
+            nameToken = this.tokens[this.pos + 1];
+            this.pos += 2;
+        }
+
+        const typeParameters = this.isAt('<') ? this.readTypeParameters() : [];
+
+        if (this.isAt('(')) {
+            this.parseMethodRest(container, 'method', memberType, nameToken, typeParameters, declarationStart, signatureStart, attributes, modifiers, end);
+        } else if (this.isAt('{') || this.isAt('=>')) {
+            this.parsePropertyRest(container, kind || 'property', memberType, nameToken, declarationStart, signatureStart, attributes, modifiers, end);
+        } else if (this.isAt('=') || this.isAt(';') || this.isAt(',') || this.isAt('[')) {
+            this.parseFieldRest(container, kind || 'field', memberType, nameToken, declarationStart, signatureStart, attributes, modifiers, end);
+        } else {
+            this.skipStatement(end);
+        }
+    }
+
+    private parseMethodRest(
+        container: CSharpTypeDeclaration,
+        kind: CSharpMemberKind,
+        returnType: string,
+        nameToken: CSharpToken,
+        typeParameters: string[],
+        declarationStart: number,
+        signatureStart: number,
+        attributes: CSharpAttribute[],
+        modifiers: string[],
+        end: number
+    ): void {
+        const openParen = this.pos;
+        const closeParen = this.findClose(openParen);
+        const parameters = this.parseParameterList(openParen + 1, closeParen);
+        const signature = this.textBetween(signatureStart, closeParen);
+        this.pos = closeParen + 1;
+
+        // Constructor initializer (: base(...)) or generic constraints (where T : new())
+        while (this.pos < end && !this.isAt('{') && !this.isAt('=>') && !this.isAt(';')) {
+            if (this.isAt('(')) {
+                this.pos = this.findClose(this.pos);
+            }
+            this.pos++;
+        }
+
+        let expressionBodied = false;
+        if (this.isAt('{')) {
+            this.pos = this.findClose(this.pos) + 1;
+        } else if (this.isAt('=>')) {
+            expressionBodied = true;
+            this.skipStatement(end);
+        } else if (this.isAt(';')) {
+            this.pos++;
+        }
+
+        container.members.push(this.createMember(kind, nameToken, returnType, declarationStart, attributes, modifiers, {
+            typeParameters,
+            parameters,
+            signature,
+            expressionBodied
+        }));
+    }
+
+    private parsePropertyRest(
+        container: CSharpTypeDeclaration,
+        kind: CSharpMemberKind,
+        propertyType: string,
+        nameToken: CSharpToken,
+        declarationStart: number,
+        signatureStart: number,
+        attributes: CSharpAttribute[],
+        modifiers: string[],
+        end: number,
+        parameters?: CSharpParameter[]
+    ): void {
+        const signature = this.textBetween(signatureStart, this.pos - 1);
+        let accessors: string[] = [];
+        let expressionBodied = false;
+        let initializer: string | undefined;
+
+        if (this.isAt('=>')) {
+            expressionBodied = true;
+            accessors = ['get'];
+            this.skipStatement(end);
+        } else {
+            const close = this.findClose(this.pos);
+            accessors = this.readAccessors(this.pos + 1, close);
+            this.pos = close + 1;
+
+            // Auto-property initializer: { get; set; } = new();
+            if (this.isAt('=')) {
+                const initializerStart = ++this.pos;
+                this.advanceTo([';'], end);
+                initializer = this.textBetween(initializerStart, this.pos - 1);
+                this.pos++;
+            }
+        }
+
+        container.members.push(this.createMember(kind, nameToken, propertyType, declarationStart, attributes, modifiers, {
+            parameters,
+            signature,
+            accessors,
+            expressionBodied,
+            initializer
+        }));
+    }
+
+    private parseFieldRest(
+        container: CSharpTypeDeclaration,
+        kind: CSharpMemberKind,
+        fieldType: string,
+        nameToken: CSharpToken,
+        declarationStart: number,
+        signatureStart: number,
+        attributes: CSharpAttribute[],
+        modifiers: string[],
+        end: number
+    ): void {
+        // One declaration can declare several fields: int a = 1, b;
+        let currentName: CSharpToken | undefined = nameToken;
+        while (currentName) {
+            const signature = this.textBetween(signatureStart, this.pos - 1);
+
+            // Fixed-size buffer: fixed byte data[16];
+            if (this.isAt('[')) {
+                this.pos = this.findClose(this.pos) + 1;
+            }
+
+            let initializer: string | undefined;
+            if (this.isAt('=')) {
+                const initializerStart = ++this.pos;
+                this.advanceTo([',', ';'], end);
+                initializer = this.textBetween(initializerStart, this.pos - 1);
+            }
+
+            container.members.push(this.createMember(kind, currentName, fieldType, declarationStart, attributes, modifiers, {
+                signature,
+                initializer
+            }));
+
+            currentName = undefined;
+            if (this.isAt(',') && this.peek(1)?.kind === 'identifier') {
+                currentName = this.tokens[this.pos + 1];
+                signatureStart = this.pos + 1;
+                this.pos += 2;
+            }
+        }
+
+        this.advanceTo([';'], end);
+        if (this.isAt(';')) {
+            this.pos++;
+        }
+    }
+
+    private createMember(
+        kind: CSharpMemberKind,
+        nameToken: CSharpToken,
+        type: string,
+        declarationStart: number,
+        attributes: CSharpAttribute[],
+        modifiers: string[],
+        details: Partial<CSharpMemberDeclaration>
+    ): CSharpMemberDeclaration {
+        const lastToken = this.tokens[Math.min(this.pos, this.tokens.length) - 1];
+        return {
+            kind,
+            name: nameToken.text,
+            type,
+            modifiers,
+            attributes,
+            typeParameters: [],
+            signature: '',
+            docComment: this.takeDocComment(declarationStart),
+            start: this.tokens[declarationStart].start,
+            end: lastToken.end,
+            startLine: this.tokens[declarationStart].line,
+            line: nameToken.line,
+            character: nameToken.character,
+            endLine: lastToken.line,
+            ...details
+        };
+    }
+
+    private readAccessors(start: number, end: number): string[] {
+        const accessors: string[] = [];
+        for (let i = start; i < end; i++) {
+            const token = this.tokens[i];
+            if (this.isPunctuation(token, '{') || this.isPunctuation(token, '(') || this.isPunctuation(token, '[')) {
+                i = this.findClose(i);
+                continue;
+            }
+            if (this.isPunctuation(token, '=>')) {
+                // Expression-bodied accessor: get => _value;
+                while (i < end && !this.isPunctuation(this.tokens[i], ';')) {
+                    i++;
+                }
+                continue;
+            }
+            if (token.kind === 'identifier' && ACCESSOR_KEYWORDS.has(token.text)) {
+                accessors.push(token.text);
+            }
+        }
+        return accessors;
+    }
+
+    private parseAttributeLists(end: number): CSharpAttribute[] {
+        const attributes: CSharpAttribute[] = [];
+
+        while (this.isAt('[') && this.pos < end) {
+            const close = this.findClose(this.pos);
+            let i = this.pos + 1;
+
+            // Attribute target: [return: ...], [assembly: ...], [property: ...]
+            let target: string | undefined;
+            if (this.tokens[i]?.kind === 'identifier' && this.isPunctuation(this.tokens[i + 1], ':')) {
+                target = this.tokens[i].text;
+                i += 2;
+            }
+
+            for (const [first, last] of this.splitRange(i, close)) {
+                const attribute = this.parseAttribute(first, last, target);
+                if (attribute) {
+                    attributes.push(attribute);
+                }
+            }
+
+            this.pos = close + 1;
+        }
+
+        return attributes;
+    }
+
+    private parseAttribute(first: number, last: number, target: string | undefined): CSharpAttribute | null {
+        let i = first;
+        let nameToken: CSharpToken | undefined;
+        while (i <= last && (this.tokens[i].kind === 'identifier' || this.isPunctuation(this.tokens[i], '.') || this.isPunctuation(this.tokens[i], '::'))) {
+            if (this.tokens[i].kind === 'identifier') {
+                nameToken = this.tokens[i];
+            }
+            i++;
+        }
+        if (!nameToken) {
+            return null;
+        }
+
+        // Generic attribute: [ProducesResponseType<Order>(200)]
+        if (i <= last && this.isPunctuation(this.tokens[i], '<')) {
+            const close = this.findAngleClose(i);
+            i = close === -1 ? i : close + 1;
+        }
+
+        const attributeArguments: CSharpAttributeArgument[] = [];
+        if (i <= last && this.isPunctuation(this.tokens[i], '(')) {
+            const close = this.findClose(i);
+            for (const [argFirst, argLast] of this.splitRange(i + 1, close)) {
+                attributeArguments.push(this.parseAttributeArgument(argFirst, argLast));
+            }
+        }
+
+        return {
+            name: nameToken.text.replace(/Attribute$/, '') || nameToken.text,
+            target,
+            arguments: attributeArguments,
+            text: this.textBetween(first, last),
+            line: nameToken.line,
+            character: nameToken.character
+        };
+    }
+
+    private parseAttributeArgument(first: number, last: number): CSharpAttributeArgument {
+        let name: string | undefined;
+        let valueStart = first;
+
+        const nameToken = this.tokens[first];
+        const separator = this.tokens[first + 1];
+        if (nameToken.kind === 'identifier' && first + 1 < last &&
+            (this.isPunctuation(separator, '=') || this.isPunctuation(separator, ':'))) {
+            name = nameToken.text;
+            valueStart = first + 2;
+        }
+
+        let stringValue: string | undefined;
+        const valueToken = this.tokens[valueStart];
+        if (valueStart === last && valueToken.kind === 'string') {
+            stringValue = valueToken.value;
+        } else if (valueToken?.text === 'nameof' && this.isPunctuation(this.tokens[last], ')')) {
+            const identifiers = this.tokens.slice(valueStart + 2, last).filter(t => t.kind === 'identifier');
+            stringValue = identifiers.length > 0 ? identifiers[identifiers.length - 1].text : undefined;
+        }
+
+        return {
+            name,
+            text: this.textBetween(valueStart, last),
+            stringValue
+        };
+    }
+
+    private parseParameterList(start: number, end: number): CSharpParameter[] {
+        const parameters: CSharpParameter[] = [];
+        const savedPos = this.pos;
+
+        for (const [first, last] of this.splitRange(start, end)) {
+            this.pos = first;
+            const attributes = this.parseAttributeLists(last + 1);
+
+            const modifiers: string[] = [];
+            while (this.pos <= last && PARAMETER_MODIFIERS.has(this.tokens[this.pos].text) && this.peek(1)?.kind !== 'punctuation') {
+                modifiers.push(this.tokens[this.pos++].text);
+            }
+
+            const typeStart = this.pos;
+            const type = this.readType();
+            const nameToken = this.pos <= last ? this.tokens[this.pos] : undefined;
+
+            // Untyped lambda parameters only have a name
+            if (!nameToken || nameToken.kind !== 'identifier') {
+                parameters.push({ name: type, type: '', modifiers, attributes, text: this.textBetween(first, last) });
+                continue;
+            }
+            this.pos++;
+
+            let defaultValue: string | undefined;
+            if (this.pos <= last && this.isAt('=')) {
+                defaultValue = this.textBetween(this.pos + 1, last);
+            }
+
+            parameters.push({
+                name: nameToken.text,
+                type: this.pos - 1 > typeStart ? type : '',
+                modifiers,
+                attributes,
+                defaultValue,
+                text: this.textBetween(first, last)
+            });
+        }
+
+        this.pos = savedPos;
+        return parameters;
+    }
+
+    private parseModifiers(end: number): string[] {
+        const modifiers: string[] = [];
+        while (this.pos < end) {
+            const token = this.tokens[this.pos];
+            const next = this.peek(1);
+            // 'new' and 'ref' are modifiers only when followed by another declaration token
+            if (token.kind !== 'identifier' || !MODIFIERS.has(token.text) || !next || (next.kind === 'punctuation' && next.text !== '(')) {
+                break;
+            }
+            if (token.text === 'new' && next.text === '(') {
+                break;
+            }
+            modifiers.push(token.text);
+            this.pos++;
+        }
+        return modifiers;
+    }
+
+    /**
+     * Read a type at the current position: qualified names, generics, tuples, nullable, arrays and pointers
+     */
+    private readType(): string {
+        const start = this.pos;
+
+        if (this.isAt('(')) {
+            this.pos = this.findClose(this.pos) + 1;
+        } else {
+            while (this.pos < this.tokens.length && this.tokens[this.pos].kind === 'identifier') {
+                this.pos++;
+                if (this.isAt('<')) {
+                    const close = this.findAngleClose(this.pos);
+                    if (close !== -1) {
+                        this.pos = close + 1;
+                    }
+                }
+                if ((this.isAt('.') || this.isAt('::')) && this.peek(1)?.kind === 'identifier') {
+                    this.pos++;
+                    continue;
+                }
+                break;
+            }
+        }
+
+        if (this.pos === start) {
+            return '';
+        }
+
+        // Suffixes: int?, byte[], int[,], char*
+        while (this.pos < this.tokens.length) {
+            if (this.isAt('?') || this.isAt('*')) {
+                this.pos++;
+            } else if (this.isAt('[') && (this.peek(1)?.text === ']' || this.peek(1)?.text === ',')) {
+                this.pos = this.findClose(this.pos) + 1;
+            } else {
+                break;
+            }
+        }
+
+        return this.textBetween(start, this.pos - 1).replace(/\s*([<>,.?\[\]])\s*/g, '$1').replace(/,(?![\],])/g, ', ');
+    }
+
+    private readTypeParameters(): string[] {
+        const close = this.findAngleClose(this.pos);
+        if (close === -1) {
+            return [];
+        }
+        const typeParameters = this.tokens
+            .slice(this.pos + 1, close)
+            .filter(token => token.kind === 'identifier' && token.text !== 'in' && token.text !== 'out')
+            .map(token => token.text);
+        this.pos = close + 1;
+        return typeParameters;
+    }
+
+    /**
+     * Find the '>' closing a generic argument list, or -1 if '<' is not a generic bracket
+     */
+    private findAngleClose(openIndex: number): number {
+        let depth = 0;
+        for (let i = openIndex; i < this.tokens.length; i++) {
+            const token = this.tokens[i];
+            if (this.isPunctuation(token, '<')) {
+                depth++;
+            } else if (this.isPunctuation(token, '>')) {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            } else if (this.isPunctuation(token, '(') || this.isPunctuation(token, '[')) {
+                i = this.findClose(i);
+            } else if (token.kind === 'punctuation' && !['.', ',', '?', '*', '::'].includes(token.text)) {
+                return -1;
+            } else if (token.kind !== 'punctuation' && token.kind !== 'identifier') {
+                return -1;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Skip a statement or an unknown member, stopping after ';' or a block body
+     */
+    private skipStatement(end: number): void {
+        while (this.pos < end) {
+            const token = this.tokens[this.pos];
+
+            if (this.isPunctuation(token, ';')) {
+                this.pos++;
+                return;
+            }
+            if (this.isPunctuation(token, '}')) {
+                return; // End of the enclosing scope
+            }
+            if (this.isPunctuation(token, '(') || this.isPunctuation(token, '[')) {
+                this.pos = this.findClose(this.pos) + 1;
+                continue;
+            }
+            if (this.isPunctuation(token, '{')) {
+                this.pos = this.findClose(this.pos) + 1;
+                // A block body (if, for, local function) ends the statement; an object initializer does not
+                const next = this.current();
+                if (!next || !['.', '?.', ',', ')', ']', ';', '??', ':', '?'].includes(next.text)) {
+                    return;
+                }
+                continue;
+            }
+            this.pos++;
+        }
+    }
+
+    private skipMemberBody(end: number): void {
+        while (this.pos < end && !this.isAt('{') && !this.isAt(';') && !this.isAt('=>')) {
+            if (this.isAt('(')) {
+                this.pos = this.findClose(this.pos);
+            }
+            this.pos++;
+        }
+        if (this.isAt('{')) {
+            this.pos = this.findClose(this.pos) + 1;
+        } else {
+            this.skipStatement(end);
+        }
+    }
+
+    /**
+     * Move to the next top-level token whose text is one of stopTexts, skipping nested brackets and generic arguments
+     */
+    private advanceTo(stopTexts: string[], end: number): void {
+        while (this.pos < end) {
+            const token = this.tokens[this.pos];
+            if (token.kind === 'punctuation' && stopTexts.includes(token.text)) {
+                return;
+            }
+            if (this.isPunctuation(token, '}')) {
+                return;
+            }
+            if (this.isPunctuation(token, '(') || this.isPunctuation(token, '[') || this.isPunctuation(token, '{')) {
+                this.pos = this.findClose(this.pos) + 1;
+                continue;
+            }
+            if (this.isPunctuation(token, '<')) {
+                const close = this.findAngleClose(this.pos);
+                if (close !== -1) {
+                    this.pos = close + 1;
+                    continue;
+                }
+            }
+            this.pos++;
+        }
+    }
+
+    private splitRange(start: number, end: number): Array<[number, number]> {
+        const ranges: Array<[number, number]> = [];
+        let segmentStart = start;
+
+        for (let i = start; i < end; i++) {
+            const token = this.tokens[i];
+            if (this.isPunctuation(token, '(') || this.isPunctuation(token, '[') || this.isPunctuation(token, '{')) {
+                i = this.findClose(i);
+            } else if (this.isPunctuation(token, '<')) {
+                const close = this.findAngleClose(i);
+                if (close !== -1 && close < end) {
+                    i = close;
+                }
+            } else if (this.isPunctuation(token, ',')) {
+                if (i > segmentStart) {
+                    ranges.push([segmentStart, i - 1]);
+                }
+                segmentStart = i + 1;
+            }
+        }
+
+        if (end > segmentStart) {
+            ranges.push([segmentStart, end - 1]);
+        }
+        return ranges;
+    }
+
+    private firstTokenAfterAttributes(declarationStart: number): number {
+        let i = declarationStart;
+        while (this.isPunctuation(this.tokens[i], '[')) {
+            i = this.findClose(i) + 1;
+        }
+        return i;
+    }
+
+    /**
+     * Collect the /// comment lines directly preceding the declaration starting at token index
+     */
+    private takeDocComment(declarationStart: number): string | undefined {
+        const declarationOffset = this.tokens[declarationStart].start;
+        const previousEnd = declarationStart > 0 ? this.tokens[declarationStart - 1].end : 0;
+
+        while (this.docCommentIndex < this.docComments.length && this.docComments[this.docCommentIndex].end <= previousEnd) {
+            this.docCommentIndex++;
+        }
+
+        const lines: string[] = [];
+        for (let i = this.docCommentIndex; i < this.docComments.length && this.docComments[i].start < declarationOffset; i++) {
+            const comment = this.docComments[i].text;
+            lines.push(comment.startsWith('///')
+                ? comment.replace(/^\/\/\/ ?/, '')
+                : comment.replace(/^\/\*\*|\*\/$/g, '').split('\n').map(line => line.replace(/^\s*\* ?/, '')).join('\n').trim());
+        }
+
+        return lines.length > 0 ? lines.join('\n') : undefined;
+    }
+
+    private findClose(openIndex: number): number {
+        let depth = 0;
+        for (let i = openIndex; i < this.tokens.length; i++) {
+            const token = this.tokens[i];
+            if (token.kind !== 'punctuation') {
+                continue;
+            }
+            if (token.text === '(' || token.text === '[' || token.text === '{') {
+                depth++;
+            } else if (token.text === ')' || token.text === ']' || token.text === '}') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return this.tokens.length;
+    }
+
+    private textBetween(firstToken: number, lastToken: number): string {
+        const last = Math.min(lastToken, this.tokens.length - 1);
+        if (firstToken > last) {
+            return '';
+        }
+        return this.text.substring(this.tokens[firstToken].start, this.tokens[last].end).replace(/\s+/g, ' ').trim();
+    }
+
+    private current(): CSharpToken | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private peek(offset: number): CSharpToken | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private isAt(text: string): boolean {
+        const token = this.tokens[this.pos];
+        return !!token && token.text === text && (token.kind === 'punctuation' || token.kind === 'identifier');
+    }
+
+    private isPunctuation(token: CSharpToken | undefined, text: string): boolean {
+        return !!token && token.kind === 'punctuation' && token.text === text;
+    }
+}
@@ -0,0 +1,136 @@
+import { ApiEndpointInfo } from './apiEndpointDetector';
+import { RequestValues } from './apiRequestGenerator';
+import { IndexedApiEndpoint } from './apiEndpointExplorer';
+import { RouteTemplate } from './routeTemplate';
+
+/**
+ * Request parsed from user input such as "GET /api/orders/42/items?page=2" or a full URL
+ */
+export interface ParsedRequestInput {
+    method?: string;
+    path: string;
+    queryParams: Record<string, string>;
+}
+
+export interface EndpointUrlMatch {
+    item: IndexedApiEndpoint;
+    values: RequestValues;
+    methodMatches: boolean;
+    template: RouteTemplate;
+}
+
+/**
+ * Resolves a concrete URL to the endpoints whose route templates match it
+ */
+export class EndpointUrlResolver {
+    private static readonly httpMethods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+    /**
+     * Parse "[METHOD] url-or-path[?query]"; the scheme and host of a full URL are ignored
+     */
+    static parseInput(input: string): ParsedRequestInput | null {
+        let text = input.trim();
+        if (!text) {
+            return null;
+        }
+
+        let method: string | undefined;
+        const methodMatch = text.match(/^([A-Za-z]+)\s+(.+)$/);
+        if (methodMatch && this.httpMethods.includes(methodMatch[1].toUpperCase())) {
+            method = methodMatch[1].toUpperCase();
+            text = methodMatch[2].trim();
+        }
+
+        let path: string;
+        let search: string;
+        try {
+            const url = new URL(text, 'http://localhost');
+            path = url.pathname;
+            search = url.search;
+        } catch {
+            const [pathPart, ...queryParts] = text.split('#')[0].split('?');
+            path = pathPart;
+            search = queryParts.length > 0 ? `?${queryParts.join('?')}` : '';
+        }
+
+        const queryParams: Record<string, string> = {};
+        new URLSearchParams(search).forEach((value, key) => {
+            queryParams[key] = value;
+        });
+
+        return { method, path: path.startsWith('/') ? path : `/${path}`, queryParams };
+    }
+
+    /**
+     * Match the request against endpoint routes, most specific first; endpoints for the requested method come before others
+     * @param basePath Environment base path; URLs built with it are matched with and without it
+     */
+    static resolve(request: ParsedRequestInput, endpoints: IndexedApiEndpoint[], basePath?: string): EndpointUrlMatch[] {
+        const matches: EndpointUrlMatch[] = [];
+        const paths = this.getCandidatePaths(request.path, basePath);
+
+        // Razor Pages select a named handler with ?handler=
+        const handlerKey = Object.keys(request.queryParams).find(key => key.toLowerCase() === 'handler');
+        const handler = handlerKey ? request.queryParams[handlerKey].toLowerCase() : undefined;
+
+        for (const item of endpoints) {
+            if (item.endpoint.kind === 'razorPage' && (item.endpoint.pageHandler?.toLowerCase() || undefined) !== handler) {
+                continue;
+            }
+            const template = this.getRouteTemplate(item.endpoint);
+
+            for (const path of paths) {
+                const pathParams = template.match(path);
+                if (pathParams) {
+                    matches.push({
+                        item,
+                        values: { pathParams, queryParams: { ...request.queryParams } },
+                        methodMatches: !request.method || item.endpoint.method === request.method,
+                        template
+                    });
+                    break;
+                }
+            }
+        }
+
+        return matches.sort((a, b) =>
+            Number(b.methodMatches) - Number(a.methodMatches) || RouteTemplate.comparePrecedence(a.template, b.template));
+    }
+
+    /**
+     * Route template of an endpoint with the constraints the detector moved to its parameters put back
+     */
+    static getRouteTemplate(endpoint: ApiEndpointInfo): RouteTemplate {
+        const template = RouteTemplate.parse(endpoint.route);
+        for (const routeParameter of template.parameters) {
+            const param = endpoint.parameters.find(p => p.name.toLowerCase() === routeParameter.name.toLowerCase());
+            if (param?.constraint) {
+                routeParameter.constraints = [...routeParameter.constraints, ...RouteTemplate.parseConstraints(param.constraint)];
+            }
+        }
+        return template;
+    }
+
+    /**
+     * The generator drops the route segments the base path already ends with (e.g. "api/" for "/api"), so try both forms
+     */
+    private static getCandidatePaths(path: string, basePath?: string): string[] {
+        const paths = [path];
+        const normalizedBasePath = (basePath || '').replace(/\/+$/, '');
+
+        if (normalizedBasePath && normalizedBasePath !== '/') {
+            const prefix = normalizedBasePath.startsWith('/') ? normalizedBasePath : `/${normalizedBasePath}`;
+            if (path.toLowerCase().startsWith(`${prefix.toLowerCase()}/`)) {
+                const stripped = path.substring(prefix.length);
+                paths.push(stripped);
+
+                const baseSegments = prefix.split('/').filter(segment => segment.length > 0);
+                for (let count = 1; count <= baseSegments.length; count++) {
+                    paths.push(`/${baseSegments.slice(baseSegments.length - count).join('/')}${stripped}`);
+                }
+            }
+        }
+
+        return Array.from(new Set(paths));
+    }
+}
@@ -6,9 +6,22 @@ export interface Environment {
     basePath: string;
     headers: Record<string, string>;
     customVariables: Record<string, string>;
+    secretVariables?: string[];         // Names of customVariables whose values are kept in VS Code's secret storage
+    authProfiles?: AuthProfile[];
     active: boolean;
 }
 
+/**
+ * Credentials attached when testing endpoints that require authorization. A profile is used for endpoints
+ * requiring one of its policies or roles; a profile without policies and roles serves any other protected endpoint.
+ */
+export interface AuthProfile {
+    name: string;
+    policies?: string[];
+    roles?: string[];
+    headers: Record<string, string>;    // e.g. { "Authorization": "Bearer ..." }
+}
+
 export interface EnvironmentConfig {
     environments: Environment[];
     currentEnvironment: string;
@@ -16,8 +29,11 @@ export interface EnvironmentConfig {
 
 export class EnvironmentManager {
     private static instance: EnvironmentManager;
+    private static readonly SECRET_KEY_PREFIX = 'csharpApiTester.environmentSecret';
     private config: EnvironmentConfig;
     private configChangeListener?: vscode.Disposable;
+    private secretStorage?: vscode.SecretStorage;
+    private secretValues: Map<string, string> = new Map(); // secret storage key -> value
 
     private constructor() {
         this.config = this.getDefaultConfig(); // Initialize with default config
@@ -38,6 +54,45 @@ export class EnvironmentManager {
         return EnvironmentManager.instance;
     }
 
+    /**
+     * Azure Functions keys ("functionKey", "functionKey:<FunctionName>") are secrets: they are never written to settings
+     */
+    public static isSecretVariable(name: string): boolean {
+        return /^functionKey(:|$)/i.test(name.trim());
+    }
+
+    /**
+     * Value to show in lists and titles; secret values are masked
+     */
+    public static displayVariableValue(name: string, value: string): string {
+        return EnvironmentManager.isSecretVariable(name) && value ? '••••••' : value;
+    }
+
+    /**
+     * Load secret variable values from VS Code's secret storage and move secrets still stored in settings there
+     */
+    public async initializeSecrets(secretStorage: vscode.SecretStorage): Promise<void> {
+        this.secretStorage = secretStorage;
+
+        const settings = vscode.workspace.getConfiguration('csharpApiTester').get<Environment[]>('environments', []);
+        for (const env of settings) {
+            for (const name of env.secretVariables || []) {
+                const key = this.getSecretKey(env.name, name);
+                const value = await secretStorage.get(key);
+                if (value !== undefined) {
+                    this.secretValues.set(key, value);
+                }
+            }
+        }
+        this.loadConfiguration();
+
+        const hasPlainTextSecrets = settings.some(env => Object.keys(env.customVariables || {}).some(EnvironmentManager.isSecretVariable));
+        if (hasPlainTextSecrets) {
+            console.log(`[EnvironmentManager] Moving function keys from settings to secret storage`);
+            await this.saveConfiguration();
+        }
+    }
+
     public loadConfiguration(): void {
         const config = vscode.workspace.getConfiguration('csharpApiTester');
         const environments = config.get<Environment[]>('environments', []);
@@ -48,10 +103,12 @@ export class EnvironmentManager {
             this.config = this.getDefaultConfig();
         } else {
             // Ensure backwards compatibility by adding customVariables field if missing
+            // Secret variables are only referenced by name in settings; their values come from secret storage
             const compatibleEnvironments = environments.map(env => ({
                 ...env,
-                customVariables: env.customVariables || {},
-                headers: env.headers || {}
+                customVariables: { ...(env.customVariables || {}), ...this.getSecretValues(env) },
+                headers: env.headers || {},
+                authProfiles: env.authProfiles || []
             }));
             this.config = { environments: compatibleEnvironments, currentEnvironment };
         }
@@ -62,7 +119,22 @@ export class EnvironmentManager {
             this.config.currentEnvironment = this.config.environments[0].name;
         }
 
-        console.log(`[EnvironmentManager] Loaded configuration:`, this.config);
+        console.log(`[EnvironmentManager] Loaded configuration for ${this.config.environments.length} environments`);
+    }
+
+    private getSecretKey(environmentName: string, variableName: string): string {
+        return `${EnvironmentManager.SECRET_KEY_PREFIX}:${environmentName}:${variableName}`;
+    }
+
+    private getSecretValues(env: Environment): Record<string, string> {
+        const values: Record<string, string> = {};
+        for (const name of env.secretVariables || []) {
+            const value = this.secretValues.get(this.getSecretKey(env.name, name));
+            if (value !== undefined) {
+                values[name] = value;
+            }
+        }
+        return values;
     }
 
     private getDefaultConfig(): EnvironmentConfig {
@@ -94,11 +166,57 @@ export class EnvironmentManager {
 
     private async saveConfiguration(): Promise<void> {
         const config = vscode.workspace.getConfiguration('csharpApiTester');
-        await config.update('environments', this.config.environments, vscode.ConfigurationTarget.Global);
+        await config.update('environments', await this.storeSecrets(this.config.environments), vscode.ConfigurationTarget.Global);
         await config.update('currentEnvironment', this.config.currentEnvironment, vscode.ConfigurationTarget.Global);
         console.log(`[EnvironmentManager] Saved configuration`);
     }
 
+    /**
+     * Write secret variable values to secret storage (removing ones no environment uses any more)
+     * and return the environments as they are saved in settings, with secrets referenced by name only
+     */
+    private async storeSecrets(environments: Environment[]): Promise<Environment[]> {
+        if (!this.secretStorage) {
+            console.warn(`[EnvironmentManager] ⚠️ Secret storage is not available, function keys are not saved`);
+        }
+
+        const secretValues = new Map<string, string>();
+        const stored = environments.map(env => {
+            const customVariables: Record<string, string> = {};
+            const secretVariables: string[] = [];
+            for (const [name, value] of Object.entries(env.customVariables || {})) {
+                if (EnvironmentManager.isSecretVariable(name)) {
+                    secretVariables.push(name);
+                    secretValues.set(this.getSecretKey(env.name, name), value);
+                } else {
+                    customVariables[name] = value;
+                }
+            }
+
+            const savedEnv: Environment = { ...env, customVariables };
+            delete savedEnv.secretVariables;
+            if (secretVariables.length > 0) {
+                savedEnv.secretVariables = secretVariables;
+            }
+            return savedEnv;
+        });
+
+        if (this.secretStorage) {
+            for (const key of this.secretValues.keys()) {
+                if (!secretValues.has(key)) {
+                    await this.secretStorage.delete(key);
+                }
+            }
+            for (const [key, value] of secretValues) {
+                if (this.secretValues.get(key) !== value) {
+                    await this.secretStorage.store(key, value);
+                }
+            }
+        }
+        this.secretValues = secretValues;
+        return stored;
+    }
+
     public getCurrentEnvironment(): Environment | null {
         const current = this.config.environments.find(env => env.name === this.config.currentEnvironment);
         return current || null;
@@ -213,7 +331,8 @@ export class EnvironmentManager {
 
     private getEnvironmentDetail(env: Environment): string {
         const headerDetails = Object.entries(env.headers || {}).map(([k, v]) => `${k}: ${v}`).join(', ');
-        const customVarDetails = Object.entries(env.customVariables || {}).map(([k, v]) => `${k}=${v}`).join(', ');
+        const customVarDetails = Object.entries(env.customVariables || {})
+            .map(([k, v]) => `${k}=${EnvironmentManager.displayVariableValue(k, v)}`).join(', ');
 
         const detailParts = [headerDetails];
         if (customVarDetails) {
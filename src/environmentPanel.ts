@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { EnvironmentManager } from './environmentManager';
+import { StartupConfigDetector } from './startupConfigDetector';
 
 export class EnvironmentPanel {
     public static currentPanel: EnvironmentPanel | undefined;
@@ -7,9 +8,10 @@ export class EnvironmentPanel {
 
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
+    private readonly _startupConfigDetector?: StartupConfigDetector;
     private _disposables: vscode.Disposable[] = [];
 
-    public static createOrShow(extensionUri: vscode.Uri) {
+    public static createOrShow(extensionUri: vscode.Uri, startupConfigDetector?: StartupConfigDetector) {
         const column = vscode.window.activeTextEditor
             ? vscode.ViewColumn.One
             : undefined;
@@ -33,12 +35,13 @@ export class EnvironmentPanel {
             }
         );
 
-        EnvironmentPanel.currentPanel = new EnvironmentPanel(panel, extensionUri);
+        EnvironmentPanel.currentPanel = new EnvironmentPanel(panel, extensionUri, startupConfigDetector);
     }
 
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, startupConfigDetector?: StartupConfigDetector) {
         this._panel = panel;
         this._extensionUri = extensionUri;
+        this._startupConfigDetector = startupConfigDetector;
 
         // Set the webview's initial html content
         this._update();
@@ -64,6 +67,7 @@ export class EnvironmentPanel {
                 switch (message.command) {
                     case 'loadEnvironments':
                         this._loadEnvironments();
+                        this._loadBasePathSuggestions();
                         return;
                     case 'saveEnvironment':
                         this._saveEnvironment(message.environment);
@@ -96,6 +100,25 @@ export class EnvironmentPanel {
         });
     }
 
+    /**
+     * Offer the path bases declared in Program.cs / Startup.cs (app.UsePathBase) as base path values
+     */
+    private async _loadBasePathSuggestions() {
+        if (!this._startupConfigDetector) {
+            return;
+        }
+
+        try {
+            const suggestions = await this._startupConfigDetector.getBasePathSuggestions();
+            this._panel.webview.postMessage({
+                command: 'basePathSuggestions',
+                suggestions: suggestions.filter(suggestion => suggestion.basePath)
+            });
+        } catch (error) {
+            console.error('[Environment Panel] Failed to read base path suggestions:', error);
+        }
+    }
+
     private async _saveEnvironment(environment: any) {
         const manager = EnvironmentManager.getInstance();
         try {
@@ -106,6 +129,7 @@ export class EnvironmentPanel {
                     basePath: environment.basePath,
                     headers: environment.headers,
                     customVariables: environment.customVariables,
+                    authProfiles: environment.authProfiles,
                     active: false
                 });
             } else {
@@ -114,7 +138,8 @@ export class EnvironmentPanel {
                     baseUrl: environment.baseUrl,
                     basePath: environment.basePath,
                     headers: environment.headers,
-                    customVariables: environment.customVariables
+                    customVariables: environment.customVariables,
+                    authProfiles: environment.authProfiles
                 });
             }
 
@@ -352,6 +377,18 @@ export class EnvironmentPanel {
             border-radius: 3px;
         }
 
+        .field-hint {
+            margin-top: 5px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .field-hint a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            margin-right: 8px;
+        }
+
         .hidden {
             display: none !important;
         }
@@ -415,7 +452,9 @@ export class EnvironmentPanel {
 
                 <div class="form-group">
                     <label for="env-basepath">Base Path</label>
-                    <input type="text" id="env-basepath" placeholder="e.g., /api">
+                    <input type="text" id="env-basepath" list="basepath-suggestions" placeholder="e.g., /api">
+                    <datalist id="basepath-suggestions"></datalist>
+                    <div id="basepath-hint" class="field-hint hidden"></div>
                 </div>
 
                 <div class="form-group">
@@ -423,8 +462,15 @@ export class EnvironmentPanel {
                     <textarea id="env-headers" placeholder='{}'></textarea>
                 </div>
 
+                <div class="form-group">
+                    <label for="env-authprofiles">Auth Profiles (JSON)</label>
+                    <textarea id="env-authprofiles" placeholder='[{ "name": "Admin", "roles": ["Admin"], "policies": [], "headers": { "Authorization": "Bearer ..." } }]'></textarea>
+                    <div class="field-hint">Attached automatically when testing [Authorize] endpoints: the first profile sharing a policy or role, else the first profile without any.</div>
+                </div>
+
                 <div class="variables-section">
                     <h4>Custom Variables</h4>
+                    <div class="field-hint">Azure Functions keys: <code>functionKey</code> is sent as x-functions-key to function/admin level triggers, <code>functionKey:&lt;FunctionName&gt;</code> overrides it for one function. Their values are kept in VS Code's secret storage, not in settings.</div>
                     <div id="variables-container">
                         <!-- Variables will be added dynamically -->
                     </div>
@@ -472,9 +518,43 @@ export class EnvironmentPanel {
                 case 'setCurrentResult':
                     showMessage(message.message, message.success ? 'success' : 'error');
                     break;
+                case 'basePathSuggestions':
+                    renderBasePathSuggestions(message.suggestions);
+                    break;
             }
         });
 
+        function renderBasePathSuggestions(suggestions) {
+            const datalist = document.getElementById('basepath-suggestions');
+            const hint = document.getElementById('basepath-hint');
+            datalist.innerHTML = '';
+            hint.innerHTML = '';
+
+            if (!suggestions || suggestions.length === 0) {
+                hint.classList.add('hidden');
+                return;
+            }
+
+            hint.appendChild(document.createTextNode('Detected in startup code: '));
+            suggestions.forEach(suggestion => {
+                const hosts = suggestion.hosts.length > 0 ? \`, hosts: \${suggestion.hosts.join(', ')}\` : '';
+                const label = \`\${suggestion.projectName}\${hosts}\`;
+
+                const option = document.createElement('option');
+                option.value = suggestion.basePath;
+                option.label = label;
+                datalist.appendChild(option);
+
+                const link = document.createElement('a');
+                link.textContent = \`\${suggestion.basePath} (\${label})\`;
+                link.onclick = () => {
+                    document.getElementById('env-basepath').value = suggestion.basePath;
+                };
+                hint.appendChild(link);
+            });
+            hint.classList.remove('hidden');
+        }
+
         function renderEnvironments() {
             const container = document.getElementById('environments-container');
             if (environments.length === 0) {
@@ -490,6 +570,7 @@ export class EnvironmentPanel {
                         <div><strong>URL:</strong> \${env.baseUrl}\${env.basePath || ''}</div>
                         <div><strong>Headers:</strong> \${Object.keys(env.headers || {}).length} configured</div>
                         <div><strong>Variables:</strong> \${Object.keys(env.customVariables || {}).length} configured</div>
+                        <div><strong>Auth Profiles:</strong> \${(env.authProfiles || []).map(profile => profile.name).join(', ') || 'none'}</div>
                     </div>
                     <div class="environment-actions">
                         \${env.name !== currentEnvironment ? \`<button class="btn btn-success" onclick="setCurrentEnvironment('\${env.name}')">Set Current</button>\` : ''}
@@ -505,6 +586,7 @@ export class EnvironmentPanel {
             document.getElementById('form-title').textContent = 'Add New Environment';
             document.getElementById('environment-form').reset();
             document.getElementById('env-headers').value = '{}';
+            document.getElementById('env-authprofiles').value = '[]';
             document.getElementById('variables-container').innerHTML = '';
             document.getElementById('form-section').classList.remove('hidden');
         }
@@ -519,6 +601,7 @@ export class EnvironmentPanel {
             document.getElementById('env-baseurl').value = env.baseUrl;
             document.getElementById('env-basepath').value = env.basePath || '';
             document.getElementById('env-headers').value = JSON.stringify(env.headers || {}, null, 2);
+            document.getElementById('env-authprofiles').value = JSON.stringify(env.authProfiles || [], null, 2);
 
             // Load custom variables
             const variablesContainer = document.getElementById('variables-container');
@@ -542,13 +625,22 @@ export class EnvironmentPanel {
             const variableDiv = document.createElement('div');
             variableDiv.className = 'variable-item';
             variableDiv.innerHTML = \`
-                <input type="text" placeholder="Variable name (e.g., API_VERSION)" value="\${key}">
-                <input type="text" placeholder="Value (e.g., v1)" value="\${value}">
+                <input type="text" placeholder="Variable name (e.g., API_VERSION)" value="\${key}" oninput="updateVariableValueType(this)">
+                <input type="\${isSecretVariable(key) ? 'password' : 'text'}" placeholder="Value (e.g., v1)" value="\${value}">
                 <button type="button" class="variable-remove" onclick="this.parentElement.remove()">Remove</button>
             \`;
             container.appendChild(variableDiv);
         }
 
+        // Function keys are secrets (EnvironmentManager.isSecretVariable): hide their values
+        function isSecretVariable(key) {
+            return /^functionKey(:|$)/i.test(key.trim());
+        }
+
+        function updateVariableValueType(keyInput) {
+            keyInput.nextElementSibling.type = isSecretVariable(keyInput.value) ? 'password' : 'text';
+        }
+
         function setCurrentEnvironment(name) {
             vscode.postMessage({ command: 'setCurrentEnvironment', name: name });
         }
@@ -577,6 +669,7 @@ export class EnvironmentPanel {
             const baseUrl = document.getElementById('env-baseurl').value.trim();
             const basePath = document.getElementById('env-basepath').value.trim();
             const headersText = document.getElementById('env-headers').value.trim();
+            const authProfilesText = document.getElementById('env-authprofiles').value.trim();
 
             if (!name || !baseUrl) {
                 showMessage('Name and Base URL are required', 'error');
@@ -593,6 +686,20 @@ export class EnvironmentPanel {
                 }
             }
 
+            let authProfiles = [];
+            if (authProfilesText) {
+                try {
+                    authProfiles = JSON.parse(authProfilesText);
+                } catch (error) {
+                    showMessage('Invalid JSON format in auth profiles', 'error');
+                    return;
+                }
+                if (!Array.isArray(authProfiles) || authProfiles.some(profile => !profile || !profile.name)) {
+                    showMessage('Auth profiles must be an array of objects with a name', 'error');
+                    return;
+                }
+            }
+
             // Collect custom variables
             const customVariables = {};
             const variableItems = document.querySelectorAll('.variable-item');
@@ -611,6 +718,7 @@ export class EnvironmentPanel {
                 basePath: basePath,
                 headers: headers,
                 customVariables: customVariables,
+                authProfiles: authProfiles,
                 isNew: !editingEnvironment,
                 originalName: editingEnvironment ? editingEnvironment.name : name
             };
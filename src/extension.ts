@@ -1,13 +1,16 @@
 import * as vscode from 'vscode';
 import { ApiEndpointDetector, ApiEndpointInfo } from './apiEndpointDetector';
 import { ApiCodeLensProvider } from './apiCodeLensProvider';
+import { ApiEndpointExplorerProvider, ApiExplorerNode } from './apiEndpointExplorer';
+import { EndpointUrlMatch, EndpointUrlResolver } from './endpointUrlResolver';
 import { ApiTestPanel } from './apiTestPanel';
 import { ApiRequestGenerator } from './apiRequestGenerator';
 import { EnvironmentManager } from './environmentManager';
 import { EnvironmentPanel } from './environmentPanel';
 import { ParameterStorage } from './parameterStorage';
+import { RouteConflictDiagnostics } from './routeConflictDiagnostics';
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
     console.log('🚀 C# API Tester extension is now active!');
     console.log('✅ Extension context:', context.extensionUri);
 
@@ -17,6 +20,13 @@ export function activate(context: vscode.ExtensionContext) {
     const requestGenerator = new ApiRequestGenerator();
     const environmentManager = EnvironmentManager.getInstance();
 
+    // Function keys have to be loaded before any command can save environments, or saving would drop them
+    try {
+        await environmentManager.initializeSecrets(context.secrets);
+    } catch (error) {
+        console.error('❌ Failed to load environment secrets:', error);
+    }
+
     // Register code lens provider for C# files
     console.log('🔧 Registering code lens provider for C# language');
     const codeLensProvider = new ApiCodeLensProvider(detector);
@@ -26,6 +36,18 @@ export function activate(context: vscode.ExtensionContext) {
     );
     console.log('✅ Code lens provider registered');
 
+    // Register workspace endpoint explorer
+    const endpointExplorer = new ApiEndpointExplorerProvider(detector);
+    const endpointTreeView = vscode.window.createTreeView('csharpApiTester.endpointExplorer', {
+        treeDataProvider: endpointExplorer,
+        showCollapseAll: true
+    });
+    context.subscriptions.push(endpointExplorer, endpointTreeView);
+
+    // Report duplicate and ambiguous routes across the workspace
+    const routeDiagnostics = new RouteConflictDiagnostics(endpointExplorer);
+    context.subscriptions.push(routeDiagnostics);
+
     // Create status bar item for API detection toggle
     const apiDetectionStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
     apiDetectionStatusBar.command = 'csharpApiTester.toggleApiDetection';
@@ -34,12 +56,12 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(apiDetectionStatusBar);
 
     // Register commands
-    const testApiCommand = vscode.commands.registerCommand('csharpApiTester.testApi', async (apiInfo: ApiEndpointInfo | undefined) => {
+    const testApiCommand = vscode.commands.registerCommand('csharpApiTester.testApi', async (apiInfo: ApiEndpointInfo | undefined, sourceUri?: vscode.Uri) => {
         console.log('🎯 testApi command triggered with:', apiInfo);
         try {
             if (apiInfo) {
                 console.log('✅ Creating API test panel with endpoint info');
-                ApiTestPanel.createOrShow(context.extensionUri, detector, apiInfo);
+                ApiTestPanel.createOrShow(context.extensionUri, detector, apiInfo, undefined, sourceUri);
             } else {
                 console.log('❌ No API info provided, showing empty panel');
                 ApiTestPanel.createOrShow(context.extensionUri, detector, undefined);
@@ -83,6 +105,8 @@ export function activate(context: vscode.ExtensionContext) {
             console.log('🧹 Clearing class definition caches');
             classParser.getCache().clear();
             classParser.invalidateDocumentCache(document.uri.fsPath);
+            classParser.invalidateProjectSettings();
+            detector.getFluentValidationParser().invalidate();
 
             if (Array.isArray(apiInfo.parameters)) {
                 for (const param of apiInfo.parameters) {
@@ -105,6 +129,7 @@ export function activate(context: vscode.ExtensionContext) {
                 ep.method === apiInfo.method &&
                 ep.methodName === apiInfo.methodName &&
                 normalizeRoute(ep.route) === targetRoute &&
+                ep.apiVersion === apiInfo.apiVersion &&
                 (!targetController || normalizeName(ep.controllerName) === targetController)
             );
 
@@ -247,7 +272,7 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     const openEnvironmentManagerCommand = vscode.commands.registerCommand('csharpApiTester.openEnvironmentManager', () => {
-        EnvironmentPanel.createOrShow(context.extensionUri);
+        EnvironmentPanel.createOrShow(context.extensionUri, detector.getStartupConfigDetector());
     });
 
     const testDebugCommand = vscode.commands.registerCommand('csharpApiTester.testDebug', () => {
@@ -297,6 +322,98 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const refreshEndpointExplorerCommand = vscode.commands.registerCommand('csharpApiTester.refreshEndpointExplorer', async () => {
+        await endpointExplorer.reindex();
+    });
+
+    const filterEndpointsCommand = vscode.commands.registerCommand('csharpApiTester.filterEndpoints', async () => {
+        const filterText = await vscode.window.showInputBox({
+            prompt: 'Filter endpoints by route text and/or HTTP method',
+            placeHolder: 'e.g., orders, POST, GET /api/orders',
+            value: endpointExplorer.getFilter()
+        });
+
+        if (filterText !== undefined) {
+            endpointExplorer.setFilter(filterText);
+            endpointTreeView.description = filterText.trim() ? `Filter: ${filterText.trim()}` : undefined;
+        }
+    });
+
+    const clearEndpointFilterCommand = vscode.commands.registerCommand('csharpApiTester.clearEndpointFilter', () => {
+        endpointExplorer.setFilter('');
+        endpointTreeView.description = undefined;
+    });
+
+    const revealEndpointSourceCommand = vscode.commands.registerCommand('csharpApiTester.revealEndpointSource', async (node: ApiExplorerNode | undefined) => {
+        const item = ApiEndpointExplorerProvider.getIndexedEndpoint(node);
+        if (item) {
+            await ApiEndpointExplorerProvider.revealEndpoint(item);
+        }
+    });
+
+    const goToEndpointByUrlCommand = vscode.commands.registerCommand('csharpApiTester.goToEndpointByUrl', async () => {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Enter a URL or route to find the action that serves it',
+            placeHolder: 'e.g., GET /api/orders/42/items?page=2 or https://localhost:5001/api/orders/42',
+            ignoreFocusOut: true
+        });
+        if (!input) {
+            return;
+        }
+
+        const request = EndpointUrlResolver.parseInput(input);
+        if (!request) {
+            return;
+        }
+
+        const matches = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'Resolving endpoint...' },
+            async () => EndpointUrlResolver.resolve(
+                request,
+                await endpointExplorer.getAllEndpoints(),
+                environmentManager.getCurrentEnvironment()?.basePath
+            )
+        );
+
+        if (matches.length === 0) {
+            vscode.window.showWarningMessage(`No endpoint matches ${request.method ? `${request.method} ` : ''}${request.path}`);
+            return;
+        }
+
+        const goToSourceButton: vscode.QuickInputButton = {
+            iconPath: new vscode.ThemeIcon('go-to-file'),
+            tooltip: 'Go to Source'
+        };
+        const describeValues = (match: EndpointUrlMatch) => Object.entries({ ...match.values.pathParams, ...match.values.queryParams })
+            .map(([key, value]) => `${key}=${value}`)
+            .join(' · ');
+
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { match: EndpointUrlMatch }>();
+        quickPick.title = `${request.method ? `${request.method} ` : ''}${request.path}`;
+        quickPick.placeholder = 'Select an endpoint to test it with these values';
+        quickPick.items = matches.map(match => ({
+            label: `${match.methodMatches ? '$(check)' : '$(circle-outline)'} ${match.item.endpoint.method} ${match.item.endpoint.route}`,
+            description: `${match.item.endpoint.controllerName ? `${match.item.endpoint.controllerName}.` : ''}${match.item.endpoint.methodName}`,
+            detail: describeValues(match) || vscode.workspace.asRelativePath(match.item.uri),
+            buttons: [goToSourceButton],
+            match
+        }));
+
+        quickPick.onDidTriggerItemButton(event => {
+            quickPick.hide();
+            ApiEndpointExplorerProvider.revealEndpoint(event.item.match.item);
+        });
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (selected) {
+                ApiTestPanel.createOrShow(context.extensionUri, detector, selected.match.item.endpoint, selected.match.values, selected.match.item.uri);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    });
+
     // Add to subscriptions
     context.subscriptions.push(
         codeLensDisposable,
@@ -309,7 +426,12 @@ export function activate(context: vscode.ExtensionContext) {
         openEnvironmentManagerCommand,
         testDebugCommand,
         toggleApiDetectionCommand,
-        clearCacheAndTestCommand
+        clearCacheAndTestCommand,
+        refreshEndpointExplorerCommand,
+        filterEndpointsCommand,
+        clearEndpointFilterCommand,
+        revealEndpointSourceCommand,
+        goToEndpointByUrlCommand
     );
 
     // Refresh code lenses when document changes
@@ -330,11 +452,45 @@ export function activate(context: vscode.ExtensionContext) {
             const cache = classParser.getCache();
             cache.invalidateFile(document.uri.fsPath);
             classParser.invalidateDocumentCache(document.uri.fsPath);
+            detector.getFluentValidationParser().updateDocument(document);
+
+            // Path bases, route prefixes and conventional routes affect every endpoint of the project
+            if (/[\\/](Program|Startup)\.cs$/i.test(document.uri.fsPath)) {
+                console.log(`[C# API Extension] Startup code saved, re-reading routing configuration`);
+                detector.getStartupConfigDetector().invalidate();
+                codeLensProvider.refresh();
+                endpointExplorer.reindex();
+            }
         }
     });
 
     context.subscriptions.push(documentSaveDisposable);
 
+    // host.json sets the route prefix of Azure Functions HTTP triggers
+    const hostJsonWatcher = vscode.workspace.createFileSystemWatcher('**/host.json');
+    const onHostJsonChanged = () => {
+        detector.getStartupConfigDetector().invalidate();
+        codeLensProvider.refresh();
+        endpointExplorer.reindex();
+    };
+    hostJsonWatcher.onDidCreate(onHostJsonChanged);
+    hostJsonWatcher.onDidChange(onHostJsonChanged);
+    hostJsonWatcher.onDidDelete(onHostJsonChanged);
+    context.subscriptions.push(hostJsonWatcher);
+
+    // <Nullable> in project files decides which body properties are required
+    const projectFileWatcher = vscode.workspace.createFileSystemWatcher('**/{*.csproj,Directory.Build.props}');
+    const onProjectFileChanged = () => {
+        const classParser = detector.getClassParser();
+        detector.getStartupConfigDetector().invalidate();
+        classParser.invalidateProjectSettings();
+        classParser.getCache().clear();
+    };
+    projectFileWatcher.onDidCreate(onProjectFileChanged);
+    projectFileWatcher.onDidChange(onProjectFileChanged);
+    projectFileWatcher.onDidDelete(onProjectFileChanged);
+    context.subscriptions.push(projectFileWatcher);
+
     console.log('🔧 All extension components initialized successfully');
 }
 
@@ -365,7 +521,8 @@ async function showAllEnvironmentsList(environmentManager: EnvironmentManager):
 
     const items = environments.map(env => {
         const headerDetails = Object.entries(env.headers || {}).map(([k, v]) => `${k}: ${v}`).join(', ');
-        const customVarDetails = Object.entries(env.customVariables || {}).map(([k, v]) => `${k}=${v}`).join(', ');
+        const customVarDetails = Object.entries(env.customVariables || {})
+            .map(([k, v]) => `${k}=${EnvironmentManager.displayVariableValue(k, v)}`).join(', ');
 
         let detail = headerDetails;
         if (customVarDetails) {
@@ -542,7 +699,7 @@ async function editCustomVariables(environmentManager: EnvironmentManager): Prom
         // Add existing variables to the choices
         const existingVariables = Object.entries(variables).map(([key, value]) => ({
             label: `$(variable) ${key}`,
-            description: value,
+            description: EnvironmentManager.displayVariableValue(key, value),
             detail: 'Click to edit or delete',
             key: key,
             value: value
@@ -596,7 +753,8 @@ async function addNewVariable(env: any, environmentManager: EnvironmentManager):
 
     const value = await vscode.window.showInputBox({
         prompt: `Enter value for '${key}'`,
-        placeHolder: 'e.g., v1, true, 5000'
+        placeHolder: 'e.g., v1, true, 5000',
+        password: EnvironmentManager.isSecretVariable(key)
     });
 
     if (value === undefined) return;
@@ -618,7 +776,7 @@ async function manageSingleVariable(key: string, value: string, env: any, enviro
 
     const selected = await vscode.window.showQuickPick(choices, {
         placeHolder: `Manage variable '${key}'`,
-        title: `Variable: ${key} = ${value}`
+        title: `Variable: ${key} = ${EnvironmentManager.displayVariableValue(key, value)}`
     });
 
     if (!selected) return;
@@ -626,7 +784,8 @@ async function manageSingleVariable(key: string, value: string, env: any, enviro
     if (selected.label.includes('Edit Variable')) {
         const newValue = await vscode.window.showInputBox({
             prompt: `Enter new value for '${key}'`,
-            value: value
+            value: value,
+            password: EnvironmentManager.isSecretVariable(key)
         });
 
         if (newValue === undefined) return;
@@ -669,8 +828,8 @@ async function viewAllVariables(variables: Record<string, string>): Promise<void
 
     const items = entries.map(([key, value]) => ({
         label: key,
-        description: value,
-        detail: 'Custom environment variable'
+        description: EnvironmentManager.displayVariableValue(key, value),
+        detail: EnvironmentManager.isSecretVariable(key) ? 'Kept in VS Code secret storage' : 'Custom environment variable'
     }));
 
     await vscode.window.showQuickPick(items, {
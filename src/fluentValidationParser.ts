@@ -0,0 +1,435 @@
+import * as vscode from 'vscode';
+import { ClassProperty, PropertyValidation } from './csharpClassParser';
+import { CSharpSyntaxParser, CSharpSyntaxTree, CSharpToken, CSharpTypeDeclaration } from './csharpSyntax';
+
+/**
+ * One RuleFor / RuleForEach chain of an AbstractValidator<T>
+ */
+export interface FluentValidationRule {
+    path: string[];             // Member chain of the lambda: x => x.Address.City -> ['Address', 'City']
+    forEach: boolean;           // RuleForEach: the rules apply to every element
+    validation: PropertyValidation;
+    childValidator?: string;    // SetValidator(new AddressValidator())
+    childType?: string;         // SetValidator(addressValidator) with an injected IValidator<Address>
+}
+
+/**
+ * Rules of one validator class
+ */
+export interface FluentValidatorInfo {
+    name: string;
+    validatedType: string;      // T of AbstractValidator<T>, without namespace
+    rules: FluentValidationRule[];
+    includes: string[];         // Include(new BaseOrderValidator())
+    filePath: string;
+}
+
+/**
+ * Finds FluentValidation validators in the workspace and turns their rule chains into the
+ * DataAnnotations constraint model used for request generation and pre-send checks.
+ * Conditional rules (When/Unless blocks and chains) and rule sets are left out, as are Must() and other custom predicates
+ */
+export class FluentValidationParser {
+    private static readonly excludePattern = '**/{node_modules,bin,obj,.git,packages}/**';
+    private static readonly conditionalCalls = ['When', 'Unless', 'WhenAsync', 'UnlessAsync', 'RuleSet'];
+    private static readonly maxDepth = 5;
+
+    private syntaxParser = CSharpSyntaxParser.getInstance();
+    private validatorIndex?: Promise<Map<string, FluentValidatorInfo[]>>;   // file path -> validators declared in it
+
+    /**
+     * Copy of the properties with the rules of every validator for the type merged into their validation
+     * @param typeName Body type, e.g. CreateOrderCommand or List<CreateOrderCommand>
+     */
+    async applyValidators(typeName: string, properties: ClassProperty[]): Promise<ClassProperty[]> {
+        const validators = await this.getAllValidators();
+        const validatedType = this.getSimpleTypeName(typeName);
+
+        const matching = validators.filter(validator => validator.validatedType === validatedType);
+        if (matching.length === 0) {
+            return properties;
+        }
+
+        const copy = this.cloneProperties(properties);
+        console.log(`[FluentValidationParser] ✅ Applying ${matching.map(validator => validator.name).join(', ')} to ${validatedType}`);
+        for (const validator of matching) {
+            this.applyValidator(validator, copy, validators, 0);
+        }
+        return copy;
+    }
+
+    /**
+     * Re-read the validators of a saved file; the workspace is scanned again only if it was never indexed
+     */
+    async updateDocument(document: vscode.TextDocument): Promise<void> {
+        if (!this.validatorIndex) {
+            return;
+        }
+        const index = await this.validatorIndex;
+        const validators = this.parseValidators(document.getText(), document.uri.fsPath);
+        if (validators.length > 0) {
+            index.set(document.uri.fsPath, validators);
+        } else {
+            index.delete(document.uri.fsPath);
+        }
+    }
+
+    /**
+     * Drop the validator index, e.g. after files were added or removed
+     */
+    invalidate(): void {
+        this.validatorIndex = undefined;
+    }
+
+    /**
+     * Validators declared in source text: classes deriving from AbstractValidator<T>
+     */
+    parseValidators(text: string, filePath: string): FluentValidatorInfo[] {
+        if (!text.includes('AbstractValidator')) {
+            return [];
+        }
+
+        const tree = this.syntaxParser.parse(text);
+        const validators: FluentValidatorInfo[] = [];
+        for (const type of this.syntaxParser.getAllTypes(tree)) {
+            const baseType = type.baseTypes.map(base => base.match(/^(?:[\w.]+\.)?AbstractValidator\s*<(.+)>$/)).find(match => match);
+            if (type.kind !== 'class' || !baseType) {
+                continue;
+            }
+
+            const validator: FluentValidatorInfo = {
+                name: type.name,
+                validatedType: this.getSimpleTypeName(baseType[1]),
+                rules: [],
+                includes: [],
+                filePath
+            };
+            for (const member of type.members.filter(member => member.kind === 'constructor')) {
+                const first = tree.tokens.findIndex(token => token.start >= member.start);
+                const last = tree.tokens.findIndex(token => token.start >= member.end);
+                this.parseRuleStatements(tree, type, first, last < 0 ? tree.tokens.length : last, validator);
+            }
+            validators.push(validator);
+        }
+        return validators;
+    }
+
+    private async getAllValidators(): Promise<FluentValidatorInfo[]> {
+        if (!this.validatorIndex) {
+            this.validatorIndex = this.buildIndex();
+        }
+        return Array.from((await this.validatorIndex).values()).flat();
+    }
+
+    private async buildIndex(): Promise<Map<string, FluentValidatorInfo[]>> {
+        const index = new Map<string, FluentValidatorInfo[]>();
+        const files = await vscode.workspace.findFiles('**/*.cs', FluentValidationParser.excludePattern, this.getSearchFileLimit());
+
+        for (const uri of files) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const validators = this.parseValidators(document.getText(), uri.fsPath);
+                if (validators.length > 0) {
+                    index.set(uri.fsPath, validators);
+                }
+            } catch (error) {
+                console.warn(`[FluentValidationParser] ⚠️ Failed to read ${uri.fsPath}:`, error);
+            }
+        }
+
+        console.log(`[FluentValidationParser] 📋 Indexed ${Array.from(index.values()).flat().length} validators in ${files.length} files`);
+        return index;
+    }
+
+    private getSearchFileLimit(): number {
+        const config = vscode.workspace.getConfiguration('csharpApiTester');
+        switch (config.get<string>('searchStrategy', 'balanced')) {
+            case 'fast':
+                return 500;
+            case 'thorough':
+                return 2000;
+            case 'custom':
+                return config.get<number>('searchFileLimit', 2000);
+            default:
+                return 1000;
+        }
+    }
+
+    /**
+     * RuleFor(...)..., RuleForEach(...)... and Include(...) statements between two token indexes
+     */
+    private parseRuleStatements(tree: CSharpSyntaxTree, type: CSharpTypeDeclaration, first: number, end: number, validator: FluentValidatorInfo): void {
+        const tokens = tree.tokens;
+        for (let i = first; i < end; i++) {
+            const token = tokens[i];
+            if (token.kind !== 'identifier' || tokens[i + 1]?.text !== '(') {
+                continue;
+            }
+
+            if (FluentValidationParser.conditionalCalls.includes(token.text)) {
+                i = this.syntaxParser.findMatchingToken(tokens, i + 1);
+            } else if (token.text === 'RuleFor' || token.text === 'RuleForEach') {
+                const { rule, endIndex } = this.parseRuleChain(tokens, type, i);
+                if (rule) {
+                    validator.rules.push(rule);
+                }
+                i = endIndex;
+            } else if (token.text === 'Include') {
+                const close = this.syntaxParser.findMatchingToken(tokens, i + 1);
+                const name = this.readCreatedTypeName(tokens, i + 2, close - 1);
+                if (name) {
+                    validator.includes.push(name);
+                }
+                i = close;
+            }
+        }
+    }
+
+    /**
+     * RuleFor(x => x.Email).NotEmpty().EmailAddress().MaximumLength(200)
+     * @returns The rule (undefined for unsupported lambdas and conditional chains) and the index of the chain's last token
+     */
+    private parseRuleChain(tokens: CSharpToken[], type: CSharpTypeDeclaration, start: number): { rule?: FluentValidationRule; endIndex: number } {
+        const close = this.syntaxParser.findMatchingToken(tokens, start + 1);
+        const path = this.readLambdaPath(tokens, start + 2, close - 1);
+        const rule: FluentValidationRule = { path: path || [], forEach: tokens[start].text === 'RuleForEach', validation: {} };
+        let conditional = false;
+
+        let i = close + 1;
+        while (tokens[i]?.text === '.' && tokens[i + 1]?.kind === 'identifier') {
+            const name = tokens[i + 1].text;
+            let open = i + 2;
+            if (tokens[open]?.text === '<') {
+                // Generic call such as SetValidator<T>(...)
+                while (open < tokens.length && tokens[open].text !== '>') {
+                    open++;
+                }
+                open++;
+            }
+            if (tokens[open]?.text !== '(') {
+                break;
+            }
+
+            const argsClose = this.syntaxParser.findMatchingToken(tokens, open);
+            const args = this.syntaxParser.splitTokenList(tokens, open + 1, argsClose);
+            if (FluentValidationParser.conditionalCalls.includes(name)) {
+                conditional = true;
+            } else {
+                this.applyRuleCall(rule, name, args.map(([first, last]) => tokens.slice(first, last + 1)), type);
+            }
+            i = argsClose + 1;
+        }
+
+        const hasRules = Object.keys(rule.validation).length > 0 || rule.childValidator || rule.childType;
+        return { rule: path && !conditional && hasRules ? rule : undefined, endIndex: i - 1 };
+    }
+
+    /**
+     * Map a FluentValidation rule onto the constraint model; Must(), Custom() and other predicates are ignored
+     */
+    private applyRuleCall(rule: FluentValidationRule, name: string, args: CSharpToken[][], type: CSharpTypeDeclaration): void {
+        const validation = rule.validation;
+        const number = (index: number) => args[index] ? this.readNumber(args[index], type) : undefined;
+
+        switch (name) {
+            case 'NotEmpty':
+                validation.required = true;
+                delete validation.allowEmptyStrings;
+                break;
+            case 'NotNull':
+                if (!validation.required) {
+                    validation.required = true;
+                    validation.allowEmptyStrings = true;
+                }
+                break;
+            case 'Length':
+                // Length(exact) or Length(min, max)
+                validation.minLength = number(0);
+                validation.maxLength = args.length > 1 ? number(1) : number(0);
+                break;
+            case 'MinimumLength':
+                validation.minLength = number(0);
+                break;
+            case 'MaximumLength':
+                validation.maxLength = number(0);
+                break;
+            case 'InclusiveBetween':
+            case 'ExclusiveBetween':
+                validation.minimum = number(0);
+                validation.maximum = number(1);
+                if (name === 'ExclusiveBetween') {
+                    validation.exclusiveMinimum = true;
+                    validation.exclusiveMaximum = true;
+                }
+                break;
+            case 'GreaterThan':
+            case 'GreaterThanOrEqualTo':
+                validation.minimum = number(0);
+                validation.exclusiveMinimum = name === 'GreaterThan' || undefined;
+                break;
+            case 'LessThan':
+            case 'LessThanOrEqualTo':
+                validation.maximum = number(0);
+                validation.exclusiveMaximum = name === 'LessThan' || undefined;
+                break;
+            case 'Matches': {
+                // Regex.IsMatch: the pattern may match part of the value
+                const pattern = args[0]?.length === 1 && args[0][0].kind === 'string' ? args[0][0].value : undefined;
+                if (pattern !== undefined) {
+                    validation.pattern = pattern;
+                    validation.partialMatch = true;
+                }
+                break;
+            }
+            case 'EmailAddress':
+                validation.format = 'email';
+                break;
+            case 'CreditCard':
+                validation.format = 'creditCard';
+                break;
+            case 'SetValidator':
+                if (args[0]) {
+                    rule.childValidator = this.readCreatedTypeName(args[0], 0, args[0].length - 1);
+                    rule.childType = rule.childValidator ? undefined : this.readInjectedValidatorType(args[0], type);
+                }
+                break;
+        }
+
+        for (const key of Object.keys(validation) as Array<keyof PropertyValidation>) {
+            if (validation[key] === undefined) {
+                delete validation[key];
+            }
+        }
+    }
+
+    /**
+     * x => x.Address.City -> ['Address', 'City']; other lambdas give undefined
+     */
+    private readLambdaPath(tokens: CSharpToken[], first: number, last: number): string[] | undefined {
+        const parameter = tokens[first]?.text === '(' ? tokens[first + 1] : tokens[first];
+        let i = tokens[first]?.text === '(' ? first + 4 : first + 2;
+        if (parameter?.kind !== 'identifier' || tokens[i - 1]?.text !== '=>' || tokens[i]?.text !== parameter.text) {
+            return undefined;
+        }
+
+        const path: string[] = [];
+        for (i++; i <= last; i += 2) {
+            if (tokens[i].text !== '.' || tokens[i + 1]?.kind !== 'identifier') {
+                return undefined;
+            }
+            path.push(tokens[i + 1].text);
+        }
+        return path.length > 0 ? path : undefined;
+    }
+
+    /**
+     * new AddressValidator() or new Validators.AddressValidator(options) -> AddressValidator
+     */
+    private readCreatedTypeName(tokens: CSharpToken[], first: number, last: number): string | undefined {
+        if (tokens[first]?.text !== 'new') {
+            return undefined;
+        }
+        let name: string | undefined;
+        for (let i = first + 1; i <= last && (tokens[i].kind === 'identifier' || tokens[i].text === '.'); i++) {
+            if (tokens[i].kind === 'identifier') {
+                name = tokens[i].text;
+            }
+        }
+        return name;
+    }
+
+    /**
+     * SetValidator(addressValidator) where the constructor takes IValidator<Address> addressValidator -> Address
+     */
+    private readInjectedValidatorType(tokens: CSharpToken[], type: CSharpTypeDeclaration): string | undefined {
+        if (tokens.length !== 1 || tokens[0].kind !== 'identifier') {
+            return undefined;
+        }
+        const name = tokens[0].text.replace(/^_/, '');
+        const parameters = [
+            ...type.members.filter(member => member.kind === 'constructor').flatMap(member => member.parameters || []),
+            ...type.members.filter(member => member.kind === 'field').map(member => ({ name: member.name, type: member.type }))
+        ];
+        const match = parameters.find(parameter => parameter.name.replace(/^_/, '') === name)?.type.match(/^(?:[\w.]+\.)?IValidator\s*<(.+)>$/);
+        return match ? this.getSimpleTypeName(match[1]) : undefined;
+    }
+
+    /**
+     * 200, -1, 0.5m or a numeric const of the validator class
+     */
+    private readNumber(tokens: CSharpToken[], type: CSharpTypeDeclaration): number | undefined {
+        let text = tokens.map(token => token.text).join('');
+        const constant = type.members.find(member => member.kind === 'field' && member.modifiers.includes('const') && member.name === text);
+        if (constant?.initializer) {
+            text = constant.initializer.replace(/\s+/g, '');
+        }
+        const cleaned = text.replace(/_/g, '').replace(/[mMdDfFlLuU]+$/, '');
+        return /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(cleaned) ? parseFloat(cleaned) : undefined;
+    }
+
+    private applyValidator(validator: FluentValidatorInfo, properties: ClassProperty[], validators: FluentValidatorInfo[], depth: number): void {
+        if (depth > FluentValidationParser.maxDepth) {
+            return;
+        }
+
+        for (const included of validator.includes) {
+            validators.filter(candidate => candidate.name === included).forEach(candidate => this.applyValidator(candidate, properties, validators, depth + 1));
+        }
+
+        for (const rule of validator.rules) {
+            const property = this.findProperty(properties, rule.path);
+            if (!property) {
+                console.log(`[FluentValidationParser] ⚠️ ${validator.name}: no property ${rule.path.join('.')}`);
+                continue;
+            }
+
+            if (rule.forEach) {
+                if (Object.keys(rule.validation).length > 0) {
+                    property.validation = { ...property.validation, items: { ...property.validation?.items, ...rule.validation } };
+                }
+            } else {
+                property.validation = { ...property.validation, ...rule.validation };
+                if (rule.validation.required) {
+                    property.required = true;
+                }
+            }
+
+            // Child validators check the nested object, or every element for RuleForEach
+            const children = validators.filter(candidate =>
+                candidate.name === rule.childValidator || (rule.childType !== undefined && candidate.validatedType === rule.childType));
+            if (property.properties && property.properties.length > 0) {
+                children.forEach(child => this.applyValidator(child, property.properties!, validators, depth + 1));
+            }
+        }
+    }
+
+    private findProperty(properties: ClassProperty[], path: string[]): ClassProperty | undefined {
+        let current: ClassProperty | undefined;
+        let candidates: ClassProperty[] | undefined = properties;
+        for (const name of path) {
+            current = candidates?.find(property => property.name === name);
+            candidates = current?.properties;
+        }
+        return current;
+    }
+
+    private cloneProperties(properties: ClassProperty[]): ClassProperty[] {
+        return properties.map(property => ({
+            ...property,
+            validation: property.validation && { ...property.validation },
+            properties: property.properties && this.cloneProperties(property.properties)
+        }));
+    }
+
+    /**
+     * CreateOrderCommand for Shop.Commands.CreateOrderCommand, List<CreateOrderCommand> or CreateOrderCommand[]
+     */
+    private getSimpleTypeName(type: string): string {
+        let current = type.trim().replace(/\?$/, '');
+        const collection = current.match(/^(?:[\w.]+\.)?(?:List|IList|IEnumerable|ICollection|IReadOnlyList|IReadOnlyCollection)\s*<(.+)>$/);
+        if (collection) {
+            current = collection[1];
+        }
+        return current.replace(/\[\]$/, '').replace(/<.*>$/, '').split('.').pop()!.trim();
+    }
+}
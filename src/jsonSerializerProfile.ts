@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { ClassProperty } from './csharpClassParser';
+
+export type JsonSerializerLibrary = 'systemTextJson' | 'newtonsoft';
+export type JsonNamingPolicy = 'camelCase' | 'pascalCase' | 'snakeCaseLower' | 'snakeCaseUpper' | 'kebabCaseLower' | 'kebabCaseUpper';
+
+/**
+ * How an API's JSON serializer writes C# members: library, property naming policy and enum format
+ */
+export interface JsonSerializerProfile {
+    library: JsonSerializerLibrary;
+    namingPolicy: JsonNamingPolicy;
+    enumsAsStrings: boolean;
+}
+
+/**
+ * Maps parsed C# properties to the names and values System.Text.Json or Json.NET put on the wire
+ */
+export class JsonSerializerProfiles {
+    // ASP.NET Core defaults: System.Text.Json with JsonSerializerDefaults.Web, enums as numbers
+    static readonly defaultProfile: JsonSerializerProfile = { library: 'systemTextJson', namingPolicy: 'camelCase', enumsAsStrings: false };
+
+    private static readonly stringEnumConverters = ['JsonStringEnumConverter', 'StringEnumConverter', 'JsonStringEnumMemberConverter'];
+
+    /**
+     * Profile from the csharpApiTester.serializer settings; "auto" settings use what the project's startup code configures
+     * @param detected Options found in Program.cs / Startup.cs (AddNewtonsoftJson, PropertyNamingPolicy, JsonStringEnumConverter)
+     */
+    static resolve(detected: Partial<JsonSerializerProfile> = {}): JsonSerializerProfile {
+        const config = vscode.workspace.getConfiguration('csharpApiTester');
+        const library = config.get<string>('serializer.library', 'auto');
+        const namingPolicy = config.get<string>('serializer.namingPolicy', 'auto');
+        const enumFormat = config.get<string>('serializer.enumFormat', 'auto');
+
+        return {
+            library: library !== 'auto' ? library as JsonSerializerLibrary : detected.library ?? this.defaultProfile.library,
+            namingPolicy: namingPolicy !== 'auto' ? namingPolicy as JsonNamingPolicy : detected.namingPolicy ?? this.defaultProfile.namingPolicy,
+            enumsAsStrings: enumFormat !== 'auto' ? enumFormat === 'string' : detected.enumsAsStrings ?? this.defaultProfile.enumsAsStrings
+        };
+    }
+
+    /**
+     * JSON name of a property: the library's own rename attribute wins, otherwise the naming policy applies
+     */
+    static getPropertyName(property: ClassProperty, profile: JsonSerializerProfile): string {
+        const explicitName = profile.library === 'newtonsoft' ? property.newtonsoftJsonName : property.jsonName;
+        return explicitName ?? this.convertName(property.name, profile.namingPolicy);
+    }
+
+    /**
+     * [JsonIgnore] without a condition (or Condition = Always) removes a property from both directions
+     */
+    static isIgnored(property: ClassProperty): boolean {
+        return property.jsonIgnore === 'always';
+    }
+
+    /**
+     * Whether an enum property is written by member name rather than by number
+     */
+    static isEnumAsString(property: ClassProperty, profile: JsonSerializerProfile): boolean {
+        if (property.jsonConverter) {
+            return this.stringEnumConverters.includes(property.jsonConverter);
+        }
+        return profile.enumsAsStrings || property.enumInfo?.serializedAsString === true;
+    }
+
+    /**
+     * Whether a [JsonConverter] replaces the default JSON shape of a property (string enum converters keep it predictable)
+     */
+    static hasCustomConverter(property: ClassProperty): boolean {
+        return !!property.jsonConverter && !this.stringEnumConverters.includes(property.jsonConverter);
+    }
+
+    /**
+     * Apply a naming policy the way JsonNamingPolicy / Json.NET's naming strategies do: OrderId -> orderId, order_id, order-id
+     */
+    static convertName(name: string, policy: JsonNamingPolicy): string {
+        switch (policy) {
+            case 'pascalCase':
+                return name;
+            case 'camelCase':
+                return this.toCamelCase(name);
+            case 'snakeCaseLower':
+                return this.splitWords(name).join('_').toLowerCase();
+            case 'snakeCaseUpper':
+                return this.splitWords(name).join('_').toUpperCase();
+            case 'kebabCaseLower':
+                return this.splitWords(name).join('-').toLowerCase();
+            case 'kebabCaseUpper':
+                return this.splitWords(name).join('-').toUpperCase();
+        }
+    }
+
+    /**
+     * JsonNamingPolicy.CamelCase lowercases the leading run of capitals: ID -> id, URLValue -> urlValue, Name -> name
+     */
+    private static toCamelCase(name: string): string {
+        if (!name || !/^[A-Z]/.test(name)) {
+            return name;
+        }
+
+        const chars = name.split('');
+        for (let i = 0; i < chars.length; i++) {
+            if (i === 1 && !/[A-Z]/.test(chars[i])) {
+                break;
+            }
+            const hasNext = i + 1 < chars.length;
+            if (i > 0 && hasNext && !/[A-Z]/.test(chars[i + 1])) {
+                // Keep the capital that starts the next word: URLValue -> urlValue
+                if (chars[i + 1] === ' ') {
+                    chars[i] = chars[i].toLowerCase();
+                }
+                break;
+            }
+            chars[i] = chars[i].toLowerCase();
+        }
+        return chars.join('');
+    }
+
+    /**
+     * Word boundaries used by the snake_case and kebab-case policies: OrderID2Value -> Order, ID2, Value
+     */
+    private static splitWords(name: string): string[] {
+        return name.match(/[A-Z]+(?=[A-Z][a-z])|[A-Z]?[a-z0-9]+|[A-Z0-9]+/g) || [name];
+    }
+}
@@ -0,0 +1,213 @@
+/**
+ * Builds a string that matches a [RegularExpression] pattern or a route regex() constraint, for generated request values.
+ * Covers the common subset: literals, escapes (\d, \w, \s, \p{L}), character classes, groups, alternation and quantifiers
+ */
+export class RegexSampleGenerator {
+    // Tried in order when a character class or escape needs one matching character
+    private static readonly candidateCharacters = 'aA1bB2xX0 _-.@:/' +
+        Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)).join('');
+
+    /**
+     * Sample value for the pattern, or undefined when the pattern is not understood or the sample does not match
+     * @param wholeValue The whole value has to match, as for RegularExpressionAttribute (FluentValidation's Matches() does not)
+     */
+    static generate(pattern: string, wholeValue: boolean = true): string | undefined {
+        const regex = this.createRegExp(wholeValue ? `^(?:${pattern})$` : pattern);
+        if (!regex) {
+            return undefined;   // .NET-only syntax
+        }
+
+        try {
+            const sample = new RegexSampleGenerator(pattern).readAlternatives();
+            return regex.test(sample) ? sample : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Compile a .NET pattern; the u flag is needed for \p{L} categories but rejects some escapes .NET allows, such as \_
+     */
+    static createRegExp(pattern: string, flags: string = ''): RegExp | undefined {
+        for (const unicodeFlag of ['u', '']) {
+            try {
+                return new RegExp(pattern, flags + unicodeFlag);
+            } catch {
+                // Try without the u flag
+            }
+        }
+        return undefined;
+    }
+
+    private index = 0;
+
+    private constructor(private readonly pattern: string) { }
+
+    /**
+     * First alternative of a|b|c, up to the end of the current group
+     */
+    private readAlternatives(): string {
+        const text = this.readSequence();
+        while (this.pattern[this.index] === '|') {
+            this.index++;
+            this.readSequence();    // Other alternatives are skipped
+        }
+        return text;
+    }
+
+    private readSequence(): string {
+        let text = '';
+        while (this.index < this.pattern.length && this.pattern[this.index] !== '|' && this.pattern[this.index] !== ')') {
+            const atom = this.readAtom();
+            text += atom.repeat(this.readQuantifier());
+        }
+        return text;
+    }
+
+    private readAtom(): string {
+        const char = this.pattern[this.index++];
+        switch (char) {
+            case '^':
+            case '$':
+                return '';
+            case '.':
+                return 'a';
+            case '\\':
+                return this.readEscape();
+            case '[':
+                return this.readCharacterClass();
+            case '(':
+                return this.readGroup();
+            default:
+                return char;
+        }
+    }
+
+    private readEscape(): string {
+        const char = this.pattern[this.index++];
+        switch (char) {
+            case 'd': return '1';
+            case 'D': return 'a';
+            case 'w': return 'a';
+            case 'W': return '-';
+            case 's': return ' ';
+            case 'S': return 'a';
+            case 'b':
+            case 'B':
+            case 'A':
+            case 'z':
+            case 'Z':
+                return '';
+            case 't': return '\t';
+            case 'n': return '\n';
+            case 'p':
+            case 'P':
+                return this.readUnicodeCategory(char);
+            default:
+                if (char === undefined) {
+                    throw new Error('Pattern ends with an escape');
+                }
+                return char;
+        }
+    }
+
+    /**
+     * \p{L}, \P{Nd}: first candidate character in (or outside) the Unicode category
+     */
+    private readUnicodeCategory(escape: string): string {
+        const match = this.pattern.substring(this.index).match(/^\{(\w+)\}/);
+        if (!match) {
+            throw new Error('Unicode category without a name');
+        }
+        this.index += match[0].length;
+        return this.findCandidate(new RegExp(`\\${escape}{${match[1]}}`, 'u'));
+    }
+
+    /**
+     * First candidate character the class accepts: [A-Z] -> A, [^0-9] -> a
+     */
+    private readCharacterClass(): string {
+        const start = this.index - 1;
+        if (this.pattern[this.index] === '^') {
+            this.index++;
+        }
+        if (this.pattern[this.index] === ']') {
+            this.index++;   // A leading ] is a literal
+        }
+        while (this.index < this.pattern.length && this.pattern[this.index] !== ']') {
+            this.index += this.pattern[this.index] === '\\' ? 2 : 1;
+        }
+        this.index++;
+
+        const characterClass = RegexSampleGenerator.createRegExp(this.pattern.substring(start, this.index));
+        if (!characterClass) {
+            throw new Error('Invalid character class');
+        }
+        return this.findCandidate(characterClass);
+    }
+
+    private findCandidate(regex: RegExp): string {
+        const match = Array.from(RegexSampleGenerator.candidateCharacters).find(candidate => regex.test(candidate));
+        if (match === undefined) {
+            throw new Error('No sample character for class');
+        }
+        return match;
+    }
+
+    /**
+     * (...), (?:...), (?<name>...); lookarounds add nothing to the sample
+     */
+    private readGroup(): string {
+        let lookaround = false;
+        if (this.pattern[this.index] === '?') {
+            const prefix = this.pattern.substring(this.index, this.index + 3);
+            if (/^\?<[=!]/.test(prefix) || /^\?[=!]/.test(prefix)) {
+                lookaround = true;
+                this.index += prefix[1] === '<' ? 3 : 2;
+            } else if (prefix[1] === ':') {
+                this.index += 2;
+            } else if (prefix[1] === '<' || prefix[1] === '\'') {
+                const close = prefix[1] === '<' ? '>' : '\'';
+                this.index = this.pattern.indexOf(close, this.index + 2) + 1;
+            }
+        }
+
+        const text = this.readAlternatives();
+        if (this.pattern[this.index] !== ')') {
+            throw new Error('Unclosed group');
+        }
+        this.index++;
+        return lookaround ? '' : text;
+    }
+
+    /**
+     * Repetitions to generate: the minimum, but at least one when more are allowed (x* -> x, x? -> x, x{2,5} -> xx)
+     */
+    private readQuantifier(): number {
+        const char = this.pattern[this.index];
+        let min = 1;
+        let max: number | undefined = 1;
+
+        if (char === '*' || char === '+' || char === '?') {
+            this.index++;
+            min = char === '+' ? 1 : 0;
+            max = char === '?' ? 1 : undefined;
+        } else if (char === '{') {
+            const match = this.pattern.substring(this.index).match(/^\{(\d+)(,(\d*))?\}/);
+            if (!match) {
+                return 1;   // A literal {
+            }
+            this.index += match[0].length;
+            min = parseInt(match[1], 10);
+            max = match[2] === undefined ? min : match[3] ? parseInt(match[3], 10) : undefined;
+        } else {
+            return 1;
+        }
+
+        // Lazy and possessive suffixes do not change what matches
+        if (this.pattern[this.index] === '?' || this.pattern[this.index] === '+') {
+            this.index++;
+        }
+        return min > 0 || max === 0 ? min : 1;
+    }
+}
@@ -0,0 +1,253 @@
+import { EndpointResponse } from './apiEndpointDetector';
+import { ClassProperty } from './csharpClassParser';
+import { JsonSerializerProfile, JsonSerializerProfiles } from './jsonSerializerProfile';
+
+export type ResponseContractIssueKind = 'undeclaredStatus' | 'missingField' | 'unexpectedField' | 'typeMismatch';
+
+export interface ResponseContractIssue {
+    kind: ResponseContractIssueKind;
+    path: string;           // JSON path such as $.lines[0].qty
+    message: string;
+}
+
+/**
+ * Result of checking a response against the status codes and body type an endpoint declares
+ */
+export interface ResponseContractReport {
+    statusCode: number;
+    declaredStatusCodes: number[];
+    expectedType?: string;  // Declared body type for the status code
+    bodyChecked: boolean;   // The JSON body was compared with the parsed C# type
+    issues: ResponseContractIssue[];
+}
+
+type JsonKind = 'number' | 'string' | 'boolean' | 'array' | 'map' | 'object' | 'any';
+
+/**
+ * Compares responses with [ProducesResponseType] / .Produces() contracts:
+ * undeclared status codes, and missing, unexpected or mistyped fields of the JSON body
+ */
+export class ResponseContractValidator {
+    private static readonly maxIssues = 50;
+    private static readonly maxArrayItems = 20;
+
+    private static readonly numberTypes = [
+        'int', 'long', 'short', 'byte', 'sbyte', 'uint', 'ulong', 'ushort', 'float', 'double', 'decimal',
+        'Int16', 'Int32', 'Int64', 'UInt16', 'UInt32', 'UInt64', 'Byte', 'SByte', 'Single', 'Double', 'Decimal'
+    ];
+    private static readonly stringTypes = [
+        'string', 'String', 'char', 'Char', 'Guid', 'DateTime', 'DateTimeOffset', 'DateOnly', 'TimeOnly', 'TimeSpan', 'Uri'
+    ];
+    private static readonly booleanTypes = ['bool', 'Boolean'];
+    private static readonly anyTypes = ['object', 'Object', 'dynamic', 'JsonElement', 'JsonNode', 'JsonObject', 'JsonDocument', 'JObject', 'JToken'];
+    private static readonly collectionTypes = [
+        'List', 'IList', 'IEnumerable', 'ICollection', 'IReadOnlyList', 'IReadOnlyCollection', 'Collection', 'ObservableCollection',
+        'HashSet', 'ISet', 'IReadOnlySet', 'SortedSet', 'Array', 'ImmutableArray', 'ImmutableList', 'IAsyncEnumerable'
+    ];
+    private static readonly dictionaryTypes = ['Dictionary', 'IDictionary', 'IReadOnlyDictionary', 'ConcurrentDictionary', 'SortedDictionary', 'Hashtable'];
+
+    /**
+     * @param responses Responses the endpoint declares
+     * @param statusCode Status code of the actual response
+     * @param data Parsed JSON body; undefined when the body is not JSON and should not be compared
+     * @param properties Parsed properties of the declared body type (or of its element type for collections)
+     * @param profile Serializer settings of the API; decides the JSON names fields are expected under
+     */
+    static validate(responses: EndpointResponse[], statusCode: number, data: unknown, properties: ClassProperty[] | null,
+        profile: JsonSerializerProfile = JsonSerializerProfiles.defaultProfile): ResponseContractReport {
+        const declared = responses.find(response => response.statusCode === statusCode);
+        const report: ResponseContractReport = {
+            statusCode,
+            declaredStatusCodes: responses.map(response => response.statusCode),
+            expectedType: declared?.type,
+            bodyChecked: false,
+            issues: []
+        };
+
+        if (!declared) {
+            report.issues.push({
+                kind: 'undeclaredStatus',
+                path: '$',
+                message: `Status ${statusCode} is not declared (declared: ${report.declaredStatusCodes.join(', ')})`
+            });
+            return report;
+        }
+
+        if (declared.type && data !== undefined) {
+            report.bodyChecked = true;
+            this.validateValue(data === '' ? null : data, declared.type, true, properties || undefined, '$', profile, report.issues);
+        }
+
+        return report;
+    }
+
+    /**
+     * Innermost type whose properties describe the body: OrderDto for List<OrderDto>, OrderDto[] or OrderDto?
+     */
+    static getElementType(type: string): string {
+        let current = type.trim().replace(/\?$/, '');
+        for (;;) {
+            if (current.endsWith('[]')) {
+                current = current.slice(0, -2).trim();
+                continue;
+            }
+            const genericMatch = current.match(/^([\w.]+)\s*<(.+)>$/);
+            if (genericMatch && this.collectionTypes.includes(this.getSimpleTypeName(genericMatch[1]))) {
+                current = genericMatch[2].trim().replace(/\?$/, '');
+                continue;
+            }
+            return current;
+        }
+    }
+
+    private static validateValue(value: unknown, type: string, required: boolean, properties: ClassProperty[] | undefined, path: string,
+        profile: JsonSerializerProfile, issues: ResponseContractIssue[]): void {
+        if (issues.length >= this.maxIssues) {
+            return;
+        }
+
+        const nullable = type.trim().endsWith('?') || !required;
+        const kind = this.getJsonKind(type, properties);
+
+        if (value === null || value === undefined) {
+            // Reference types may be null without a "?" in projects without nullable reference types
+            if (!nullable && (kind === 'number' || kind === 'boolean')) {
+                issues.push({ kind: 'typeMismatch', path, message: `Expected ${kind} (${type}), got null` });
+            }
+            return;
+        }
+
+        const actual = this.getJsonTypeName(value);
+        switch (kind) {
+            case 'any':
+                return;
+            case 'number':
+            case 'string':
+            case 'boolean':
+                if (actual !== kind) {
+                    issues.push({ kind: 'typeMismatch', path, message: `Expected ${kind} (${type}), got ${actual}` });
+                }
+                return;
+            case 'map':
+                if (actual !== 'object') {
+                    issues.push({ kind: 'typeMismatch', path, message: `Expected object (${type}), got ${actual}` });
+                }
+                return;
+            case 'array':
+                if (actual !== 'array') {
+                    issues.push({ kind: 'typeMismatch', path, message: `Expected array (${type}), got ${actual}` });
+                    return;
+                }
+                (value as unknown[]).slice(0, this.maxArrayItems).forEach((item, index) =>
+                    this.validateValue(item, this.getItemType(type), false, properties, `${path}[${index}]`, profile, issues));
+                return;
+            case 'object':
+                if (actual !== 'object') {
+                    issues.push({ kind: 'typeMismatch', path, message: `Expected object (${type}), got ${actual}` });
+                    return;
+                }
+                this.validateObject(value as Record<string, unknown>, properties || [], path, profile, issues);
+                return;
+        }
+    }
+
+    private static validateObject(value: Record<string, unknown>, properties: ClassProperty[], path: string,
+        profile: JsonSerializerProfile, issues: ResponseContractIssue[]): void {
+        const keys = Object.keys(value);
+        const matchedKeys = new Set<string>();
+
+        for (const property of properties) {
+            if (JsonSerializerProfiles.isIgnored(property) || property.jsonExtensionData) {
+                continue;
+            }
+
+            // The wire name from the naming policy or [JsonPropertyName]; other casings are accepted as a fallback
+            const name = JsonSerializerProfiles.getPropertyName(property, profile);
+            const key = keys.includes(name) ? name : keys.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+            if (key === undefined) {
+                // [JsonIgnore(Condition = WhenWritingNull / WhenWritingDefault)] leaves the field out for empty values
+                if (!property.jsonIgnore) {
+                    issues.push({ kind: 'missingField', path: `${path}.${name}`, message: `Missing field '${name}' (${property.type})` });
+                }
+                continue;
+            }
+            matchedKeys.add(key);
+
+            if (JsonSerializerProfiles.hasCustomConverter(property)) {
+                continue;   // A custom [JsonConverter] may write any shape
+            }
+            if (property.enumInfo && value[key] !== null && this.getJsonKind(property.type, undefined) === 'any') {
+                const expected = JsonSerializerProfiles.isEnumAsString(property, profile) ? 'string' : 'number';
+                const actual = this.getJsonTypeName(value[key]);
+                if (actual !== expected) {
+                    issues.push({ kind: 'typeMismatch', path: `${path}.${key}`, message: `Expected ${expected} (${property.type}), got ${actual}` });
+                }
+                continue;
+            }
+            this.validateValue(value[key], property.type, property.required, property.properties, `${path}.${key}`, profile, issues);
+        }
+
+        // [JsonExtensionData] takes every field no other property matches
+        if (properties.some(property => property.jsonExtensionData)) {
+            return;
+        }
+
+        for (const key of keys.filter(candidate => !matchedKeys.has(candidate))) {
+            issues.push({ kind: 'unexpectedField', path: `${path}.${key}`, message: `Unexpected field '${key}'` });
+        }
+    }
+
+    private static getJsonKind(type: string, properties: ClassProperty[] | undefined): JsonKind {
+        const trimmed = type.trim().replace(/\?$/, '');
+        if (trimmed === 'byte[]' || trimmed === 'Byte[]') {
+            return 'string';    // Base64
+        }
+        if (trimmed.endsWith('[]')) {
+            return 'array';
+        }
+
+        const simpleName = this.getSimpleTypeName(trimmed);
+        if (this.collectionTypes.includes(simpleName)) {
+            return 'array';
+        }
+        if (this.dictionaryTypes.includes(simpleName)) {
+            return 'map';
+        }
+        if (this.numberTypes.includes(simpleName)) {
+            return 'number';
+        }
+        if (this.stringTypes.includes(simpleName)) {
+            return 'string';
+        }
+        if (this.booleanTypes.includes(simpleName)) {
+            return 'boolean';
+        }
+
+        // Enums and types that could not be parsed are not checked
+        const isEnumMarker = properties?.length === 1 && properties[0].name === '_enum';
+        return !this.anyTypes.includes(simpleName) && properties && properties.length > 0 && !isEnumMarker ? 'object' : 'any';
+    }
+
+    /**
+     * OrderDto for List<OrderDto> or OrderDto[]
+     */
+    private static getItemType(type: string): string {
+        const trimmed = type.trim().replace(/\?$/, '');
+        if (trimmed.endsWith('[]')) {
+            return trimmed.slice(0, -2);
+        }
+        const genericMatch = trimmed.match(/<(.+)>$/);
+        return genericMatch ? genericMatch[1].trim() : 'object';
+    }
+
+    private static getJsonTypeName(value: unknown): string {
+        if (value === null) {
+            return 'null';
+        }
+        return Array.isArray(value) ? 'array' : typeof value;
+    }
+
+    private static getSimpleTypeName(type: string): string {
+        return type.replace(/\?/g, '').replace(/<.*$/, '').trim().split('.').pop() || '';
+    }
+}
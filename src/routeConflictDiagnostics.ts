@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import { ApiEndpointInfo } from './apiEndpointDetector';
+import { ApiEndpointExplorerProvider, IndexedApiEndpoint } from './apiEndpointExplorer';
+import { EndpointUrlResolver } from './endpointUrlResolver';
+import { RouteTemplate, RouteTemplateParameter, RouteTemplateSegment } from './routeTemplate';
+
+export type RouteIssueKind = 'duplicateRoute' | 'overlappingRoute' | 'unboundRouteParameter' | 'missingRouteParameter';
+
+/**
+ * Problem found in the routes of one endpoint
+ */
+export interface RouteIssue {
+    kind: RouteIssueKind;
+    item: IndexedApiEndpoint;
+    message: string;
+    related: IndexedApiEndpoint[];  // Endpoints the route conflicts with
+}
+
+/**
+ * Segment reduced to what decides whether two routes can match the same URL
+ */
+interface SegmentShape {
+    kind: 'literal' | 'parameter' | 'constrained' | 'catchAll' | 'complex';
+    text: string;                   // Lower-case literal, or the segment with parameter names removed
+    parameter?: RouteTemplateParameter;
+}
+
+/**
+ * Publishes diagnostics for workspace routes that fail or misbehave at runtime: identical method + template pairs
+ * (AmbiguousMatchException), templates that match the same URLs with equal precedence, route parameters no action
+ * parameter binds to, and route-bound parameters missing from the template
+ */
+export class RouteConflictDiagnostics implements vscode.Disposable {
+    private static readonly source = 'C# API Tester';
+    // Values tried against two constraint lists to see whether one route value can satisfy both
+    private static readonly constraintSamples = [
+        '1', '-1', '0', '2147483648', '1.5', 'true', 'abc', 'a1', 'index.html',
+        '3f2504e0-4f89-11d3-9a0c-0305e82c3301', '2024-01-01', 'x'.repeat(40)
+    ];
+
+    private diagnostics = vscode.languages.createDiagnosticCollection('csharpApiTesterRoutes');
+    private updateTimer?: NodeJS.Timeout;
+    private updating = false;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private explorer: ApiEndpointExplorerProvider) {
+        // The explorer index is refreshed as .cs files, projects and startup code change
+        explorer.onDidChangeTreeData(() => this.scheduleUpdate(), null, this.disposables);
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('csharpApiTester.routeDiagnostics.enabled')) {
+                this.scheduleUpdate();
+            }
+        }, null, this.disposables);
+
+        this.disposables.push(this.diagnostics);
+        this.scheduleUpdate();
+    }
+
+    /**
+     * Find route problems among endpoints of the same application
+     * @param getGroup Application an endpoint belongs to, e.g. its project; routes only conflict within one
+     */
+    static findIssues(items: IndexedApiEndpoint[], getGroup: (item: IndexedApiEndpoint) => string): RouteIssue[] {
+        const issues: RouteIssue[] = [];
+
+        for (const item of items) {
+            issues.push(...this.findParameterIssues(item));
+        }
+
+        // Only endpoints answering the same method (and Razor Pages handler / API version outside the route) compete
+        const groups = new Map<string, Array<{ item: IndexedApiEndpoint; route: string; shapes: SegmentShape[][]; text: string }>>();
+        for (const item of items) {
+            const endpoint = item.endpoint;
+            const key = [
+                getGroup(item),
+                endpoint.method,
+                endpoint.pageHandler?.toLowerCase() || '',
+                endpoint.apiVersionInRoute ? '' : endpoint.apiVersion || ''
+            ].join('\u0000');
+
+            const template = EndpointUrlResolver.getRouteTemplate(endpoint);
+            const entry = {
+                item,
+                route: template.toString(),     // With constraints, which decide whether routes overlap
+                shapes: this.getMatchVariants(template),
+                text: this.getShapeText(this.getSegmentShapes(template.segments))
+            };
+            const group = groups.get(key);
+            if (group) {
+                group.push(entry);
+            } else {
+                groups.set(key, [entry]);
+            }
+        }
+
+        for (const entries of groups.values()) {
+            for (const entry of entries) {
+                const others = entries.filter(other => other !== entry && !this.isSameDeclaration(entry.item, other.item));
+                const duplicates = others.filter(other => other.text === entry.text);
+                const overlapping = others.filter(other => other.text !== entry.text && this.overlaps(entry.shapes, other.shapes));
+                const endpoint = entry.item.endpoint;
+
+                if (duplicates.length > 0) {
+                    issues.push({
+                        kind: 'duplicateRoute',
+                        item: entry.item,
+                        message: `Duplicate route: ${endpoint.method} ${entry.route} is also declared by ` +
+                            `${duplicates.map(other => this.describeEndpoint(other.item.endpoint)).join(', ')}; ` +
+                            'requests fail with AmbiguousMatchException',
+                        related: duplicates.map(other => other.item)
+                    });
+                }
+
+                for (const other of overlapping) {
+                    issues.push({
+                        kind: 'overlappingRoute',
+                        item: entry.item,
+                        message: `Route ${endpoint.method} ${entry.route} matches the same URLs as ` +
+                            `${other.route} (${this.describeEndpoint(other.item.endpoint)}) with equal precedence; ` +
+                            'such requests are ambiguous',
+                        related: [other.item]
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    dispose(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private scheduleUpdate(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.updateTimer = setTimeout(() => this.update(), 500);
+    }
+
+    private async update(): Promise<void> {
+        if (this.updating) {
+            this.scheduleUpdate();
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('csharpApiTester');
+        if (!config.get<boolean>('routeDiagnostics.enabled', true)) {
+            this.diagnostics.clear();
+            return;
+        }
+
+        this.updating = true;
+        try {
+            const items = await this.explorer.getAllEndpoints();
+            const issues = RouteConflictDiagnostics.findIssues(items, item => this.explorer.getProjectName(item.uri));
+
+            const diagnosticsByFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+            for (const issue of issues) {
+                const diagnostic = new vscode.Diagnostic(
+                    await this.getRange(issue.item),
+                    issue.message,
+                    issue.kind === 'duplicateRoute' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+                diagnostic.source = RouteConflictDiagnostics.source;
+                diagnostic.code = issue.kind;
+                if (issue.related.length > 0) {
+                    diagnostic.relatedInformation = await Promise.all(issue.related.map(async related =>
+                        new vscode.DiagnosticRelatedInformation(
+                            new vscode.Location(related.uri, await this.getRange(related)),
+                            `${related.endpoint.method} ${related.endpoint.route} (${RouteConflictDiagnostics.describeEndpoint(related.endpoint)})`)));
+                }
+
+                const entry = diagnosticsByFile.get(issue.item.uri.toString());
+                if (entry) {
+                    entry.diagnostics.push(diagnostic);
+                } else {
+                    diagnosticsByFile.set(issue.item.uri.toString(), { uri: issue.item.uri, diagnostics: [diagnostic] });
+                }
+            }
+
+            this.diagnostics.clear();
+            for (const { uri, diagnostics } of diagnosticsByFile.values()) {
+                this.diagnostics.set(uri, diagnostics);
+            }
+            console.log(`[C# API Diagnostics] ✅ ${issues.length} route issues in ${items.length} endpoints`);
+        } catch (error) {
+            console.error('[C# API Diagnostics] ⚠️ Failed to check routes:', error);
+        } finally {
+            this.updating = false;
+        }
+    }
+
+    /**
+     * The declaration line of the endpoint, without leading whitespace
+     */
+    private async getRange(item: IndexedApiEndpoint): Promise<vscode.Range> {
+        try {
+            const document = await vscode.workspace.openTextDocument(item.uri);
+            const line = document.lineAt(Math.min(item.endpoint.line, document.lineCount - 1));
+            return new vscode.Range(line.lineNumber, line.firstNonWhitespaceCharacterIndex, line.lineNumber, line.range.end.character);
+        } catch {
+            return new vscode.Range(item.endpoint.line, 0, item.endpoint.line, 0);
+        }
+    }
+
+    /**
+     * Route parameters without a matching action parameter, and route-bound action parameters without a route parameter
+     */
+    private static findParameterIssues(item: IndexedApiEndpoint): RouteIssue[] {
+        const issues: RouteIssue[] = [];
+        const endpoint = item.endpoint;
+        // Route values may bind to members of a complex [FromRoute] / [AsParameters] type that could not be expanded
+        if (endpoint.parameters.some(param => param.unresolvedMembers)) {
+            return issues;
+        }
+
+        const template = RouteTemplate.parse(endpoint.route);
+        const boundNames = new Set(endpoint.parameters.map(param => param.name.toLowerCase()));
+
+        for (const routeParameter of template.parameters) {
+            if (!boundNames.has(routeParameter.name.toLowerCase())) {
+                issues.push({
+                    kind: 'unboundRouteParameter',
+                    item,
+                    message: `Route parameter {${routeParameter.name}} of ${endpoint.method} ${endpoint.route} ` +
+                        `does not match any parameter of ${endpoint.methodName}`,
+                    related: []
+                });
+            }
+        }
+
+        for (const param of endpoint.parameters.filter(p => p.source === 'path')) {
+            if (!template.getParameter(param.name)) {
+                issues.push({
+                    kind: 'missingRouteParameter',
+                    item,
+                    message: `Parameter '${param.name}' of ${endpoint.methodName} is bound from the route, ` +
+                        `but ${endpoint.route} has no {${param.name}} segment`,
+                    related: []
+                });
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Segment lists the template matches: the full template, and with trailing optional or catch-all segments left out
+     */
+    private static getMatchVariants(template: RouteTemplate): SegmentShape[][] {
+        const shapes = this.getSegmentShapes(template.segments);
+        const variants = [shapes];
+
+        let length = shapes.length;
+        while (length > 0) {
+            const last = shapes[length - 1];
+            if (last.kind !== 'catchAll' && !last.parameter?.optional) {
+                break;
+            }
+            length--;
+            variants.push(shapes.slice(0, length));
+        }
+        return variants;
+    }
+
+    private static getSegmentShapes(segments: RouteTemplateSegment[]): SegmentShape[] {
+        return segments
+            .filter(segment => segment.parts.length > 0)
+            .map(segment => {
+                const part = segment.parts[0];
+                if (segment.parts.length === 1 && part.kind === 'literal') {
+                    return { kind: 'literal', text: part.text.toLowerCase() };
+                }
+                if (segment.parts.length === 1 && part.kind === 'parameter') {
+                    const parameter = part.parameter;
+                    const constraints = parameter.constraints.map(constraint => constraint.text.toLowerCase()).sort().join(':');
+                    return {
+                        kind: parameter.catchAll ? 'catchAll' : constraints ? 'constrained' : 'parameter',
+                        text: `{${parameter.catchAll ? '*' : ''}${constraints ? `:${constraints}` : ''}${parameter.optional ? '?' : ''}}`,
+                        parameter
+                    };
+                }
+                return {
+                    kind: 'complex',
+                    text: segment.parts.map(complexPart => complexPart.kind === 'literal'
+                        ? complexPart.text.toLowerCase()
+                        : `{${complexPart.parameter.optional ? '?' : ''}}`).join('')
+                };
+            });
+    }
+
+    private static getShapeText(shapes: SegmentShape[]): string {
+        return shapes.map(shape => shape.text).join('/');
+    }
+
+    /**
+     * Two routes match a common URL and neither is more specific: every segment has the same kind and can take the same value
+     */
+    private static overlaps(variantsA: SegmentShape[][], variantsB: SegmentShape[][]): boolean {
+        return variantsA.some(a => variantsB.some(b =>
+            a.length === b.length && a.every((shape, index) => this.segmentsOverlap(shape, b[index]))));
+    }
+
+    private static segmentsOverlap(a: SegmentShape, b: SegmentShape): boolean {
+        if (a.kind !== b.kind) {
+            return false;
+        }
+        switch (a.kind) {
+            case 'literal':
+            case 'complex':
+                return a.text === b.text;
+            case 'constrained':
+                return this.constraintSamples.some(sample =>
+                    RouteTemplate.matchesConstraints(sample, a.parameter!.constraints) &&
+                    RouteTemplate.matchesConstraints(sample, b.parameter!.constraints));
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * The same action listed twice, e.g. for each of its [Http*] attributes with the same template
+     */
+    private static isSameDeclaration(a: IndexedApiEndpoint, b: IndexedApiEndpoint): boolean {
+        return a.uri.toString() === b.uri.toString() && a.endpoint.line === b.endpoint.line &&
+            a.endpoint.methodName === b.endpoint.methodName && a.endpoint.controllerName === b.endpoint.controllerName;
+    }
+
+    private static describeEndpoint(endpoint: ApiEndpointInfo): string {
+        return endpoint.controllerName ? `${endpoint.controllerName}.${endpoint.methodName}` : endpoint.methodName;
+    }
+}
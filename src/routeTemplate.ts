@@ -0,0 +1,451 @@
+/**
+ * ASP.NET Core route template parsing: `api/{id:int:min(1)}`, `{slug?}`, `{page=1}`, `{**path}`, `{name}.{ext?}`
+ */
+
+export interface RouteConstraint {
+    name: string;           // int, min, regex, ...
+    argument?: string;      // Text between the parentheses, e.g. "1" for min(1)
+    text: string;           // Constraint as written, e.g. "min(1)"
+}
+
+export interface RouteTemplateParameter {
+    name: string;
+    constraints: RouteConstraint[];
+    optional: boolean;
+    defaultValue?: string;
+    catchAll: boolean;
+    encodeSlashes: boolean; // {*path} encodes '/' in the value, {**path} keeps it
+}
+
+export type RouteTemplatePart =
+    | { kind: 'literal'; text: string }
+    | { kind: 'parameter'; parameter: RouteTemplateParameter };
+
+export interface RouteTemplateSegment {
+    parts: RouteTemplatePart[];
+}
+
+export class RouteTemplate {
+    private constructor(
+        public readonly segments: RouteTemplateSegment[]
+    ) {}
+
+    get parameters(): RouteTemplateParameter[] {
+        const parameters: RouteTemplateParameter[] = [];
+        for (const segment of this.segments) {
+            for (const part of segment.parts) {
+                if (part.kind === 'parameter') {
+                    parameters.push(part.parameter);
+                }
+            }
+        }
+        return parameters;
+    }
+
+    /**
+     * Parse a route template. Segments are split on '/', `{{` and `}}` are literal braces.
+     * @param template Route template, e.g. "/api/orders/{id:int}"
+     */
+    static parse(template: string): RouteTemplate {
+        const segments: RouteTemplateSegment[] = [];
+        let parts: RouteTemplatePart[] = [];
+        let literal = '';
+
+        const flushLiteral = () => {
+            if (literal) {
+                parts.push({ kind: 'literal', text: literal });
+                literal = '';
+            }
+        };
+
+        let i = 0;
+        while (i < template.length) {
+            const char = template[i];
+
+            if ((char === '{' || char === '}') && template[i + 1] === char) {
+                literal += char;
+                i += 2;
+            } else if (char === '{') {
+                const { text, end } = RouteTemplate.readParameterText(template, i + 1);
+                flushLiteral();
+                parts.push({ kind: 'parameter', parameter: RouteTemplate.parseParameter(text) });
+                i = end + 1;
+            } else if (char === '/') {
+                flushLiteral();
+                segments.push({ parts });
+                parts = [];
+                i++;
+            } else {
+                literal += char;
+                i++;
+            }
+        }
+
+        flushLiteral();
+        segments.push({ parts });
+
+        return new RouteTemplate(segments);
+    }
+
+    /**
+     * Parse constraints stored as text, e.g. "int:min(1)"
+     */
+    static parseConstraints(constraintText: string | undefined): RouteConstraint[] {
+        if (!constraintText) {
+            return [];
+        }
+        return RouteTemplate.splitConstraints(constraintText).map(text => RouteTemplate.parseConstraint(text));
+    }
+
+    /**
+     * Find a parameter by name (route parameter names are case-insensitive)
+     */
+    getParameter(name: string): RouteTemplateParameter | undefined {
+        const lowerName = name.toLowerCase();
+        return this.parameters.find(parameter => parameter.name.toLowerCase() === lowerName);
+    }
+
+    /**
+     * Render the template back to text
+     */
+    toString(): string {
+        return this.segments
+            .map(segment => segment.parts.map(part => part.kind === 'literal'
+                ? part.text.replace(/\{/g, '{{').replace(/\}/g, '}}')
+                : `{${RouteTemplate.formatParameter(part.parameter)}}`).join(''))
+            .join('/');
+    }
+
+    /**
+     * Build a URL path from parameter values. Optional parameters without a value are dropped together
+     * with a preceding '.' separator ({name}.{ext?}); segments left empty that way are removed.
+     * @param getValue Returns the value for a parameter, or undefined when there is none
+     */
+    render(getValue: (parameter: RouteTemplateParameter) => string | undefined): string {
+        const renderedSegments: string[] = [];
+
+        for (const segment of this.segments) {
+            let rendered = '';
+            let omittedParameter = false;
+
+            for (let i = 0; i < segment.parts.length; i++) {
+                const part = segment.parts[i];
+                if (part.kind === 'literal') {
+                    // The '.' before an omitted optional parameter is dropped as well
+                    const next = segment.parts[i + 1];
+                    if (part.text.endsWith('.') && next?.kind === 'parameter' && next.parameter.optional && !getValue(next.parameter)) {
+                        rendered += part.text.slice(0, -1);
+                    } else {
+                        rendered += part.text;
+                    }
+                    continue;
+                }
+
+                const value = getValue(part.parameter);
+                if (value === undefined || value === '') {
+                    omittedParameter = true;
+                    continue;
+                }
+                rendered += RouteTemplate.encodeValue(part.parameter, value);
+            }
+
+            if (rendered || !omittedParameter) {
+                renderedSegments.push(rendered);
+            }
+        }
+
+        return renderedSegments.join('/');
+    }
+
+    /**
+     * Match a URL path against the template. Literals compare case-insensitively, constraints are checked
+     * and omitted optional parameters take their default value.
+     * @param path URL path without query string, e.g. "/api/orders/42"
+     * @returns Parameter values by name, or undefined when the path does not match
+     */
+    match(path: string): Record<string, string> | undefined {
+        const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const captured: RouteTemplateParameter[] = [];
+        let pattern = '^';
+
+        for (const segment of this.segments.filter(segment => segment.parts.length > 0)) {
+            let body = '';
+
+            for (let i = 0; i < segment.parts.length; i++) {
+                const part = segment.parts[i];
+                const next = segment.parts[i + 1];
+
+                if (part.kind === 'literal') {
+                    // {name}.{ext?} - the '.' belongs to the optional parameter
+                    if (part.text.endsWith('.') && next?.kind === 'parameter' && next.parameter.optional && segment.parts.length > 2) {
+                        body += `${escape(part.text.slice(0, -1))}(?:\\.([^/]+?))?`;
+                        captured.push(next.parameter);
+                        i++;
+                    } else {
+                        body += escape(part.text);
+                    }
+                    continue;
+                }
+
+                captured.push(part.parameter);
+                body += part.parameter.catchAll ? '(.*)' : '([^/]+?)';
+            }
+
+            const onlyPart = segment.parts.length === 1 ? segment.parts[0] : undefined;
+            const optionalSegment = onlyPart?.kind === 'parameter' && (onlyPart.parameter.optional || onlyPart.parameter.catchAll);
+            pattern += optionalSegment ? `(?:/${body})?` : `/${body}`;
+        }
+
+        const match = new RegExp(`${pattern}/?$`, 'i').exec(path.startsWith('/') ? path : `/${path}`);
+        if (!match) {
+            return undefined;
+        }
+
+        const values: Record<string, string> = {};
+        for (let i = 0; i < captured.length; i++) {
+            const parameter = captured[i];
+            const rawValue = match[i + 1];
+
+            if (rawValue === undefined || rawValue === '') {
+                if (!parameter.optional && !parameter.catchAll) {
+                    return undefined;
+                }
+                if (parameter.defaultValue !== undefined) {
+                    values[parameter.name] = parameter.defaultValue;
+                }
+                continue;
+            }
+
+            let value: string;
+            try {
+                value = decodeURIComponent(rawValue);
+            } catch {
+                value = rawValue;
+            }
+
+            if (!RouteTemplate.matchesConstraints(value, parameter.constraints)) {
+                return undefined;
+            }
+            values[parameter.name] = value;
+        }
+
+        return values;
+    }
+
+    /**
+     * Inbound precedence per segment, lower is more specific (as ASP.NET Core orders attribute routes):
+     * literal 1, complex segment 2, constrained parameter 3, parameter 4, catch-all 5
+     */
+    getPrecedence(): number[] {
+        return this.segments
+            .filter(segment => segment.parts.length > 0)
+            .map(segment => {
+                if (segment.parts.length > 1) {
+                    return 2;
+                }
+                const part = segment.parts[0];
+                if (part.kind === 'literal') {
+                    return 1;
+                }
+                if (part.parameter.catchAll) {
+                    return 5;
+                }
+                return part.parameter.constraints.length > 0 ? 3 : 4;
+            });
+    }
+
+    /**
+     * Compare two templates by precedence; negative when a is more specific than b
+     */
+    static comparePrecedence(a: RouteTemplate, b: RouteTemplate): number {
+        const precedenceA = a.getPrecedence();
+        const precedenceB = b.getPrecedence();
+        for (let i = 0; i < Math.max(precedenceA.length, precedenceB.length); i++) {
+            const difference = (precedenceA[i] ?? 0) - (precedenceB[i] ?? 0);
+            if (difference !== 0) {
+                return difference;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Check a route value against ASP.NET Core route constraints; unknown constraints are accepted
+     */
+    static matchesConstraints(value: string, constraints: RouteConstraint[]): boolean {
+        const numbers = (argument: string | undefined) =>
+            (argument || '').split(',').filter(part => part.trim() !== '').map(part => Number(part.trim()));
+
+        return constraints.every(constraint => {
+            const [first, second] = numbers(constraint.argument);
+            switch (constraint.name.toLowerCase()) {
+                case 'int':
+                case 'long':
+                    return /^-?\d+$/.test(value);
+                case 'decimal':
+                case 'double':
+                case 'float':
+                    return /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value);
+                case 'bool':
+                    return /^(true|false)$/i.test(value);
+                case 'guid':
+                    return /^\{?[0-9a-f]{8}-?([0-9a-f]{4}-?){3}[0-9a-f]{12}\}?$/i.test(value);
+                case 'datetime':
+                    return !isNaN(Date.parse(value));
+                case 'alpha':
+                    return /^[a-z]+$/i.test(value);
+                case 'min':
+                    return Number(value) >= first;
+                case 'max':
+                    return Number(value) <= first;
+                case 'range':
+                    return Number(value) >= first && Number(value) <= second;
+                case 'minlength':
+                    return value.length >= first;
+                case 'maxlength':
+                    return value.length <= first;
+                case 'length':
+                    return second === undefined ? value.length === first : value.length >= first && value.length <= second;
+                case 'regex':
+                    try {
+                        return new RegExp(constraint.argument || '', 'i').test(value);
+                    } catch {
+                        return true;
+                    }
+                case 'required':
+                    return value.length > 0;
+                case 'file':
+                    return /\.[^./]+$/.test(value);
+                case 'nonfile':
+                    return !/\.[^./]+$/.test(value);
+                default:
+                    return true;
+            }
+        });
+    }
+
+    private static encodeValue(parameter: RouteTemplateParameter, value: string): string {
+        if (parameter.catchAll && !parameter.encodeSlashes) {
+            return value.split('/').map(part => encodeURIComponent(part)).join('/');
+        }
+        return encodeURIComponent(value);
+    }
+
+    private static formatParameter(parameter: RouteTemplateParameter): string {
+        let text = parameter.catchAll ? (parameter.encodeSlashes ? '*' : '**') : '';
+        text += parameter.name;
+        for (const constraint of parameter.constraints) {
+            text += `:${constraint.text.replace(/\{/g, '{{').replace(/\}/g, '}}')}`;
+        }
+        if (parameter.defaultValue !== undefined) {
+            text += `=${parameter.defaultValue}`;
+        } else if (parameter.optional) {
+            text += '?';
+        }
+        return text;
+    }
+
+    /**
+     * Read parameter text up to the closing '}' (doubled braces inside, e.g. in regex constraints, are unescaped)
+     */
+    private static readParameterText(template: string, start: number): { text: string; end: number } {
+        let text = '';
+        let i = start;
+
+        while (i < template.length) {
+            const char = template[i];
+            if ((char === '{' || char === '}') && template[i + 1] === char) {
+                text += char;
+                i += 2;
+                continue;
+            }
+            if (char === '}') {
+                return { text, end: i };
+            }
+            text += char;
+            i++;
+        }
+
+        return { text, end: template.length };
+    }
+
+    private static parseParameter(text: string): RouteTemplateParameter {
+        let rest = text.trim();
+        let catchAll = false;
+        let encodeSlashes = true;
+
+        if (rest.startsWith('**')) {
+            catchAll = true;
+            encodeSlashes = false;
+            rest = rest.substring(2);
+        } else if (rest.startsWith('*')) {
+            catchAll = true;
+            rest = rest.substring(1);
+        }
+
+        const nameMatch = rest.match(/^[^:=?]*/);
+        const name = (nameMatch ? nameMatch[0] : rest).trim();
+        rest = rest.substring(name.length);
+
+        // Constraints run until '=' or a trailing '?' outside parentheses
+        let depth = 0;
+        let constraintEnd = rest.length;
+        for (let i = 0; i < rest.length; i++) {
+            const char = rest[i];
+            if (char === '(') depth++;
+            if (char === ')') depth--;
+            if (depth === 0 && (char === '=' || (char === '?' && i === rest.length - 1))) {
+                constraintEnd = i;
+                break;
+            }
+        }
+
+        const constraintText = rest.substring(0, constraintEnd).replace(/^:/, '');
+        const suffix = rest.substring(constraintEnd);
+
+        return {
+            name,
+            constraints: RouteTemplate.parseConstraints(constraintText),
+            optional: suffix === '?' || suffix.startsWith('='),
+            defaultValue: suffix.startsWith('=') ? suffix.substring(1) : undefined,
+            catchAll,
+            encodeSlashes
+        };
+    }
+
+    private static splitConstraints(constraintText: string): string[] {
+        const constraints: string[] = [];
+        let depth = 0;
+        let current = '';
+
+        for (const char of constraintText) {
+            if (char === '(') depth++;
+            if (char === ')') depth--;
+            if (char === ':' && depth === 0) {
+                if (current) {
+                    constraints.push(current);
+                }
+                current = '';
+                continue;
+            }
+            current += char;
+        }
+
+        if (current) {
+            constraints.push(current);
+        }
+        return constraints;
+    }
+
+    private static parseConstraint(text: string): RouteConstraint {
+        const openParen = text.indexOf('(');
+        if (openParen === -1 || !text.endsWith(')')) {
+            return { name: text, text };
+        }
+        return {
+            name: text.substring(0, openParen),
+            argument: text.substring(openParen + 1, text.length - 1),
+            text
+        };
+    }
+}
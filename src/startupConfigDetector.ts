@@ -0,0 +1,386 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CSharpSyntaxParser, CSharpToken } from './csharpSyntax';
+import { JsonNamingPolicy, JsonSerializerProfile } from './jsonSerializerProfile';
+
+/**
+ * Conventional route registered with MapControllerRoute, MapAreaControllerRoute, MapDefaultControllerRoute or MapRoute
+ */
+export interface ConventionalRoute {
+    name?: string;
+    pattern: string;
+    areaName?: string;
+    defaults: Record<string, string>;   // Route values from `defaults: new { controller = "Blog" }`
+}
+
+/**
+ * Routing setup declared in a project's Program.cs / Startup.cs
+ */
+export interface StartupConfig {
+    projectName: string;
+    projectDirectory: string;
+    sourceFiles: string[];
+    pathBases: string[];                    // app.UsePathBase("/svc")
+    routePrefix?: string;                   // Global prefix added to attribute routes by an MVC convention
+    conventionalRoutes: ConventionalRoute[];
+    requiredHosts: string[];                // app.MapControllers().RequireHost("*:5000")
+    functionsRoutePrefix?: string;          // extensions.http.routePrefix of an Azure Functions host.json
+    serializer: Partial<JsonSerializerProfile>; // JSON options: AddNewtonsoftJson, PropertyNamingPolicy, JsonStringEnumConverter
+    nullableReferenceTypes?: boolean;       // <Nullable> of the .csproj or Directory.Build.props; undefined without a project file
+}
+
+/**
+ * Value the Environment Manager can offer for an environment's base path
+ */
+export interface BasePathSuggestion {
+    basePath: string;
+    projectName: string;
+    hosts: string[];
+}
+
+/**
+ * Reads path bases, global route prefixes and conventional routes from startup code,
+ * one configuration per project (nearest .csproj)
+ */
+export class StartupConfigDetector {
+    private static readonly excludePattern = '**/{node_modules,bin,obj,.git,packages}/**';
+    private static readonly defaultControllerRoute = '{controller=Home}/{action=Index}/{id?}';
+    private static readonly namingPolicies: Record<string, JsonNamingPolicy> = {
+        CamelCase: 'camelCase', SnakeCaseLower: 'snakeCaseLower', SnakeCaseUpper: 'snakeCaseUpper',
+        KebabCaseLower: 'kebabCaseLower', KebabCaseUpper: 'kebabCaseUpper'
+    };
+    // Json.NET contract resolvers and naming strategies
+    private static readonly newtonsoftNamingPolicies: Record<string, JsonNamingPolicy> = {
+        DefaultContractResolver: 'pascalCase', DefaultNamingStrategy: 'pascalCase',
+        CamelCasePropertyNamesContractResolver: 'camelCase', CamelCaseNamingStrategy: 'camelCase',
+        SnakeCaseNamingStrategy: 'snakeCaseLower', KebabCaseNamingStrategy: 'kebabCaseLower'
+    };
+
+    private syntaxParser = CSharpSyntaxParser.getInstance();
+    private configCache: Map<string, Promise<StartupConfig>> = new Map();    // project directory -> config
+    private projectFiles?: Promise<string[]>;                                 // .csproj paths, longest directory first
+
+    /**
+     * Startup configuration of the project a document belongs to
+     */
+    getConfigForDocument(document: vscode.TextDocument): Promise<StartupConfig> {
+        return this.getConfigForFile(document.uri);
+    }
+
+    /**
+     * Base path values derived from the startup code of every project in the workspace
+     */
+    async getBasePathSuggestions(): Promise<BasePathSuggestion[]> {
+        const suggestions: BasePathSuggestion[] = [];
+        const startupFiles = await vscode.workspace.findFiles('**/{Program,Startup}.cs', StartupConfigDetector.excludePattern);
+
+        for (const uri of startupFiles) {
+            const config = await this.getConfigForFile(uri);
+            for (const basePath of config.pathBases.length > 0 ? config.pathBases : ['']) {
+                if (!suggestions.some(s => s.basePath === basePath && s.projectName === config.projectName)) {
+                    suggestions.push({ basePath, projectName: config.projectName, hosts: config.requiredHosts });
+                }
+            }
+        }
+
+        return suggestions;
+    }
+
+    /**
+     * Drop cached configurations, e.g. after Program.cs, Startup.cs or a .csproj changed
+     */
+    invalidate(): void {
+        this.configCache.clear();
+        this.projectFiles = undefined;
+    }
+
+    /**
+     * Parse routing setup from startup source text
+     */
+    parseStartupText(text: string): Omit<StartupConfig, 'projectName' | 'projectDirectory' | 'sourceFiles' | 'functionsRoutePrefix'> {
+        const tokens = this.syntaxParser.tokenize(text);
+        const result: Omit<StartupConfig, 'projectName' | 'projectDirectory' | 'sourceFiles' | 'functionsRoutePrefix'> = {
+            pathBases: [],
+            conventionalRoutes: [],
+            requiredHosts: [],
+            serializer: this.parseSerializerOptions(tokens)
+        };
+
+        for (let i = 0; i < tokens.length - 1; i++) {
+            const token = tokens[i];
+            if (token.kind !== 'identifier' || tokens[i + 1].text !== '(') {
+                continue;
+            }
+
+            const closeIndex = this.syntaxParser.findMatchingToken(tokens, i + 1);
+            const args = this.syntaxParser.splitTokenList(tokens, i + 2, closeIndex);
+            const isCall = tokens[i - 1]?.text === '.';
+            const isNew = tokens[i - 1]?.text === 'new';
+
+            if (isCall && token.text === 'UsePathBase') {
+                const pathBase = this.findStringValue(tokens, args[0]);
+                if (pathBase !== undefined && !result.pathBases.includes(pathBase)) {
+                    result.pathBases.push(pathBase);
+                }
+            } else if (isCall && token.text === 'RequireHost') {
+                for (const arg of args) {
+                    const host = this.findStringValue(tokens, arg);
+                    if (host && !result.requiredHosts.includes(host)) {
+                        result.requiredHosts.push(host);
+                    }
+                }
+            } else if (isCall && (token.text === 'UseGeneralRoutePrefix' || token.text === 'UseRoutePrefix') ||
+                isNew && token.text === 'RouteAttribute') {
+                // options.UseGeneralRoutePrefix("api") or options.Conventions.Add(new RoutePrefixConvention(new RouteAttribute("api")))
+                const prefix = this.findStringValue(tokens, args[0]);
+                if (prefix !== undefined && result.routePrefix === undefined) {
+                    result.routePrefix = prefix;
+                }
+            } else if (isCall && token.text === 'MapDefaultControllerRoute') {
+                result.conventionalRoutes.push({ name: 'default', pattern: StartupConfigDetector.defaultControllerRoute, defaults: {} });
+            } else if (isCall && ['MapControllerRoute', 'MapAreaControllerRoute', 'MapRoute'].includes(token.text)) {
+                const route = this.parseConventionalRoute(tokens, args, token.text === 'MapAreaControllerRoute');
+                if (route) {
+                    result.conventionalRoutes.push(route);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * JSON serializer setup: AddNewtonsoftJson(), PropertyNamingPolicy = JsonNamingPolicy.SnakeCaseLower (or null),
+     * Json.NET contract resolvers / naming strategies, and a JsonStringEnumConverter / StringEnumConverter in the converters
+     */
+    private parseSerializerOptions(tokens: CSharpToken[]): Partial<JsonSerializerProfile> {
+        const serializer: Partial<JsonSerializerProfile> = {};
+
+        for (let i = 0; i < tokens.length - 1; i++) {
+            const token = tokens[i];
+            if (token.kind !== 'identifier') {
+                continue;
+            }
+
+            if (token.text === 'AddNewtonsoftJson' && tokens[i - 1]?.text === '.') {
+                serializer.library = 'newtonsoft';
+            } else if (token.text === 'PropertyNamingPolicy' && tokens[i + 1].text === '=') {
+                // PropertyNamingPolicy = null keeps C# names; JsonNamingPolicy.X selects a built-in policy
+                const value = tokens[i + 2];
+                if (value?.text === 'null') {
+                    serializer.namingPolicy = 'pascalCase';
+                } else if (value?.text === 'JsonNamingPolicy' && tokens[i + 3]?.text === '.' && StartupConfigDetector.namingPolicies[tokens[i + 4]?.text]) {
+                    serializer.namingPolicy = StartupConfigDetector.namingPolicies[tokens[i + 4].text];
+                }
+            } else if (tokens[i - 1]?.text === 'new' && StartupConfigDetector.newtonsoftNamingPolicies[token.text]) {
+                // Later wins: new DefaultContractResolver { NamingStrategy = new SnakeCaseNamingStrategy() }
+                serializer.namingPolicy = StartupConfigDetector.newtonsoftNamingPolicies[token.text];
+            } else if (tokens[i - 1]?.text === 'new' && (token.text === 'JsonStringEnumConverter' || token.text === 'StringEnumConverter') &&
+                tokens[i + 1].text !== '<') {
+                // JsonStringEnumConverter<TEnum> only applies to one enum
+                serializer.enumsAsStrings = true;
+            }
+        }
+
+        return serializer;
+    }
+
+    private async loadConfig(projectDirectory: string, projectName: string): Promise<StartupConfig> {
+        const config: StartupConfig = {
+            projectName,
+            projectDirectory,
+            sourceFiles: [],
+            pathBases: [],
+            conventionalRoutes: [],
+            requiredHosts: [],
+            serializer: {}
+        };
+
+        try {
+            const files = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(projectDirectory, '**/{Program,Startup}.cs'), StartupConfigDetector.excludePattern);
+
+            for (const uri of files) {
+                // Skip startup files of nested projects
+                const owner = await this.findProjectFile(uri.fsPath);
+                if (owner && path.dirname(owner) !== projectDirectory) {
+                    continue;
+                }
+
+                const document = await vscode.workspace.openTextDocument(uri);
+                const parsed = this.parseStartupText(document.getText());
+                config.sourceFiles.push(uri.fsPath);
+                config.pathBases.push(...parsed.pathBases.filter(p => !config.pathBases.includes(p)));
+                config.requiredHosts.push(...parsed.requiredHosts.filter(h => !config.requiredHosts.includes(h)));
+                config.conventionalRoutes.push(...parsed.conventionalRoutes);
+                config.routePrefix = config.routePrefix ?? parsed.routePrefix;
+                config.serializer = { ...parsed.serializer, ...config.serializer };
+            }
+        } catch (error) {
+            console.error(`[C# API Startup] ⚠️ Failed to read startup configuration in ${projectDirectory}:`, error);
+        }
+
+        config.functionsRoutePrefix = await this.readFunctionsRoutePrefix(projectDirectory);
+        config.nullableReferenceTypes = await this.readNullableSetting(projectDirectory, projectName);
+
+        if (config.sourceFiles.length > 0) {
+            console.log(`[C# API Startup] ✅ ${projectName}: path bases [${config.pathBases.join(', ')}], ` +
+                `route prefix '${config.routePrefix ?? ''}', ${config.conventionalRoutes.length} conventional routes`);
+        }
+        return config;
+    }
+
+    /**
+     * Route prefix of HTTP triggered functions: "api" unless host.json sets extensions.http.routePrefix;
+     * undefined when the project has no host.json
+     */
+    private async readFunctionsRoutePrefix(projectDirectory: string): Promise<string | undefined> {
+        let text: string;
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(projectDirectory, 'host.json')));
+            text = document.getText();
+        } catch {
+            return undefined;
+        }
+
+        try {
+            // host.json may contain comments
+            const hostConfig = JSON.parse(text.replace(/^\s*\/\/.*$/gm, ''));
+            const routePrefix = hostConfig?.extensions?.http?.routePrefix;
+            return typeof routePrefix === 'string' ? routePrefix : 'api';
+        } catch (error) {
+            console.error(`[C# API Startup] ⚠️ Failed to parse host.json in ${projectDirectory}:`, error);
+            return 'api';
+        }
+    }
+
+    /**
+     * Nullable annotation context of a project: <Nullable> in the .csproj, otherwise in the nearest Directory.Build.props above it.
+     * A project that sets neither has nullable reference types disabled; undefined when the directory has no .csproj
+     */
+    private async readNullableSetting(projectDirectory: string, projectName: string): Promise<boolean | undefined> {
+        const projectText = await this.readTextFile(path.join(projectDirectory, `${projectName}.csproj`));
+        if (projectText === undefined) {
+            return undefined;
+        }
+
+        const readSetting = (text: string) => text.match(/<Nullable>\s*(\w+)\s*<\/Nullable>/i)?.[1].toLowerCase();
+        let setting = readSetting(projectText);
+
+        const workspaceRoot = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectDirectory))?.uri.fsPath;
+        let directory = projectDirectory;
+        while (setting === undefined) {
+            const propsText = await this.readTextFile(path.join(directory, 'Directory.Build.props'));
+            if (propsText !== undefined) {
+                setting = readSetting(propsText);
+                break;  // MSBuild only imports the nearest Directory.Build.props
+            }
+            const parent = path.dirname(directory);
+            if (parent === directory || directory === workspaceRoot) {
+                break;
+            }
+            directory = parent;
+        }
+
+        // "warnings" only reports nullability warnings; annotations (string vs string?) need "enable" or "annotations"
+        return setting === 'enable' || setting === 'annotations';
+    }
+
+    private async readTextFile(filePath: string): Promise<string | undefined> {
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+            return document.getText();
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async getConfigForFile(uri: vscode.Uri): Promise<StartupConfig> {
+        const projectFile = await this.findProjectFile(uri.fsPath);
+        const projectDirectory = projectFile
+            ? path.dirname(projectFile)
+            : vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath || path.dirname(uri.fsPath);
+
+        let config = this.configCache.get(projectDirectory);
+        if (!config) {
+            const projectName = projectFile ? path.basename(projectFile, '.csproj') : path.basename(projectDirectory);
+            config = this.loadConfig(projectDirectory, projectName);
+            this.configCache.set(projectDirectory, config);
+        }
+        return config;
+    }
+
+    /**
+     * MapControllerRoute(name, pattern, defaults) / MapAreaControllerRoute(name, areaName, pattern, defaults),
+     * with positional or named arguments
+     */
+    private parseConventionalRoute(tokens: CSharpToken[], args: Array<[number, number]>, isAreaRoute: boolean): ConventionalRoute | null {
+        const positionalNames = isAreaRoute ? ['name', 'areaName', 'pattern', 'defaults'] : ['name', 'pattern', 'defaults'];
+        const values: Record<string, [number, number]> = {};
+
+        args.forEach((arg, index) => {
+            if (tokens[arg[0]].kind === 'identifier' && tokens[arg[0] + 1]?.text === ':' && arg[0] + 1 < arg[1]) {
+                const argumentName = tokens[arg[0]].text === 'template' ? 'pattern' : tokens[arg[0]].text;
+                values[argumentName] = [arg[0] + 2, arg[1]];
+            } else if (index < positionalNames.length) {
+                values[positionalNames[index]] = arg;
+            }
+        });
+
+        const pattern = this.findStringValue(tokens, values.pattern);
+        if (pattern === undefined) {
+            return null;
+        }
+
+        return {
+            name: this.findStringValue(tokens, values.name),
+            pattern,
+            areaName: isAreaRoute ? this.findStringValue(tokens, values.areaName) : undefined,
+            defaults: this.parseAnonymousObject(tokens, values.defaults)
+        };
+    }
+
+    /**
+     * new { controller = "Blog", action = "Article" }
+     */
+    private parseAnonymousObject(tokens: CSharpToken[], range: [number, number] | undefined): Record<string, string> {
+        const values: Record<string, string> = {};
+        if (!range) {
+            return values;
+        }
+
+        for (let i = range[0]; i + 2 <= range[1]; i++) {
+            if (tokens[i].kind === 'identifier' && tokens[i + 1].text === '=' && tokens[i + 2].kind === 'string') {
+                values[tokens[i].text.toLowerCase()] = tokens[i + 2].value || '';
+            }
+        }
+        return values;
+    }
+
+    /**
+     * First string literal in an argument, e.g. "/svc" or new PathString("/svc")
+     */
+    private findStringValue(tokens: CSharpToken[], range: [number, number] | undefined): string | undefined {
+        if (!range) {
+            return undefined;
+        }
+        for (let i = range[0]; i <= range[1]; i++) {
+            if (tokens[i].kind === 'string') {
+                return tokens[i].value;
+            }
+        }
+        return undefined;
+    }
+
+    private async findProjectFile(filePath: string): Promise<string | undefined> {
+        if (!this.projectFiles) {
+            this.projectFiles = Promise.resolve(vscode.workspace.findFiles('**/*.csproj', StartupConfigDetector.excludePattern))
+                .then(uris => uris
+                    .map(uri => uri.fsPath)
+                    .sort((a, b) => path.dirname(b).length - path.dirname(a).length));
+        }
+
+        const projectFiles = await this.projectFiles;
+        return projectFiles.find(file => filePath.startsWith(path.dirname(file) + path.sep));
+    }
+}
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { CSharpSyntaxParser, CSharpToken } from '../csharpSyntax';
+
+describe('CSharpSyntaxParser', () => {
+    const parser = new CSharpSyntaxParser();
+    const kinds = (tokens: CSharpToken[]) => tokens.map(token => token.kind);
+    const texts = (tokens: CSharpToken[]) => tokens.map(token => token.text);
+
+    describe('tokenize', () => {
+        it('decodes regular and verbatim strings', () => {
+            const tokens = parser.tokenize('var a = "say \\"hi\\"\\n"; var b = @"C:\\temp\\""x""";');
+            const strings = tokens.filter(token => token.kind === 'string');
+
+            assert.deepStrictEqual(strings.map(token => token.value), ['say "hi"\n', 'C:\\temp\\"x"']);
+            assert.deepStrictEqual(texts(tokens.filter(token => token.kind === 'identifier')), ['var', 'a', 'var', 'b']);
+        });
+
+        it('keeps braces inside interpolated strings out of the token stream', () => {
+            const tokens = parser.tokenize('Get($"/orders/{id}/{(x ? "a" : "b")}") { }');
+
+            assert.deepStrictEqual(texts(tokens), ['Get', '(', '$"/orders/{id}/{(x ? "a" : "b")}"', ')', '{', '}']);
+            assert.strictEqual(tokens[2].kind, 'string');
+            assert.strictEqual(tokens[2].value, '/orders/{id}/{(x ? "a" : "b")}');
+        });
+
+        it('reads raw string literals without their indentation, including interpolated ones', () => {
+            const source = 'var a = """\n    { "id": 1 }\n    """; var b = $$"""{{{x}}}""";';
+            const strings = parser.tokenize(source).filter(token => token.kind === 'string');
+
+            assert.deepStrictEqual(strings.map(token => token.value), ['{ "id": 1 }', '{{{x}}}']);
+            assert.strictEqual(strings[1].text, '$$"""{{{x}}}"""');
+        });
+
+        it('reads char literals without ending the enclosing scope', () => {
+            const tokens = parser.tokenize("if (c == '{' || c == '\\'') { }");
+
+            assert.deepStrictEqual(kinds(tokens.filter(token => token.kind === 'char')), ['char', 'char']);
+            assert.strictEqual(tokens.filter(token => token.text === '{').length, 1);
+        });
+
+        it('drops comments but keeps doc comments and preprocessor lines', () => {
+            const source = [
+                '#nullable enable',
+                '/// <summary>Order</summary>',
+                '// class Hidden { }',
+                '/* { */ class Order { }'
+            ].join('\n');
+            const tokens = parser.tokenize(source);
+
+            assert.deepStrictEqual(kinds(tokens), ['directive', 'docComment', 'identifier', 'identifier', 'punctuation', 'punctuation']);
+            assert.deepStrictEqual(texts(tokens).slice(2), ['class', 'Order', '{', '}']);
+        });
+
+        it('tracks lines and characters', () => {
+            const tokens = parser.tokenize('class A\n{\n    int X;\n}');
+            const x = tokens.find(token => token.text === 'X')!;
+
+            assert.strictEqual(x.line, 2);
+            assert.strictEqual(x.character, 8);
+        });
+    });
+
+    describe('parse', () => {
+        it('finds types, members and attributes', () => {
+            const tree = parser.parse([
+                'namespace Shop;',
+                '[ApiController, Route("api/[controller]")]',
+                'public class OrdersController : ControllerBase',
+                '{',
+                '    [HttpGet("{id:int}")]',
+                '    public Task<Order> Get(int id, [FromQuery(Name = "q")] string? query = null) => null!;',
+                '    public required string Name { get; init; }',
+                '}'
+            ].join('\n'));
+            const type = parser.findType(tree, 'OrdersController')!;
+
+            assert.ok(type);
+            assert.deepStrictEqual(type.attributes.map(attribute => attribute.name), ['ApiController', 'Route']);
+            assert.strictEqual(type.attributes[1].arguments[0].stringValue, 'api/[controller]');
+
+            const method = type.members.find(member => member.name === 'Get')!;
+            assert.strictEqual(method.kind, 'method');
+            assert.strictEqual(method.attributes[0].arguments[0].stringValue, '{id:int}');
+            assert.deepStrictEqual(method.parameters?.map(param => param.name), ['id', 'query']);
+            assert.strictEqual(method.parameters?.[1].defaultValue, 'null');
+            assert.strictEqual(method.parameters?.[1].attributes[0].arguments[0].name, 'Name');
+
+            const property = type.members.find(member => member.name === 'Name')!;
+            assert.strictEqual(property.kind, 'property');
+            assert.ok(property.modifiers.includes('required'));
+            assert.deepStrictEqual(property.accessors, ['get', 'init']);
+        });
+
+        it('reads positional record parameters', () => {
+            const tree = parser.parse('public record OrderLine(string Sku, int Quantity = 1);');
+            const record = parser.findType(tree, 'OrderLine', ['record'])!;
+
+            assert.deepStrictEqual(record.primaryConstructorParameters?.map(param => `${param.type} ${param.name}`), ['string Sku', 'int Quantity']);
+            assert.strictEqual(record.primaryConstructorParameters?.[1].defaultValue, '1');
+        });
+    });
+});
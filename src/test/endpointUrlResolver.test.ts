@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { ApiEndpointInfo, ApiParameter } from '../apiEndpointDetector';
+import { IndexedApiEndpoint } from '../apiEndpointExplorer';
+import { EndpointUrlResolver } from '../endpointUrlResolver';
+
+function indexed(method: string, route: string, parameters: ApiParameter[] = [], extra: Partial<ApiEndpointInfo> = {}): IndexedApiEndpoint {
+    return {
+        endpoint: { method, route, parameters, returnType: 'IActionResult', line: 0, character: 0, methodName: `${method}${route}`, ...extra },
+        uri: { fsPath: '/src/OrdersController.cs', toString: () => 'file:///src/OrdersController.cs' } as unknown as IndexedApiEndpoint['uri']
+    };
+}
+
+describe('EndpointUrlResolver', () => {
+    describe('parseInput', () => {
+        it('reads the method, path and query of a full URL', () => {
+            assert.deepStrictEqual(EndpointUrlResolver.parseInput('post https://localhost:5001/api/orders/7?expand=lines&x=%20y'), {
+                method: 'POST',
+                path: '/api/orders/7',
+                queryParams: { expand: 'lines', x: ' y' }
+            });
+        });
+
+        it('accepts a path without method or leading slash', () => {
+            assert.deepStrictEqual(EndpointUrlResolver.parseInput('api/orders'), { method: undefined, path: '/api/orders', queryParams: {} });
+            assert.strictEqual(EndpointUrlResolver.parseInput('   '), null);
+        });
+    });
+
+    describe('resolve', () => {
+        const endpoints = [
+            indexed('GET', '/api/orders/{id}'),
+            indexed('GET', '/api/orders/latest'),
+            indexed('DELETE', '/api/orders/{id}', [{ name: 'id', type: 'int', source: 'path', required: true, constraint: 'int' }]),
+            indexed('GET', '/api/customers/{id}')
+        ];
+
+        it('orders matches by method, then route precedence', () => {
+            const matches = EndpointUrlResolver.resolve(EndpointUrlResolver.parseInput('GET /api/orders/latest')!, endpoints);
+
+            assert.deepStrictEqual(matches.map(match => `${match.item.endpoint.method} ${match.item.endpoint.route}`), [
+                'GET /api/orders/latest',
+                'GET /api/orders/{id}'
+            ]);
+        });
+
+        it('returns route and query values for the match', () => {
+            const [match] = EndpointUrlResolver.resolve(EndpointUrlResolver.parseInput('DELETE /api/orders/42?force=true')!, endpoints);
+
+            assert.strictEqual(match.item.endpoint.method, 'DELETE');
+            assert.strictEqual(match.methodMatches, true);
+            assert.deepStrictEqual(match.values, { pathParams: { id: '42' }, queryParams: { force: 'true' } });
+        });
+
+        it('applies constraints the detector moved to parameters', () => {
+            const matches = EndpointUrlResolver.resolve(EndpointUrlResolver.parseInput('DELETE /api/orders/abc')!, endpoints);
+
+            assert.deepStrictEqual(matches.map(match => match.item.endpoint.method), ['GET']);
+            assert.strictEqual(matches[0].methodMatches, false);
+        });
+
+        it('matches URLs that include the environment base path', () => {
+            const request = EndpointUrlResolver.parseInput('/gateway/api/customers/5')!;
+
+            assert.strictEqual(EndpointUrlResolver.resolve(request, endpoints).length, 0);
+            assert.deepStrictEqual(EndpointUrlResolver.resolve(request, endpoints, '/gateway/').map(match => match.item.endpoint.route), ['/api/customers/{id}']);
+        });
+
+        it('selects Razor Pages handlers by ?handler=', () => {
+            const pages = [
+                indexed('POST', '/Orders/Edit', [], { kind: 'razorPage' }),
+                indexed('POST', '/Orders/Edit', [], { kind: 'razorPage', pageHandler: 'Delete' })
+            ];
+            const matches = EndpointUrlResolver.resolve(EndpointUrlResolver.parseInput('POST /orders/edit?handler=delete')!, pages);
+
+            assert.deepStrictEqual(matches.map(match => match.item.endpoint.pageHandler), ['Delete']);
+        });
+    });
+});
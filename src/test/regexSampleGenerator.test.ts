@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { RegexSampleGenerator } from '../regexSampleGenerator';
+
+describe('RegexSampleGenerator', () => {
+    const assertMatches = (pattern: string, flags = '') => {
+        const sample = RegexSampleGenerator.generate(pattern);
+        assert.ok(sample !== undefined, `no sample for ${pattern}`);
+        assert.ok(new RegExp(`^(?:${pattern})$`, flags).test(sample!), `${JSON.stringify(sample)} does not match ${pattern}`);
+        return sample!;
+    };
+
+    describe('generate', () => {
+        it('produces values matching character classes and quantifiers', () => {
+            assertMatches('^[A-Z]{3}-\\d{4}$');
+            assertMatches('^[a-z0-9_]{5,10}$');
+            assertMatches('^\\w+@\\w+\\.com$');
+        });
+
+        it('handles groups, alternation and optional parts', () => {
+            assertMatches('^(ORD|INV)-(\\d{2}|X)(-[a-f]+)?$');
+            assertMatches('^(?:\\+1-)?\\d{3}-\\d{4}$');
+        });
+
+        it('honors escapes and negated classes', () => {
+            const sample = assertMatches('^[^0-9\\s]{2}\\.\\$$');
+            assert.strictEqual(sample.length, 4);
+        });
+
+        it('supports Unicode categories', () => {
+            assertMatches('^\\p{Lu}\\p{Ll}+$', 'u');
+        });
+
+        it('keeps a partial-match pattern inside a longer value', () => {
+            const sample = RegexSampleGenerator.generate('\\d{3}', false);
+            assert.ok(sample !== undefined && /\d{3}/.test(sample));
+        });
+
+        it('gives up on patterns it cannot satisfy', () => {
+            assert.strictEqual(RegexSampleGenerator.generate('^(?!)$'), undefined);
+        });
+    });
+
+    describe('createRegExp', () => {
+        it('returns undefined for invalid patterns', () => {
+            assert.strictEqual(RegexSampleGenerator.createRegExp('[a-'), undefined);
+            assert.ok(RegexSampleGenerator.createRegExp('\\p{L}+')?.test('Ärger'));
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { ApiEndpointInfo, ApiParameter } from '../apiEndpointDetector';
+import { IndexedApiEndpoint } from '../apiEndpointExplorer';
+import { RouteConflictDiagnostics } from '../routeConflictDiagnostics';
+
+let nextLine = 0;
+
+function indexed(method: string, route: string, parameters: ApiParameter[] = [], extra: Partial<ApiEndpointInfo> = {}): IndexedApiEndpoint {
+    const line = nextLine++;
+    return {
+        endpoint: { method, route, parameters, returnType: 'IActionResult', line, character: 0, methodName: `Action${line}`, controllerName: 'Orders', ...extra },
+        uri: { fsPath: '/src/OrdersController.cs', toString: () => 'file:///src/OrdersController.cs' } as unknown as IndexedApiEndpoint['uri']
+    };
+}
+
+function pathParameter(name: string, type = 'int'): ApiParameter {
+    return { name, type, source: 'path', required: true };
+}
+
+describe('RouteConflictDiagnostics', () => {
+    const findIssues = (items: IndexedApiEndpoint[]) => RouteConflictDiagnostics.findIssues(items, () => 'Shop.Api');
+    const issueKinds = (items: IndexedApiEndpoint[]) => findIssues(items).map(issue => `${issue.kind} ${issue.item.endpoint.route}`);
+
+    describe('findIssues', () => {
+        it('reports the same method and template declared twice', () => {
+            const items = [
+                indexed('GET', '/api/orders/{id}', [pathParameter('id')]),
+                indexed('GET', '/api/Orders/{orderId}', [pathParameter('orderId')]),
+                indexed('POST', '/api/orders/{id}', [pathParameter('id')])
+            ];
+
+            assert.deepStrictEqual(issueKinds(items), ['duplicateRoute /api/orders/{id}', 'duplicateRoute /api/Orders/{orderId}']);
+            assert.deepStrictEqual(findIssues(items)[0].related, [items[1]]);
+        });
+
+        it('reports templates matching the same URLs with equal precedence', () => {
+            const items = [
+                indexed('GET', '/api/orders/{id:int}', [pathParameter('id')]),
+                indexed('GET', '/api/orders/{number:long}', [pathParameter('number', 'long')]),
+                indexed('GET', '/api/orders/{code:alpha}', [pathParameter('code', 'string')])
+            ];
+
+            assert.deepStrictEqual(issueKinds(items), ['overlappingRoute /api/orders/{id:int}', 'overlappingRoute /api/orders/{number:long}']);
+        });
+
+        it('does not compare routes of different projects, verbs or handlers', () => {
+            const items = [
+                indexed('GET', '/api/orders'),
+                indexed('GET', '/api/orders', [], { apiVersion: '2.0' }),
+                indexed('POST', '/Orders', [], { kind: 'razorPage' }),
+                indexed('POST', '/Orders', [], { kind: 'razorPage', pageHandler: 'Delete' })
+            ];
+
+            assert.deepStrictEqual(issueKinds(items), []);
+            assert.deepStrictEqual(RouteConflictDiagnostics.findIssues([indexed('GET', '/x'), indexed('GET', '/x')], item => item.endpoint.methodName), []);
+        });
+
+        it('reports route parameters no action parameter binds to, and route-bound parameters missing from the template', () => {
+            const items = [
+                indexed('GET', '/api/orders/{id}/lines/{lineId}', [pathParameter('id')]),
+                indexed('PUT', '/api/orders/{id}', [pathParameter('id'), pathParameter('version')])
+            ];
+
+            assert.deepStrictEqual(issueKinds(items), [
+                'unboundRouteParameter /api/orders/{id}/lines/{lineId}',
+                'missingRouteParameter /api/orders/{id}'
+            ]);
+        });
+
+        it('skips the parameter check when a complex route type could not be expanded', () => {
+            const key: ApiParameter = { ...pathParameter('key', 'OrderKey'), unresolvedMembers: true };
+
+            assert.deepStrictEqual(issueKinds([indexed('GET', '/api/orders/{tenant}/{orderId}', [key])]), []);
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { RouteTemplate } from '../routeTemplate';
+
+describe('RouteTemplate', () => {
+    describe('parse', () => {
+        it('reads constraints, optional parameters, defaults and catch-alls', () => {
+            const template = RouteTemplate.parse('/api/{id:int:min(1)}/{slug?}/{page=1}/{**path}');
+            const [id, slug, page, path] = template.parameters;
+
+            assert.strictEqual(id.name, 'id');
+            assert.deepStrictEqual(id.constraints.map(constraint => [constraint.name, constraint.argument]), [['int', undefined], ['min', '1']]);
+            assert.strictEqual(slug.optional, true);
+            assert.strictEqual(page.defaultValue, '1');
+            assert.strictEqual(path.catchAll, true);
+            assert.strictEqual(path.encodeSlashes, false);
+        });
+
+        it('keeps regex constraints with braces and colons together', () => {
+            const template = RouteTemplate.parse('{code:regex(^\\d{{3}}:[a-z]+$)}');
+
+            assert.deepStrictEqual(template.parameters[0].constraints.map(constraint => constraint.name), ['regex']);
+            assert.strictEqual(template.parameters[0].constraints[0].argument, '^\\d{3}:[a-z]+$');
+        });
+
+        it('splits complex segments into literals and parameters', () => {
+            const template = RouteTemplate.parse('files/{name}.{ext?}');
+
+            assert.deepStrictEqual(template.segments[1].parts.map(part => part.kind), ['parameter', 'literal', 'parameter']);
+            assert.ok(template.getParameter('EXT'));
+        });
+    });
+
+    describe('match', () => {
+        it('returns parameter values and checks constraints', () => {
+            const template = RouteTemplate.parse('api/orders/{id:int}');
+
+            assert.deepStrictEqual(template.match('/API/Orders/42'), { id: '42' });
+            assert.strictEqual(template.match('/api/orders/abc'), undefined);
+            assert.strictEqual(template.match('/api/orders'), undefined);
+        });
+
+        it('fills omitted optional parameters with their defaults', () => {
+            const template = RouteTemplate.parse('blog/{page:int=1}/{tag?}');
+
+            assert.deepStrictEqual(template.match('/blog'), { page: '1' });
+            assert.deepStrictEqual(template.match('/blog/3/news'), { page: '3', tag: 'news' });
+        });
+
+        it('captures the rest of the path for catch-all parameters', () => {
+            assert.deepStrictEqual(RouteTemplate.parse('docs/{**path}').match('/docs/guides/setup%20notes'), { path: 'guides/setup notes' });
+        });
+
+        it('makes the dot before an optional extension optional too', () => {
+            const template = RouteTemplate.parse('files/{name}.{ext?}');
+
+            assert.deepStrictEqual(template.match('/files/report.pdf'), { name: 'report', ext: 'pdf' });
+            assert.deepStrictEqual(template.match('/files/report'), { name: 'report' });
+        });
+    });
+
+    describe('render', () => {
+        it('drops optional parameters without a value together with their separator', () => {
+            const template = RouteTemplate.parse('files/{name}.{ext?}/{version?}');
+            const values: Record<string, string> = { name: 'report' };
+
+            assert.strictEqual(template.render(parameter => values[parameter.name]), 'files/report');
+        });
+    });
+
+    describe('comparePrecedence', () => {
+        it('orders literals before constrained parameters, parameters and catch-alls', () => {
+            const templates = ['{**path}', '{id}', '{id:int}', 'latest'].map(text => RouteTemplate.parse(`api/${text}`));
+            const sorted = [...templates].sort(RouteTemplate.comparePrecedence).map(template => template.toString());
+
+            assert.deepStrictEqual(sorted, ['api/latest', 'api/{id:int}', 'api/{id}', 'api/{**path}']);
+        });
+    });
+
+    describe('matchesConstraints', () => {
+        it('checks type, length, range and regex constraints', () => {
+            const constraints = (text: string) => RouteTemplate.parseConstraints(text);
+
+            assert.ok(RouteTemplate.matchesConstraints('7', constraints('int:range(1,10)')));
+            assert.ok(!RouteTemplate.matchesConstraints('11', constraints('int:range(1,10)')));
+            assert.ok(RouteTemplate.matchesConstraints('abc', constraints('alpha:length(3)')));
+            assert.ok(!RouteTemplate.matchesConstraints('3f2504e0', constraints('guid')));
+            assert.ok(RouteTemplate.matchesConstraints('AB-12', constraints('regex(^[A-Z]{2}-\\d+$)')));
+        });
+    });
+});
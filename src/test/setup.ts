@@ -0,0 +1,11 @@
+import Module = require('module');
+
+/**
+ * Unit tests run outside VS Code: modules that only use the vscode API once an extension object is created
+ * (e.g. RouteConflictDiagnostics) can still be loaded for their static helpers
+ */
+const moduleInternals = Module as unknown as { _load: (request: string, ...args: unknown[]) => unknown };
+const load = moduleInternals._load;
+moduleInternals._load = function (this: unknown, request: string, ...args: unknown[]) {
+    return request === 'vscode' ? {} : load.call(this, request, ...args);
+};
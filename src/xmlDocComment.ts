@@ -0,0 +1,94 @@
+/**
+ * Tags of a C# XML documentation comment that matter for testing an API
+ */
+export interface XmlDocumentation {
+    summary?: string;
+    remarks?: string;
+    returns?: string;
+    example?: string;
+    params: Record<string, string>;     // <param name="id">
+    paramExamples: Record<string, string>; // <param name="id" example="42">
+    responses: Record<number, string>;  // <response code="404">
+}
+
+/**
+ * Parses `/// <summary>...</summary>` style documentation into plain text per tag
+ */
+export class XmlDocComment {
+    /**
+     * @param docComment Comment text without the leading `///`, as collected by the syntax parser
+     */
+    static parse(docComment: string | undefined): XmlDocumentation {
+        const documentation: XmlDocumentation = { params: {}, paramExamples: {}, responses: {} };
+        if (!docComment) {
+            return documentation;
+        }
+
+        documentation.summary = this.readElement(docComment, 'summary');
+        documentation.remarks = this.readElement(docComment, 'remarks');
+        documentation.returns = this.readElement(docComment, 'returns');
+        documentation.example = this.readElement(docComment, 'example');
+
+        for (const match of docComment.matchAll(/<param\s+([^>]*?)\s*(?:\/>|>([\s\S]*?)<\/param\s*>)/g)) {
+            const name = this.readAttribute(match[1], 'name');
+            if (!name) {
+                continue;
+            }
+            const text = this.toPlainText(match[2] || '');
+            if (text) {
+                documentation.params[name] = text;
+            }
+            const example = this.readAttribute(match[1], 'example');
+            if (example !== undefined) {
+                documentation.paramExamples[name] = example;
+            }
+        }
+
+        for (const match of docComment.matchAll(/<response\s+code\s*=\s*["'](\d{3})["']\s*>([\s\S]*?)<\/response\s*>/g)) {
+            documentation.responses[parseInt(match[1], 10)] = this.toPlainText(match[2]);
+        }
+
+        return documentation;
+    }
+
+    /**
+     * Text of the first element with the given tag, e.g. <summary>
+     */
+    private static readElement(docComment: string, tag: string): string | undefined {
+        const match = docComment.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}\\s*>`));
+        const text = match ? this.toPlainText(match[1]) : '';
+        return text || undefined;
+    }
+
+    private static readAttribute(attributes: string, name: string): string | undefined {
+        const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+        return match ? this.decodeEntities(match[1] ?? match[2]) : undefined;
+    }
+
+    /**
+     * Inline tags become their text: <see cref="T:Shop.Order"/> -> Order, <paramref name="id"/> -> id, <c>null</c> -> null
+     */
+    private static toPlainText(xml: string): string {
+        return xml
+            .replace(/<(?:see|seealso)\s+cref\s*=\s*["'](?:\w:)?([^"']+)["']\s*\/>/g, (_, reference: string) =>
+                reference.replace(/\(.*\)$/, '').split('.').pop() || reference)
+            .replace(/<(?:see|seealso)\s+(?:href|langword)\s*=\s*["']([^"']+)["']\s*\/>/g, '$1')
+            .replace(/<(?:paramref|typeparamref)\s+name\s*=\s*["']([^"']+)["']\s*\/>/g, '$1')
+            .replace(/<para\s*\/?>|<\/para>|<br\s*\/?>/g, '\n')
+            .replace(/<[^>]+>/g, '')
+            .split('\n')
+            .map(line => line.replace(/\s+/g, ' ').trim())
+            .filter(line => line.length > 0)
+            .map(line => this.decodeEntities(line))
+            .join('\n');
+    }
+
+    private static decodeEntities(text: string): string {
+        return text
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, '\'')
+            .replace(/&amp;/g, '&');
+    }
+}